@@ -0,0 +1,124 @@
+/**
+ * Runs concurrent deductions against one interview hold on an in-memory stand-in for Supabase and
+ * checks that the company balance, the hold and the ledger still agree afterwards.
+ *
+ *   npm run check:credits
+ */
+import assert from 'node:assert/strict'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { deductCredits, reserveCredits, settleCreditReservation } from '../src/credits/manager'
+
+type Row = Record<string, unknown>
+
+const tables: Record<string, Row[]> = {
+  companies: [],
+  credit_reservations: [],
+  credit_transactions: [],
+}
+
+// Yield between reading and writing so concurrent callers interleave the way real requests do.
+const tick = () => new Promise((resolve) => setTimeout(resolve, Math.floor(Math.random() * 3)))
+
+function pick(row: Row, columns: string): Row {
+  if (columns === '*') return { ...row }
+  return Object.fromEntries(columns.split(',').map((column) => [column.trim(), row[column.trim()]]))
+}
+
+class Query implements PromiseLike<{ data: unknown; error: null }> {
+  private filters: Array<(row: Row) => boolean> = []
+  private columns: string | null = null
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many'
+
+  constructor(
+    private table: string,
+    private action: 'select' | 'update' | 'insert',
+    private values: Row = {}
+  ) {}
+
+  select(columns: string) {
+    this.columns = columns
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => row[column] === value)
+    return this
+  }
+
+  single() {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = 'maybeSingle'
+    return this
+  }
+
+  private async run(): Promise<{ data: unknown; error: null }> {
+    await tick()
+    const rows = tables[this.table]
+    let affected: Row[]
+
+    if (this.action === 'insert') {
+      const row = { id: `${this.table}-${rows.length + 1}`, ...this.values }
+      rows.push(row)
+      affected = [row]
+    } else {
+      affected = rows.filter((row) => this.filters.every((filter) => filter(row)))
+      if (this.action === 'update') for (const row of affected) Object.assign(row, this.values)
+    }
+
+    const data = this.columns ? affected.map((row) => pick(row, this.columns as string)) : null
+    if (this.mode === 'many') return { data, error: null }
+    return { data: data?.[0] ?? null, error: null }
+  }
+
+  then<R1, R2>(onFulfilled?: (value: { data: unknown; error: null }) => R1 | PromiseLike<R1>, onRejected?: (reason: unknown) => R2 | PromiseLike<R2>) {
+    return this.run().then(onFulfilled, onRejected)
+  }
+}
+
+const supabase = {
+  from(table: string) {
+    return {
+      select: (columns: string) => new Query(table, 'select').select(columns),
+      update: (values: Row) => new Query(table, 'update', values),
+      insert: (values: Row) => new Query(table, 'insert', values),
+    }
+  },
+} as unknown as SupabaseClient
+
+async function main(): Promise<void> {
+  const companyId = 'company-1'
+  const interviewId = 'interview-1'
+  tables.companies.push({ id: companyId, credits_remaining: 100, credits_reserved: 0 })
+
+  const reservation = await reserveCredits({ companyId, interviewId, amount: 30 }, supabase)
+  assert.equal(reservation.success, true)
+
+  // 20 one-credit heartbeats race for a 30-credit hold, then 20 more overflow it.
+  const results = await Promise.all(
+    Array.from({ length: 40 }, () =>
+      deductCredits({ companyId, amount: 1, type: 'interview_minute', referenceId: interviewId, referenceType: 'interview' }, supabase)
+    )
+  )
+  const charged = results.filter((result) => result.success).length
+
+  const company = tables.companies[0]
+  const hold = tables.credit_reservations[0]
+  assert.equal(company.credits_remaining, 100 - charged, 'every successful deduction is charged exactly once')
+  assert.equal(hold.consumed, Math.min(30, charged), 'the hold covers no more than it holds')
+  assert.equal(company.credits_reserved, 30 - (hold.consumed as number), 'reserved matches the unused hold')
+  assert.equal(tables.credit_transactions.length, charged, 'one ledger entry per deduction')
+
+  await settleCreditReservation(interviewId, supabase)
+  assert.equal(company.credits_reserved, 0, 'settling returns the rest of the hold')
+
+  console.log(`ok: ${charged} concurrent deductions, ${hold.consumed} covered by the hold`)
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exit(1)
+})
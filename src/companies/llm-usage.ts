@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '../supabase/admin'
+import { LLM_USAGE_EVENTS_TABLE } from '../llm/usage'
+import {
+  addLLMUsageEvent,
+  emptyLLMUsageTotals,
+  groupLLMUsage,
+  type LLMUsageEvent,
+  type LLMUsageTotals,
+} from '../interviews/llm-usage'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'LLM Usage' })
+
+const PAGE_SIZE = 1000
+const INTERVIEW_LOOKUP_CHUNK = 200
+
+export interface LLMUsageModeRollup extends LLMUsageTotals {
+  interviews: number
+  creditsCharged: number
+  costPerInterviewUsd: number | null
+}
+
+export type GetCompanyLLMUsageResponse =
+  | {
+      status: 200
+      body: {
+        success: true
+        companyId: string
+        month: string
+        totals: LLMUsageTotals & { interviews: number; creditsCharged: number }
+        byMode: Record<string, LLMUsageModeRollup>
+        byTask: Record<string, LLMUsageTotals>
+        byModel: Record<string, LLMUsageTotals>
+      }
+    }
+  | { status: 400 | 500; body: { error: string } }
+
+function parseMonth(value: string | null): { month: string; start: Date; end: Date } | null {
+  const now = new Date()
+  const raw = value || `${now.getUTCFullYear()}-${String(now.getUTCMonth() + 1).padStart(2, '0')}`
+  const match = /^(\d{4})-(\d{2})$/.exec(raw)
+  if (!match) return null
+
+  const year = Number(match[1])
+  const monthIndex = Number(match[2]) - 1
+  if (monthIndex < 0 || monthIndex > 11) return null
+
+  return {
+    month: raw,
+    start: new Date(Date.UTC(year, monthIndex, 1)),
+    end: new Date(Date.UTC(year, monthIndex + 1, 1)),
+  }
+}
+
+async function fetchMonthEvents(
+  supabase: SupabaseClient,
+  companyId: string,
+  start: Date,
+  end: Date
+): Promise<LLMUsageEvent[]> {
+  const events: LLMUsageEvent[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(LLM_USAGE_EVENTS_TABLE)
+      .select('*')
+      .eq('company_id', companyId)
+      .gte('created_at', start.toISOString())
+      .lt('created_at', end.toISOString())
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const page = (data || []) as LLMUsageEvent[]
+    events.push(...page)
+    if (page.length < PAGE_SIZE) return events
+  }
+}
+
+async function fetchInterviewCredits(
+  supabase: SupabaseClient,
+  interviewIds: string[]
+): Promise<Map<string, { mode: string | null; credits: number }>> {
+  const result = new Map<string, { mode: string | null; credits: number }>()
+
+  for (let i = 0; i < interviewIds.length; i += INTERVIEW_LOOKUP_CHUNK) {
+    const chunk = interviewIds.slice(i, i + INTERVIEW_LOOKUP_CHUNK)
+    const { data, error } = await supabase
+      .from('interviews')
+      .select('id, interview_mode, credits_deducted')
+      .in('id', chunk)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    for (const row of (data || []) as Array<{ id: string; interview_mode: string | null; credits_deducted: number | null }>) {
+      result.set(row.id, { mode: row.interview_mode, credits: row.credits_deducted ?? 0 })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Monthly LLM spend for a company, broken down by interview mode so the model cost of each
+ * mode can be compared with the credits charged for the same interviews.
+ */
+export async function handleGetCompanyLLMUsage(
+  companyId: string,
+  monthParam: string | null
+): Promise<GetCompanyLLMUsageResponse> {
+  if (!companyId) {
+    return { status: 400, body: { error: 'Missing company ID' } }
+  }
+
+  const period = parseMonth(monthParam)
+  if (!period) {
+    return { status: 400, body: { error: 'month must be formatted as YYYY-MM' } }
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const events = await fetchMonthEvents(supabase, companyId, period.start, period.end)
+
+    const interviewIds = Array.from(
+      new Set(events.map((event) => event.interview_id).filter((id): id is string => Boolean(id)))
+    )
+    const interviewCredits = await fetchInterviewCredits(supabase, interviewIds)
+
+    const modeOf = (event: LLMUsageEvent) =>
+      event.interview_mode ?? (event.interview_id ? interviewCredits.get(event.interview_id)?.mode : null) ?? 'unattributed'
+
+    const byMode: Record<string, LLMUsageModeRollup> = {}
+    for (const [mode, totals] of Object.entries(groupLLMUsage(events, modeOf))) {
+      byMode[mode] = { ...totals, interviews: 0, creditsCharged: 0, costPerInterviewUsd: null }
+    }
+
+    const countedInterviews = new Set<string>()
+    for (const event of events) {
+      if (!event.interview_id || countedInterviews.has(event.interview_id)) continue
+      countedInterviews.add(event.interview_id)
+      const rollup = byMode[modeOf(event)]
+      rollup.interviews += 1
+      rollup.creditsCharged += interviewCredits.get(event.interview_id)?.credits ?? 0
+    }
+
+    for (const rollup of Object.values(byMode)) {
+      rollup.costPerInterviewUsd =
+        rollup.interviews > 0 ? Math.round((rollup.costUsd / rollup.interviews) * 1_000_000) / 1_000_000 : null
+    }
+
+    const totals = events.reduce(addLLMUsageEvent, emptyLLMUsageTotals())
+
+    return {
+      status: 200,
+      body: {
+        success: true,
+        companyId,
+        month: period.month,
+        totals: {
+          ...totals,
+          interviews: countedInterviews.size,
+          creditsCharged: Object.values(byMode).reduce((sum, rollup) => sum + rollup.creditsCharged, 0),
+        },
+        byMode,
+        byTask: groupLLMUsage(events, (event) => event.task),
+        byModel: groupLLMUsage(events, (event) => event.model),
+      },
+    }
+  } catch (error) {
+    log.error('Error fetching company LLM usage', { err: error })
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return { status: 500, body: { error: message } }
+  }
+}
@@ -0,0 +1,399 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { CHARGE_TYPES, fetchLedger, minutesBilledByRow, REFUND_TYPE } from '../credits/ledger'
+import { createAdminClient } from '../supabase/admin'
+import { INTERVIEW_MODES, LEGACY_MODE_MAP, normalizeInterviewMode } from '../interview/modes'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Usage' })
+
+const INTERVIEW_LOOKUP_CHUNK = 200
+const DEFAULT_RANGE_DAYS = 30
+const MAX_RANGE_DAYS = 366
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type UsageGranularity = 'day' | 'week' | 'month'
+
+export interface UsageFilters {
+  from: Date
+  to: Date
+  jobId: string | null
+  interviewerId: string | null
+  mode: string | null
+  granularity: UsageGranularity
+}
+
+export interface UsageTotals {
+  interviews: number
+  minutes: number
+  creditsCharged: number
+  creditsRefunded: number
+  netCredits: number
+}
+
+export interface UsageInterviewLine extends Omit<UsageTotals, 'interviews'> {
+  interviewId: string
+  date: string
+  jobId: string | null
+  jobTitle: string | null
+  interviewerId: string | null
+  mode: string
+}
+
+export interface UsageTimelinePoint extends UsageTotals {
+  period: string
+  /** Company balance after the last ledger entry in the period, across all interviews. */
+  balance: number | null
+}
+
+export interface CompanyUsageReport {
+  companyId: string
+  from: string
+  to: string
+  filters: { jobId: string | null; interviewerId: string | null; mode: string | null }
+  granularity: UsageGranularity
+  totals: UsageTotals
+  byJob: Array<UsageTotals & { jobId: string | null; jobTitle: string | null }>
+  byInterviewer: Array<UsageTotals & { interviewerId: string | null }>
+  byMode: Record<string, UsageTotals>
+  timeline: UsageTimelinePoint[]
+  interviews: UsageInterviewLine[]
+}
+
+export type GetCompanyUsageResponse =
+  | { status: 200; body: { success: true } & CompanyUsageReport }
+  | { status: 200; csv: string; filename: string }
+  | { status: 400 | 500; body: { error: string } }
+
+type InterviewDetails = {
+  id: string
+  jobId: string | null
+  jobTitle: string | null
+  interviewerId: string | null
+  mode: string
+}
+
+function emptyTotals(): UsageTotals {
+  return { interviews: 0, minutes: 0, creditsCharged: 0, creditsRefunded: 0, netCredits: 0 }
+}
+
+function parseDateParam(value: string | null, endOfDay: boolean): Date | null | undefined {
+  if (!value) return undefined
+  // A bare date for `to` includes that whole day.
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T00:00:00.000Z`)
+    if (Number.isNaN(date.getTime())) return null
+    return endOfDay ? new Date(date.getTime() + DAY_MS) : date
+  }
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? null : date
+}
+
+function parseUsageFilters(params: URLSearchParams): UsageFilters | { error: string } {
+  const to = parseDateParam(params.get('to'), true)
+  const from = parseDateParam(params.get('from'), false)
+  if (to === null || from === null) {
+    return { error: 'from and to must be ISO dates (YYYY-MM-DD) or timestamps' }
+  }
+
+  const end = to ?? new Date()
+  const start = from ?? new Date(end.getTime() - DEFAULT_RANGE_DAYS * DAY_MS)
+  if (start >= end) {
+    return { error: 'from must be before to' }
+  }
+  if (end.getTime() - start.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    return { error: `Date range cannot exceed ${MAX_RANGE_DAYS} days` }
+  }
+
+  const granularity = params.get('granularity') || 'day'
+  if (granularity !== 'day' && granularity !== 'week' && granularity !== 'month') {
+    return { error: 'granularity must be one of: day, week, month' }
+  }
+
+  const mode = params.get('mode')
+  if (mode && !(Object.values(INTERVIEW_MODES) as string[]).includes(mode) && !LEGACY_MODE_MAP[mode]) {
+    return { error: `mode must be one of: ${Object.values(INTERVIEW_MODES).join(', ')}` }
+  }
+
+  return {
+    from: start,
+    to: end,
+    jobId: params.get('jobId') || null,
+    interviewerId: params.get('interviewerId') || null,
+    mode: mode ? normalizeInterviewMode(mode) : null,
+    granularity,
+  }
+}
+
+function periodKey(iso: string, granularity: UsageGranularity): string {
+  const date = new Date(iso)
+  if (granularity === 'month') return iso.slice(0, 7)
+  if (granularity === 'week') {
+    // Weeks start on Monday (UTC).
+    const offset = (date.getUTCDay() + 6) % 7
+    return new Date(date.getTime() - offset * DAY_MS).toISOString().slice(0, 10)
+  }
+  return date.toISOString().slice(0, 10)
+}
+
+async function fetchInterviewers(
+  supabase: SupabaseClient,
+  table: 'copilot_interviews' | 'coseat_interviews',
+  interviewIds: string[],
+  into: Map<string, string>
+): Promise<void> {
+  const { data, error } = await supabase.from(table).select('interview_id, interviewer_id').in('interview_id', interviewIds)
+  if (error) {
+    if (error.code !== '42P01') throw new Error(error.message)
+    return
+  }
+
+  for (const row of (data || []) as Array<{ interview_id: string; interviewer_id: string | null }>) {
+    if (row.interviewer_id) into.set(row.interview_id, row.interviewer_id)
+  }
+}
+
+async function fetchInterviewDetails(
+  supabase: SupabaseClient,
+  companyId: string,
+  interviewIds: string[]
+): Promise<Map<string, InterviewDetails>> {
+  const result = new Map<string, InterviewDetails>()
+
+  for (let i = 0; i < interviewIds.length; i += INTERVIEW_LOOKUP_CHUNK) {
+    const chunk = interviewIds.slice(i, i + INTERVIEW_LOOKUP_CHUNK)
+
+    const { data, error } = await supabase
+      .from('interviews')
+      .select('id, job_id, interview_mode, jobs(title)')
+      .eq('company_id', companyId)
+      .in('id', chunk)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const interviewers = new Map<string, string>()
+    await fetchInterviewers(supabase, 'copilot_interviews', chunk, interviewers)
+    await fetchInterviewers(supabase, 'coseat_interviews', chunk, interviewers)
+
+    const rows = (data || []) as unknown as Array<{
+      id: string
+      job_id: string | null
+      interview_mode: string | null
+      jobs: { title: string | null } | Array<{ title: string | null }> | null
+    }>
+
+    for (const row of rows) {
+      const job = Array.isArray(row.jobs) ? row.jobs[0] : row.jobs
+      result.set(row.id, {
+        id: row.id,
+        jobId: row.job_id,
+        jobTitle: job?.title ?? null,
+        interviewerId: interviewers.get(row.id) ?? null,
+        mode: normalizeInterviewMode(row.interview_mode),
+      })
+    }
+  }
+
+  return result
+}
+
+function matchesFilters(interview: InterviewDetails, filters: UsageFilters): boolean {
+  if (filters.jobId && interview.jobId !== filters.jobId) return false
+  if (filters.interviewerId && interview.interviewerId !== filters.interviewerId) return false
+  if (filters.mode && interview.mode !== filters.mode) return false
+  return true
+}
+
+function addLine(totals: UsageTotals, line: UsageInterviewLine): void {
+  totals.interviews += 1
+  totals.minutes += line.minutes
+  totals.creditsCharged += line.creditsCharged
+  totals.creditsRefunded += line.creditsRefunded
+  totals.netCredits += line.netCredits
+}
+
+/**
+ * Builds the usage report from the credit ledger. Each interview is one line, dated by its first
+ * ledger entry in the range; its minutes are those its minute charges in the range cover.
+ */
+export async function buildCompanyUsageReport(
+  companyId: string,
+  filters: UsageFilters,
+  supabase: SupabaseClient
+): Promise<CompanyUsageReport> {
+  const ledger = await fetchLedger(supabase, companyId, filters.from, filters.to)
+
+  const interviewIds = Array.from(
+    new Set(
+      ledger
+        .filter((row) => row.reference_type === 'interview' && row.reference_id)
+        .map((row) => row.reference_id as string)
+    )
+  )
+  const details = await fetchInterviewDetails(supabase, companyId, interviewIds)
+
+  const lines = new Map<string, UsageInterviewLine>()
+  const balances = new Map<string, number>()
+  const periodOf = (line: UsageInterviewLine) => periodKey(line.date, filters.granularity)
+
+  for (const row of ledger) {
+    if (typeof row.balance_after === 'number') {
+      balances.set(periodKey(row.created_at, filters.granularity), row.balance_after)
+    }
+
+    const isCharge = CHARGE_TYPES.has(row.type)
+    if (!isCharge && row.type !== REFUND_TYPE) continue
+    if (row.reference_type !== 'interview' || !row.reference_id) continue
+
+    const interview = details.get(row.reference_id)
+    if (!interview || !matchesFilters(interview, filters)) continue
+
+    let line = lines.get(interview.id)
+    if (!line) {
+      line = {
+        interviewId: interview.id,
+        date: row.created_at,
+        jobId: interview.jobId,
+        jobTitle: interview.jobTitle,
+        interviewerId: interview.interviewerId,
+        mode: interview.mode,
+        minutes: 0,
+        creditsCharged: 0,
+        creditsRefunded: 0,
+        netCredits: 0,
+      }
+      lines.set(interview.id, line)
+    }
+
+    const amount = Math.abs(row.amount ?? 0)
+    line.minutes += minutesBilledByRow(row)
+    if (isCharge) line.creditsCharged += amount
+    else line.creditsRefunded += amount
+    line.netCredits = line.creditsCharged - line.creditsRefunded
+  }
+
+  const totals = emptyTotals()
+  const byJob = new Map<string, UsageTotals & { jobId: string | null; jobTitle: string | null }>()
+  const byInterviewer = new Map<string, UsageTotals & { interviewerId: string | null }>()
+  const byMode: Record<string, UsageTotals> = {}
+  const timeline = new Map<string, UsageTimelinePoint>()
+
+  for (const period of balances.keys()) {
+    timeline.set(period, { period, ...emptyTotals(), balance: null })
+  }
+
+  for (const line of lines.values()) {
+    addLine(totals, line)
+
+    const jobKey = line.jobId ?? ''
+    if (!byJob.has(jobKey)) byJob.set(jobKey, { jobId: line.jobId, jobTitle: line.jobTitle, ...emptyTotals() })
+    addLine(byJob.get(jobKey)!, line)
+
+    const interviewerKey = line.interviewerId ?? ''
+    if (!byInterviewer.has(interviewerKey)) byInterviewer.set(interviewerKey, { interviewerId: line.interviewerId, ...emptyTotals() })
+    addLine(byInterviewer.get(interviewerKey)!, line)
+
+    byMode[line.mode] ??= emptyTotals()
+    addLine(byMode[line.mode], line)
+
+    const period = periodOf(line)
+    if (!timeline.has(period)) timeline.set(period, { period, ...emptyTotals(), balance: null })
+    addLine(timeline.get(period)!, line)
+  }
+
+  for (const [period, balance] of balances) {
+    timeline.get(period)!.balance = balance
+  }
+
+  return {
+    companyId,
+    from: filters.from.toISOString(),
+    to: filters.to.toISOString(),
+    filters: { jobId: filters.jobId, interviewerId: filters.interviewerId, mode: filters.mode },
+    granularity: filters.granularity,
+    totals,
+    byJob: Array.from(byJob.values()).sort((a, b) => b.netCredits - a.netCredits),
+    byInterviewer: Array.from(byInterviewer.values()).sort((a, b) => b.netCredits - a.netCredits),
+    byMode,
+    timeline: Array.from(timeline.values()).sort((a, b) => a.period.localeCompare(b.period)),
+    interviews: Array.from(lines.values()),
+  }
+}
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return ''
+  // Spreadsheets run text starting with these as a formula (e.g. a job titled "=HYPERLINK(...)").
+  // Numbers are left alone so negative amounts stay numeric.
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** One row per interview, the shape customers reconcile invoices against. */
+export function usageReportToCsv(report: CompanyUsageReport): string {
+  const header = [
+    'interview_id',
+    'date',
+    'job_id',
+    'job_title',
+    'interviewer_id',
+    'mode',
+    'minutes',
+    'credits_charged',
+    'credits_refunded',
+    'net_credits',
+  ]
+
+  const rows = report.interviews.map((line) =>
+    [
+      line.interviewId,
+      line.date,
+      line.jobId,
+      line.jobTitle,
+      line.interviewerId,
+      line.mode,
+      line.minutes,
+      line.creditsCharged,
+      line.creditsRefunded,
+      line.netCredits,
+    ]
+      .map(csvCell)
+      .join(',')
+  )
+
+  return [header.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+export async function handleGetCompanyUsage(
+  companyId: string,
+  searchParams: URLSearchParams
+): Promise<GetCompanyUsageResponse> {
+  if (!companyId) {
+    return { status: 400, body: { error: 'Missing company ID' } }
+  }
+
+  const format = searchParams.get('format') || 'json'
+  if (format !== 'json' && format !== 'csv') {
+    return { status: 400, body: { error: 'format must be json or csv' } }
+  }
+
+  const filters = parseUsageFilters(searchParams)
+  if ('error' in filters) {
+    return { status: 400, body: { error: filters.error } }
+  }
+
+  try {
+    const report = await buildCompanyUsageReport(companyId, filters, createAdminClient())
+
+    if (format === 'csv') {
+      const filename = `usage-${companyId}-${report.from.slice(0, 10)}-${report.to.slice(0, 10)}.csv`
+      return { status: 200, csv: usageReportToCsv(report), filename }
+    }
+
+    return { status: 200, body: { success: true, ...report } }
+  } catch (error) {
+    log.error('Error building company usage report', { err: error })
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return { status: 500, body: { error: message } }
+  }
+}
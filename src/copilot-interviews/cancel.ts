@@ -1,7 +1,8 @@
 import { createAdminClient } from '../supabase/admin'
+import { releaseCreditReservation } from '../credits/manager'
 import { deleteRoomForRegion } from '../livekit/rooms'
 import type { LiveKitRegion } from '../livekit/geo-routing'
-import { getMailerSenderEmail, getTransporter } from '../email/transporter'
+import { getMailerSenderEmail, sendMail } from '../email/transporter'
 import { asRecord, getOptionalString, getBoolean } from '../utils/parse'
 
 function detectLocale(input: string | undefined): 'en' | 'zh' | 'es' | 'fr' {
@@ -110,6 +111,7 @@ export async function handleCancelCopilotInterview(
       .eq('id', copilotInterviewId)
 
     await adminSupabase.from('interviews').update({ status: 'cancelled' }).eq('id', interview.interview_id)
+    await releaseCreditReservation(interview.interview_id, adminSupabase)
 
     await adminSupabase
       .from('candidates')
@@ -260,7 +262,7 @@ export async function handleCancelCopilotInterview(
       `
 
       try {
-        await getTransporter().sendMail({
+        await sendMail('copilot_cancellation', {
           from: `"${companyName}" <${getMailerSenderEmail()}>`,
           to: candidateEmail,
           subject: c.subject,
@@ -268,7 +270,7 @@ export async function handleCancelCopilotInterview(
         })
 
         if (cancelledBy === 'candidate' && interview.interviewer_email) {
-          await getTransporter().sendMail({
+          await sendMail('copilot_cancellation', {
             from: `"${companyName}" <${getMailerSenderEmail()}>`,
             to: interview.interviewer_email,
             subject: c.subject,
@@ -2,7 +2,9 @@ import { createAdminClient } from '../supabase/admin'
 import { toJson } from '../supabase/json'
 import { normalizeInterviewDurationMinutes } from '../interviews/constants'
 import { deleteRoomForRegion } from '../livekit/rooms'
-import { deductCredits } from '../credits/manager'
+import { releaseCreditReservation, settleCreditReservation } from '../credits/manager'
+import { billInterviewMinutes } from '../credits/pricing'
+import { applyAutomaticRefundRules } from '../credits/refunds'
 import { enqueueInterviewAnalyzeTask } from '../workers/interview-analyze'
 import { getEgressClientForRegion, getFallbackRegion, type LiveKitRegion } from '../livekit/geo-routing'
 import type { AIAnalysis } from '../types'
@@ -14,6 +16,7 @@ export type CleanupCopilotResult = {
   reason?: string
   roomDeleted?: boolean
   egressStopped?: boolean
+  refundedCredits?: number
   error?: string
 }
 
@@ -73,13 +76,13 @@ async function stopLiveKitEgressBestEffort(egressId: string, region: LiveKitRegi
         continue
       }
 
-      console.warn(`⚠️ Failed to stop LiveKit egress ${egressId} in region ${candidateRegion}:`, error)
+      console.warn(`Failed to stop LiveKit egress ${egressId} in region ${candidateRegion}:`, error)
       return false
     }
   }
 
   if (lastError) {
-    console.warn(`⚠️ Failed to stop LiveKit egress ${egressId}:`, lastError)
+    console.warn(`Failed to stop LiveKit egress ${egressId}:`, lastError)
   }
 
   return false
@@ -106,7 +109,8 @@ export async function cleanupActiveCopilotInterviews(): Promise<CleanupCopilotRe
         last_active_at,
         credits_deducted,
         company_id,
-        interview_duration
+        interview_duration,
+        transcript
       )
     `
     )
@@ -133,6 +137,7 @@ export async function cleanupActiveCopilotInterviews(): Promise<CleanupCopilotRe
           credits_deducted: number | null
           company_id: string
           interview_duration: unknown
+          transcript: unknown
         }
       | null
   }>
@@ -196,31 +201,40 @@ export async function cleanupActiveCopilotInterviews(): Promise<CleanupCopilotRe
 
       // Final credit deduction (best-effort) for abandoned/cleanup flows.
       try {
-        const alreadyDeducted = interview.credits_deducted || 0
-        const totalMinutes = completedAt > startedAt ? Math.ceil((completedAt.getTime() - startedAt.getTime()) / 1000 / 60) : alreadyDeducted
-        const remainingCredits = Math.max(0, totalMinutes - alreadyDeducted)
-
-        if (remainingCredits > 0) {
-          const deduction = await deductCredits(
-            {
-              companyId: interview.company_id,
-              amount: remainingCredits,
-              type: 'interview_minute',
-              referenceId: copilot.interview_id,
-              referenceType: 'interview',
-              description: `Copilot interview cleanup: final ${remainingCredits} minute(s)`,
-            },
+        if (completedAt > startedAt) {
+          const totalMinutes = Math.ceil((completedAt.getTime() - startedAt.getTime()) / 1000 / 60)
+          const billing = await billInterviewMinutes(
+            { interviewId: copilot.interview_id, throughMinutes: totalMinutes, descriptionPrefix: 'Copilot interview cleanup' },
             adminSupabase
           )
-
-          if (deduction.success) {
-            await adminSupabase.from('interviews').update({ credits_deducted: totalMinutes }).eq('id', copilot.interview_id)
+          if (!billing.success) {
+            console.warn(`Failed to bill final minutes for copilot interview ${copilot.id}:`, billing.error)
           }
         }
       } catch (error) {
         console.warn(`Failed to finalize credits for copilot interview ${copilot.id}:`, error)
       }
 
+      // Settled here for overtime interviews too, so the hold does not depend on the analysis succeeding.
+      try {
+        await settleCreditReservation(copilot.interview_id, adminSupabase)
+      } catch (error) {
+        console.warn(`Failed to settle credit reservation for copilot interview ${copilot.id}:`, error)
+      }
+
+      let refundedCredits = 0
+      if (isAbandoned) {
+        try {
+          const refund = await applyAutomaticRefundRules(
+            { id: copilot.interview_id, transcript: interview.transcript },
+            adminSupabase
+          )
+          refundedCredits = refund?.refundedCredits ?? 0
+        } catch (error) {
+          console.warn(`Failed to apply refund rules for copilot interview ${copilot.id}:`, error)
+        }
+      }
+
       let roomDeleted = false
       if (copilot.livekit_room_name) {
         try {
@@ -230,7 +244,7 @@ export async function cleanupActiveCopilotInterviews(): Promise<CleanupCopilotRe
         }
       }
 
-      if (isOvertime && process.env.RABBITMQ_URL) {
+      if (isOvertime) {
         try {
           await enqueueInterviewAnalyzeTask({ interviewId: copilot.interview_id, locale: 'en', sendEmail: true })
         } catch (error) {
@@ -245,6 +259,7 @@ export async function cleanupActiveCopilotInterviews(): Promise<CleanupCopilotRe
         reason,
         roomDeleted,
         egressStopped,
+        refundedCredits,
       })
     } catch (error) {
       console.error(`Error processing copilot interview ${copilot.id}:`, error)
@@ -327,6 +342,8 @@ export async function cleanupWaitingRoomCopilotInterviews(): Promise<CleanupCopi
         .update({ status: 'cancelled' })
         .eq('id', waiting.interview_id)
 
+      await releaseCreditReservation(waiting.interview_id, adminSupabase)
+
       if (waiting.candidate_id) {
         await adminSupabase
           .from('candidates')
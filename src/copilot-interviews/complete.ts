@@ -1,3 +1,4 @@
+import { settleEndedInterviewCredits } from '../credits/pricing'
 import { createAdminClient } from '../supabase/admin'
 import { enqueueInterviewAnalyzeTask } from '../workers/interview-analyze'
 import { completeCopilotInterview } from './manager'
@@ -29,7 +30,13 @@ export async function handleCompleteCopilotInterview(copilotInterviewId: string)
       }
     }
 
-    if (process.env.RABBITMQ_URL && interviewId) {
+    if (interviewId) {
+      try {
+        await settleEndedInterviewCredits(interviewId, adminSupabase)
+      } catch (error) {
+        console.error('Failed to settle interview credits:', error)
+      }
+
       try {
         await enqueueInterviewAnalyzeTask({ interviewId, locale, sendEmail: true })
       } catch (error) {
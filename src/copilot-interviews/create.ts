@@ -1,4 +1,5 @@
 import { createAdminClient } from '../supabase/admin'
+import { getCreditBalance } from '../credits/manager'
 import { createCopilotInterview } from './manager'
 import { asRecord, getBoolean, getString } from '../utils/parse'
 
@@ -11,13 +12,8 @@ async function checkCredits(
   companyId: string,
   requiredCredits: number
 ): Promise<{ hasCredits: boolean; remaining: number; required: number; message?: string }> {
-  const { data: company, error } = await supabase
-    .from('companies')
-    .select('credits_remaining')
-    .eq('id', companyId)
-    .single()
-
-  if (error || !company) {
+  const balance = await getCreditBalance(companyId, supabase)
+  if (!balance) {
     return {
       hasCredits: false,
       remaining: 0,
@@ -26,7 +22,7 @@ async function checkCredits(
     }
   }
 
-  const remaining = (company as { credits_remaining: number | null }).credits_remaining ?? 0
+  const remaining = balance.available
   return {
     hasCredits: remaining >= requiredCredits,
     remaining,
@@ -1,10 +1,12 @@
 import { createAdminClient } from '../supabase/admin'
+import { getCreditBalance } from '../credits/manager'
 import {
   DEFAULT_INTERVIEW_DURATION_MINUTES,
   EXTEND_INTERVIEW_CONFIG,
   MAX_INTERVIEW_DURATION_MINUTES,
   normalizeInterviewDurationMinutes,
 } from '../interviews/constants'
+import { addLogContext } from '../utils/logger'
 import { asRecord, getString } from '../utils/parse'
 
 export type CopilotExtendResponse =
@@ -26,17 +28,12 @@ async function checkCredits(
   companyId: string,
   requiredCredits: number
 ): Promise<{ hasCredits: boolean; remaining: number; message?: string }> {
-  const { data: company, error } = await supabase
-    .from('companies')
-    .select('credits_remaining')
-    .eq('id', companyId)
-    .single()
-
-  if (error || !company) {
+  const balance = await getCreditBalance(companyId, supabase)
+  if (!balance) {
     return { hasCredits: false, remaining: 0, message: 'Company not found or error fetching credits' }
   }
 
-  const remaining = (company as { credits_remaining: number | null }).credits_remaining ?? 0
+  const remaining = balance.available
   return {
     hasCredits: remaining >= requiredCredits,
     remaining,
@@ -69,6 +66,7 @@ export async function handleExtendCopilotInterview(
     }
 
     const meta = copilotInterview as { interview_id: string; company_id: string; room_status: string }
+    addLogContext({ interviewId: meta.interview_id, companyId: meta.company_id })
 
     const { data: participant } = await adminSupabase
       .from('copilot_interview_participants')
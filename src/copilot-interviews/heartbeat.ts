@@ -106,7 +106,6 @@ export async function handleCopilotInterviewHeartbeat(
       interviewId: copilot.interview_id,
       companyId: copilot.company_id,
       startedAt: effectiveStartedAt,
-      creditsDeducted: interviewRecord.credits_deducted || 0,
       supabase,
       maxDeductPerCall: 5,
       descriptionPrefix: 'Copilot interview',
@@ -123,23 +122,23 @@ export async function handleCopilotInterviewHeartbeat(
       const message =
         billingResult.autoEndReason === 'duration_exceeded'
           ? 'Interview ended automatically due to duration limit exceeded'
-          : 'Interview ended automatically due to insufficient credits'
-
-      if (process.env.RABBITMQ_URL) {
-        try {
-          let locale = 'en'
-
-          const interviewerId = copilot.interviewer_id
-          if (interviewerId) {
-            const { data } = await supabase.auth.admin.getUserById(interviewerId)
-            const interviewer = data?.user
-            locale = (interviewer?.user_metadata?.locale as string | undefined) || 'en'
-          }
-
-          await enqueueInterviewAnalyzeTask({ interviewId: copilot.interview_id, locale, sendEmail: true })
-        } catch (error) {
-          console.warn('[Copilot Heartbeat] Failed to enqueue interview analysis after auto-end:', error)
+          : billingResult.autoEndReason === 'budget_exceeded'
+            ? 'Interview ended automatically because the monthly budget cap was reached'
+            : 'Interview ended automatically due to insufficient credits'
+
+      try {
+        let locale = 'en'
+
+        const interviewerId = copilot.interviewer_id
+        if (interviewerId) {
+          const { data } = await supabase.auth.admin.getUserById(interviewerId)
+          const interviewer = data?.user
+          locale = (interviewer?.user_metadata?.locale as string | undefined) || 'en'
         }
+
+        await enqueueInterviewAnalyzeTask({ interviewId: copilot.interview_id, locale, sendEmail: true })
+      } catch (error) {
+        console.warn('[Copilot Heartbeat] Failed to enqueue interview analysis after auto-end:', error)
       }
 
       return {
@@ -3,6 +3,9 @@ import { INTERVIEW_MODES } from '../interview/modes'
 import type { LiveKitRegion } from '../livekit/geo-routing'
 import { deleteRoomForRegion } from '../livekit/rooms'
 import { createAdminClient } from '../supabase/admin'
+import { reserveCredits } from '../credits/manager'
+import { estimateInterviewHoldCredits } from '../credits/pricing'
+import { normalizeInterviewDurationMinutes } from '../interviews/constants'
 
 export type RoomStatus =
   | 'waiting_both'
@@ -225,6 +228,13 @@ export async function addInterviewer(
   }
 }
 
+// Statuses before the interview starts; only these are driven by participants joining and leaving.
+const WAITING_ROOM_STATUSES: RoomStatus[] = ['waiting_both', 'waiting_candidate', 'waiting_interviewer', 'both_ready']
+
+function isWaitingRoomStatus(status: RoomStatus): boolean {
+  return WAITING_ROOM_STATUSES.includes(status)
+}
+
 function calculateNewRoomStatusMulti(
   currentStatus: RoomStatus,
   candidateJoined: boolean,
@@ -310,6 +320,11 @@ export async function interviewerJoinRoom(
           .eq('id', (participant as { id: string }).id)
       }
 
+      // Reconnects during (or after) the interview must not reset room_status or the first-join time.
+      if (!isWaitingRoomStatus((current as { room_status: RoomStatus }).room_status)) {
+        return { success: true, data: current as CopilotInterviewState, participantIndex }
+      }
+
       const { count: joinedCount } = await supabase
         .from('copilot_interview_participants')
         .select('*', { count: 'exact', head: true })
@@ -340,6 +355,10 @@ export async function interviewerJoinRoom(
       return { success: true, data: data as CopilotInterviewState, participantIndex }
     }
 
+    if (!isWaitingRoomStatus((current as { room_status: RoomStatus }).room_status)) {
+      return { success: true, data: current as CopilotInterviewState, participantIndex: 0 }
+    }
+
     const newStatus = calculateNewRoomStatus(
       (current as { room_status: RoomStatus }).room_status,
       'interviewer',
@@ -384,6 +403,11 @@ export async function candidateJoinRoom(
       return { success: false, error: 'AI interview not found' }
     }
 
+    // A candidate reconnecting mid-interview keeps the original candidate_joined_at and status.
+    if (!isWaitingRoomStatus((current as { room_status: RoomStatus }).room_status)) {
+      return { success: true, data: current as CopilotInterviewState }
+    }
+
     const { count: joinedCount } = await supabase
       .from('copilot_interview_participants')
       .select('*', { count: 'exact', head: true })
@@ -417,6 +441,78 @@ export async function candidateJoinRoom(
   }
 }
 
+export async function participantLeftRoom(
+  copilotInterviewId: string,
+  participant: { role: 'interviewer'; userId: string } | { role: 'candidate' },
+  supabaseClient?: SupabaseClient
+): Promise<{ success: boolean; data?: CopilotInterviewState; error?: string }> {
+  const supabase = supabaseClient || createAdminClient()
+
+  try {
+    const { data: current, error: fetchError } = await supabase
+      .from('copilot_interviews')
+      .select('*')
+      .eq('id', copilotInterviewId)
+      .single()
+
+    if (fetchError || !current) {
+      return { success: false, error: 'AI interview not found' }
+    }
+
+    const currentState = current as CopilotInterviewState
+
+    // Once the interview has started (or ended) leaving the room is handled by heartbeats and cleanup.
+    if (!isWaitingRoomStatus(currentState.room_status)) {
+      return { success: true, data: currentState }
+    }
+
+    const update: Record<string, unknown> = {}
+
+    if (participant.role === 'interviewer') {
+      await supabase
+        .from('copilot_interview_participants')
+        .update({ joined_at: null })
+        .eq('copilot_interview_id', copilotInterviewId)
+        .eq('user_id', participant.userId)
+    } else {
+      update.candidate_joined_at = null
+    }
+
+    const { count: joinedCount } = await supabase
+      .from('copilot_interview_participants')
+      .select('*', { count: 'exact', head: true })
+      .eq('copilot_interview_id', copilotInterviewId)
+      .not('joined_at', 'is', null)
+
+    if (participant.role === 'interviewer' && !joinedCount) {
+      update.interviewer_joined_at = null
+    }
+
+    const candidateJoined = participant.role === 'candidate' ? false : Boolean(currentState.candidate_joined_at)
+    update.room_status = calculateNewRoomStatusMulti(
+      currentState.room_status,
+      candidateJoined,
+      joinedCount || 0,
+      currentState.min_interviewers_required || 1
+    )
+
+    const { data, error } = await supabase
+      .from('copilot_interviews')
+      .update(update)
+      .eq('id', copilotInterviewId)
+      .select()
+      .single()
+
+    if (error) {
+      return { success: false, error: error.message }
+    }
+
+    return { success: true, data: data as CopilotInterviewState }
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
+  }
+}
+
 export async function updateParticipantHeartbeat(
   copilotInterviewId: string,
   userId: string,
@@ -466,7 +562,7 @@ export async function startCopilotInterview(
 
     const { data: currentInterview } = await supabase
       .from('interviews')
-      .select('started_at, candidate_id')
+      .select('started_at, candidate_id, interview_duration')
       .eq('id', (data as { interview_id: string }).interview_id)
       .single()
 
@@ -521,6 +617,22 @@ export async function startCopilotInterview(
         .eq('id', candidateId)
     }
 
+    // Hold the scheduled minutes' credits; heartbeats still bill actual usage if the hold cannot be made.
+    const holdCredits = await estimateInterviewHoldCredits(
+      interviewId,
+      normalizeInterviewDurationMinutes((currentInterview as { interview_duration?: unknown } | null)?.interview_duration),
+      supabase
+    )
+    if (holdCredits > 0) {
+      const reservation = await reserveCredits(
+        { companyId: (data as CopilotInterviewState).company_id, interviewId, amount: holdCredits },
+        supabase
+      )
+      if (!reservation.success) {
+        console.warn(`[Copilot] Could not reserve credits for interview ${interviewId}: ${reservation.error}`)
+      }
+    }
+
     return { success: true, data: data as CopilotInterviewState, startedAt: finalStartedAt }
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : 'Unknown error' }
@@ -1,6 +1,8 @@
 import { createAdminClient } from '../supabase/admin'
 import { getAppPublicUrl } from '../config'
-import { getMailerSenderEmail, getTransporter } from '../email/transporter'
+import { getMailerSenderEmail } from '../email/transporter'
+import { queueMail } from '../workers/email'
+import { withLogContext } from '../utils/logger'
 
 type Locale = 'en' | 'zh' | 'es' | 'fr'
 type ReminderType = '24h' | '1h'
@@ -331,19 +333,26 @@ async function sendReminderEmail(
     joinLink,
   })
 
+  // Once queued the reminder counts as sent: the email_send worker retries delivery, and marking
+  // it now keeps the next scheduler tick from queueing it again.
   try {
-    await getTransporter().sendMail({
-      from: `"${company.name} via Foundire" <${getMailerSenderEmail()}>`,
-      to: recipientEmail,
-      subject,
-      html,
-      text,
+    await queueMail({
+      kind: 'copilot_reminder',
+      mail: {
+        from: `"${company.name} via Foundire" <${getMailerSenderEmail()}>`,
+        to: recipientEmail,
+        subject,
+        html,
+        text,
+      },
+      copilotInterviewId: interview.id,
+      reminderType,
     })
 
-    console.log(`[Reminder] Sent ${reminderType} reminder to ${recipientEmail} for interview ${interview.id}`)
+    console.log(`[Reminder] Queued ${reminderType} reminder for interview ${interview.id}`)
     return true
   } catch (error) {
-    console.error(`[Reminder] Failed to send ${reminderType} reminder for interview ${interview.id}:`, error)
+    console.error(`[Reminder] Failed to queue ${reminderType} reminder for interview ${interview.id}:`, error)
     return false
   }
 }
@@ -441,7 +450,9 @@ export async function handleSendInterviewReminders(): Promise<SendRemindersRespo
           }
 
           const locale = detectLocale(interviewData.candidate_timezone)
-          const emailSent = await sendReminderEmail(interviewData, '24h', locale)
+          const emailSent = await withLogContext({ copilotInterviewId: interview.id }, () =>
+            sendReminderEmail(interviewData, '24h', locale)
+          )
 
           if (emailSent) {
             await adminSupabase
@@ -473,7 +484,9 @@ export async function handleSendInterviewReminders(): Promise<SendRemindersRespo
           }
 
           const locale = detectLocale(interviewData.candidate_timezone)
-          const emailSent = await sendReminderEmail(interviewData, '1h', locale)
+          const emailSent = await withLogContext({ copilotInterviewId: interview.id }, () =>
+            sendReminderEmail(interviewData, '1h', locale)
+          )
 
           if (emailSent) {
             await adminSupabase
@@ -8,6 +8,8 @@ import {
   normalizeInterviewDurationMinutes,
 } from '../interviews/constants'
 import { createAdminClient } from '../supabase/admin'
+import { enforceBudgetCaps } from '../credits/budgets'
+import { addLogContext } from '../utils/logger'
 import { asRecord, getBoolean, getString } from '../utils/parse'
 
 function isUuid(value: string): boolean {
@@ -90,7 +92,7 @@ type CopilotInterviewWithParticipants = CopilotInterviewBase & {
 
 export type CopilotScheduleResponse =
   | { status: 200; body: Record<string, unknown> }
-  | { status: 400 | 401 | 403 | 404 | 409 | 500; body: Record<string, unknown> }
+  | { status: 400 | 401 | 402 | 403 | 404 | 409 | 500; body: Record<string, unknown> }
 
 export async function handleScheduleCopilotInterview(body: unknown): Promise<CopilotScheduleResponse> {
   try {
@@ -218,6 +220,7 @@ export async function handleScheduleCopilotInterview(body: unknown): Promise<Cop
     }
 
     const companyId = (job as { company_id: string }).company_id
+    addLogContext({ companyId })
 
     const { data: isMember } = await adminSupabase
       .from('company_members')
@@ -246,6 +249,22 @@ export async function handleScheduleCopilotInterview(body: unknown): Promise<Cop
       }
     }
 
+    const budgetError = await enforceBudgetCaps(
+      {
+        companyId,
+        jobId,
+        interviewerId: userId,
+        interviewMode: INTERVIEW_MODES.ASSISTED_VIDEO,
+        durationMinutes: finalInterviewDuration,
+        recordingEnabled,
+        candidateId,
+      },
+      adminSupabase
+    )
+    if (budgetError) {
+      return { status: 402, body: budgetError }
+    }
+
     const { data: interview, error: interviewError } = await adminSupabase
       .from('interviews')
       .insert({
@@ -266,6 +285,7 @@ export async function handleScheduleCopilotInterview(body: unknown): Promise<Cop
     }
 
     const interviewId = (interview as { id: string }).id
+    addLogContext({ interviewId })
     let confirmationToken = generateConfirmationToken()
 
     let expiresAt = new Date(now.getTime())
@@ -1,6 +1,8 @@
 import { getAppPublicUrl } from '../config'
 import { createAdminClient } from '../supabase/admin'
-import { getMailerSenderEmail, getTransporter } from '../email/transporter'
+import { getMailerSenderEmail } from '../email/transporter'
+import { queueMail } from '../workers/email'
+import { addLogContext } from '../utils/logger'
 import { asRecord, getOptionalString } from '../utils/parse'
 
 function detectLocale(input: string | undefined): 'en' | 'zh' | 'es' | 'fr' {
@@ -93,7 +95,8 @@ export async function handleSendCopilotInvitationEmail(
       | null
     const interviewCandidateEmail = (copilotInterview as { candidate_email?: string | null }).candidate_email
     const job = (copilotInterview as { jobs?: unknown }).jobs as { title?: string | null } | null
-    const company = (copilotInterview as { companies?: unknown }).companies as { name?: string | null } | null
+    const company = (copilotInterview as { companies?: unknown }).companies as { id?: string; name?: string | null } | null
+    addLogContext({ companyId: company?.id })
     const invitationExpiresAt = (copilotInterview as { invitation_expires_at?: string | null }).invitation_expires_at
     const schedulingMode = (copilotInterview as { scheduling_mode?: SchedulingMode | null }).scheduling_mode || 'instant'
     const scheduledAt = (copilotInterview as { scheduled_at?: string | null }).scheduled_at
@@ -484,13 +487,18 @@ Contact: ${contactEmail}
       return { status: 500, body: { success: false, error: 'SMTP not configured' } }
     }
 
+    // Sent by the email_send worker, which also records invitation_sent_at once SMTP accepts it.
     try {
-      await getTransporter().sendMail({
-        from: `"${company.name}" <${getMailerSenderEmail()}>`,
-        to: recipientEmail,
-        subject,
-        html,
-        text,
+      await queueMail({
+        kind: 'copilot_invitation',
+        mail: {
+          from: `"${company.name}" <${getMailerSenderEmail()}>`,
+          to: recipientEmail,
+          subject,
+          html,
+          text,
+        },
+        copilotInterviewId,
       })
     } catch (emailError) {
       console.error('Send invitation email error:', emailError)
@@ -503,12 +511,7 @@ Contact: ${contactEmail}
       }
     }
 
-    await adminSupabase
-      .from('copilot_interviews')
-      .update({ invitation_sent_at: new Date().toISOString() })
-      .eq('id', copilotInterviewId)
-
-    return { status: 200, body: { success: true, message: 'Invitation email sent successfully' } }
+    return { status: 200, body: { success: true, message: 'Invitation email queued' } }
   } catch (error) {
     console.error('Send invitation API error:', error)
     return { status: 500, body: { success: false, error: 'Failed to send invitation' } }
@@ -273,6 +273,7 @@ export async function handleGenerateCopilotSuggestions(
       language: locale,
       candidateName,
       candidateResumeText,
+      usageContext: { interviewId: copilot.interview.id },
     })
 
     const priorityMap: Record<string, number> = { high: 1, medium: 2, low: 3 }
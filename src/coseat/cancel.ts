@@ -1,4 +1,5 @@
 import { createAdminClient } from '../supabase/admin'
+import { releaseCreditReservation } from '../credits/manager'
 import { asRecord, getOptionalString, getString } from '../utils/parse'
 
 export type CoseatCancelResponse =
@@ -76,6 +77,8 @@ export async function handleCancelCoseatInterview(
       .update({ status: 'cancelled' })
       .eq('id', meta.interview_id)
 
+    await releaseCreditReservation(meta.interview_id, adminSupabase)
+
     await adminSupabase
       .from('candidates')
       .update({ status: 'pending', interview_mode: null })
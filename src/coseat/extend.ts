@@ -1,4 +1,5 @@
 import { createAdminClient } from '../supabase/admin'
+import { getCreditBalance } from '../credits/manager'
 import {
   DEFAULT_INTERVIEW_DURATION_MINUTES,
   EXTEND_INTERVIEW_CONFIG,
@@ -26,17 +27,12 @@ async function checkCredits(
   companyId: string,
   requiredCredits: number
 ): Promise<{ hasCredits: boolean; remaining: number; message?: string }> {
-  const { data: company, error } = await supabase
-    .from('companies')
-    .select('credits_remaining')
-    .eq('id', companyId)
-    .single()
-
-  if (error || !company) {
+  const balance = await getCreditBalance(companyId, supabase)
+  if (!balance) {
     return { hasCredits: false, remaining: 0, message: 'Company not found or error fetching credits' }
   }
 
-  const remaining = (company as { credits_remaining: number | null }).credits_remaining ?? 0
+  const remaining = balance.available
   return {
     hasCredits: remaining >= requiredCredits,
     remaining,
@@ -32,7 +32,7 @@ export async function handleCoseatHeartbeat(coseatInterviewId: string): Promise<
       .single()
 
     if (fetchError || !coseatInterview) {
-      console.error('❌ CoSeat heartbeat - interview not found:', {
+      console.error('CoSeat heartbeat - interview not found:', {
         coseatInterviewId,
         fetchError: fetchError?.message,
         fetchErrorCode: fetchError?.code,
@@ -78,7 +78,6 @@ export async function handleCoseatHeartbeat(coseatInterviewId: string): Promise<
       interviewId: record.interview_id,
       companyId: record.company_id,
       startedAt,
-      creditsDeducted: record.interview.credits_deducted || 0,
       supabase: adminSupabase,
       maxDeductPerCall: 5,
       descriptionPrefix: 'CoSeat interview',
@@ -1,7 +1,11 @@
 import { enqueueInterviewAnalyzeTask } from '../workers/interview-analyze'
 import { createAdminClient } from '../supabase/admin'
+import { reserveCredits } from '../credits/manager'
+import { estimateInterviewHoldCredits, settleEndedInterviewCredits } from '../credits/pricing'
+import { enforceBudgetCaps } from '../credits/budgets'
 import { INTERVIEW_MODES } from '../interview/modes'
 import { toJson } from '../supabase/json'
+import { addLogContext } from '../utils/logger'
 import { asRecord, getOptionalString, getString } from '../utils/parse'
 import { uploadToR2 } from '../cloudflare/r2'
 import {
@@ -18,7 +22,7 @@ function isCoSeatSessionStatus(value: string | null): value is CoSeatSessionStat
 
 export type CoseatSessionStartResponse =
   | { status: 200; body: Record<string, unknown> }
-  | { status: 400 | 401 | 404 | 500; body: Record<string, unknown> }
+  | { status: 400 | 401 | 402 | 404 | 500; body: Record<string, unknown> }
 
 export async function handleStartCoseatSession(body: unknown): Promise<CoseatSessionStartResponse> {
   try {
@@ -65,6 +69,7 @@ export async function handleStartCoseatSession(body: unknown): Promise<CoseatSes
     if (!companyId) {
       return { status: 404, body: { success: false, error: 'Candidate not found or access denied' } }
     }
+    addLogContext({ companyId })
 
     const { data: membership } = await adminSupabase
       .from('company_members')
@@ -93,7 +98,7 @@ export async function handleStartCoseatSession(body: unknown): Promise<CoseatSes
     // 查找已有的预约面试（通过 schedule 创建的，状态为 pending/scheduled）
     const { data: existingInterview } = await adminSupabase
       .from('interviews')
-      .select('id, interview_duration')
+      .select('id, interview_duration, recording_enabled')
       .eq('candidate_id', candidateId)
       .eq('job_id', jobId)
       .eq('interview_mode', INTERVIEW_MODES.ASSISTED_VOICE)
@@ -102,6 +107,24 @@ export async function handleStartCoseatSession(body: unknown): Promise<CoseatSes
       .limit(1)
       .single()
 
+    const scheduled = existingInterview as { interview_duration?: number | null; recording_enabled?: boolean | null } | null
+    const budgetError = await enforceBudgetCaps(
+      {
+        companyId,
+        jobId,
+        interviewerId: userId,
+        interviewMode: INTERVIEW_MODES.ASSISTED_VOICE,
+        durationMinutes: scheduled?.interview_duration ?? finalInterviewDuration,
+        // Billing treats an unset flag as recorded, so the estimate does too.
+        recordingEnabled: scheduled?.recording_enabled ?? true,
+        candidateId,
+      },
+      adminSupabase
+    )
+    if (budgetError) {
+      return { status: 402, body: budgetError }
+    }
+
     let interview: { id: string; interview_duration?: number } | null = null
 
     if (existingInterview) {
@@ -148,6 +171,7 @@ export async function handleStartCoseatSession(body: unknown): Promise<CoseatSes
     if (!interview) {
       return { status: 500, body: { success: false, error: 'Failed to get interview' } }
     }
+    addLogContext({ interviewId: interview.id })
 
     // 查找已有的 coseat_interviews 记录（schedule 创建的）
     const { data: existingCoseat } = await adminSupabase
@@ -211,6 +235,18 @@ export async function handleStartCoseatSession(body: unknown): Promise<CoseatSes
 
     await adminSupabase.from('candidates').update({ status: 'interviewing' }).eq('id', candidateId)
 
+    const holdCredits = await estimateInterviewHoldCredits(
+      interview.id,
+      normalizeInterviewDurationMinutes(interview.interview_duration ?? finalInterviewDuration),
+      adminSupabase
+    )
+    if (holdCredits > 0) {
+      const reservation = await reserveCredits({ companyId, interviewId: interview.id, amount: holdCredits }, adminSupabase)
+      if (!reservation.success) {
+        console.warn(`[CoSeat] Could not reserve credits for interview ${interview.id}: ${reservation.error}`)
+      }
+    }
+
     const fallbackTimestamp = new Date().toISOString()
     const rawStatus = (coseatInterview as { session_status: string | null }).session_status
     const sessionStatus: CoSeatSessionStatus = isCoSeatSessionStatus(rawStatus) ? rawStatus : 'active'
@@ -308,20 +344,24 @@ export async function handleEndCoseatSession(body: unknown): Promise<CoseatSessi
         .eq('id', meta.candidate_id)
     }
 
-    if (process.env.RABBITMQ_URL) {
-      let locale = 'en'
-      try {
-        const { data } = await adminSupabase.auth.admin.getUserById(userId)
-        locale = (data?.user?.user_metadata?.locale as string | undefined) || 'en'
-      } catch (error) {
-        console.warn('Failed to get interviewer locale:', error)
-      }
+    try {
+      await settleEndedInterviewCredits(meta.interview_id, adminSupabase)
+    } catch (error) {
+      console.error('Failed to settle interview credits:', error)
+    }
 
-      try {
-        await enqueueInterviewAnalyzeTask({ interviewId: meta.interview_id, locale, sendEmail: true })
-      } catch (error) {
-        console.error('Failed to enqueue interview analysis:', error)
-      }
+    let locale = 'en'
+    try {
+      const { data } = await adminSupabase.auth.admin.getUserById(userId)
+      locale = (data?.user?.user_metadata?.locale as string | undefined) || 'en'
+    } catch (error) {
+      console.warn('Failed to get interviewer locale:', error)
+    }
+
+    try {
+      await enqueueInterviewAnalyzeTask({ interviewId: meta.interview_id, locale, sendEmail: true })
+    } catch (error) {
+      console.error('Failed to enqueue interview analysis:', error)
     }
 
     return { status: 200, body: { success: true, data: { ended: true } } }
@@ -247,6 +247,7 @@ export async function handleGenerateCoseatSuggestions(
       requirements: coseat.job.requirements ?? undefined,
       requiredSkills: [],
       language: normalizedLocale,
+      usageContext: { interviewId: coseat.interview_id },
     })
 
     const suggestionsToSave = suggestions.map((s) => ({
@@ -0,0 +1,294 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { fetchLedger, netCreditsByInterview } from './ledger'
+import { creditsForMinutes, resolveInterviewPricing } from './pricing'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Credits' })
+
+const CREDIT_BUDGETS_TABLE = 'credit_budgets'
+const BUDGET_CACHE_TTL_MS = 60_000
+const SPEND_CACHE_TTL_MS = 60_000
+const INTERVIEW_LOOKUP_CHUNK = 200
+
+export type BudgetScope = 'job' | 'interviewer'
+
+export interface CreditBudget {
+  scope: BudgetScope
+  scopeId: string
+  monthlyCreditLimit: number
+}
+
+export type BudgetCheckResult =
+  | { allowed: true }
+  | {
+      allowed: false
+      scope: BudgetScope
+      scopeId: string
+      limit: number
+      spent: number
+      required: number
+    }
+
+type BudgetRow = { scope: string; scope_id: string; monthly_credit_limit: number | null }
+
+const budgetCache = new Map<string, { loadedAt: number; budgets: CreditBudget[] }>()
+// Month-to-date spend per company and scope, so heartbeats do not re-read the month's ledger.
+const spendCache = new Map<string, { monthStart: number; loadedAt: number; spent: number }>()
+
+function spendCacheKey(companyId: string, scope: BudgetScope, scopeId: string): string {
+  return `${companyId}:${scope}:${scopeId}`
+}
+
+async function loadCompanyBudgets(companyId: string, supabase: SupabaseClient): Promise<CreditBudget[]> {
+  const cached = budgetCache.get(companyId)
+  if (cached && Date.now() - cached.loadedAt < BUDGET_CACHE_TTL_MS) return cached.budgets
+
+  const { data, error } = await supabase
+    .from(CREDIT_BUDGETS_TABLE)
+    .select('scope, scope_id, monthly_credit_limit')
+    .eq('company_id', companyId)
+
+  if (error) {
+    // Budgets are optional; without the table no interview is capped.
+    if (error.code !== '42P01') log.error('Failed to load credit budgets', { companyId, err: error })
+    return cached?.budgets ?? []
+  }
+
+  const budgets = ((data || []) as BudgetRow[])
+    .filter(
+      (row) =>
+        (row.scope === 'job' || row.scope === 'interviewer') &&
+        typeof row.monthly_credit_limit === 'number' &&
+        row.monthly_credit_limit >= 0
+    )
+    .map((row) => ({
+      scope: row.scope as BudgetScope,
+      scopeId: row.scope_id,
+      monthlyCreditLimit: row.monthly_credit_limit as number,
+    }))
+
+  budgetCache.set(companyId, { loadedAt: Date.now(), budgets })
+  return budgets
+}
+
+/** The current calendar month (UTC) as `[start, end)`. */
+function currentMonth(now = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  }
+}
+
+/** The subset of `interviewIds` that belongs to the job or interviewer. */
+async function filterInterviewsInScope(
+  supabase: SupabaseClient,
+  companyId: string,
+  scope: BudgetScope,
+  scopeId: string,
+  interviewIds: string[]
+): Promise<Set<string>> {
+  const inScope = new Set<string>()
+
+  for (let i = 0; i < interviewIds.length; i += INTERVIEW_LOOKUP_CHUNK) {
+    const chunk = interviewIds.slice(i, i + INTERVIEW_LOOKUP_CHUNK)
+
+    if (scope === 'job') {
+      const { data, error } = await supabase
+        .from('interviews')
+        .select('id')
+        .eq('company_id', companyId)
+        .eq('job_id', scopeId)
+        .in('id', chunk)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      for (const row of (data || []) as Array<{ id: string }>) inScope.add(row.id)
+      continue
+    }
+
+    for (const table of ['copilot_interviews', 'coseat_interviews']) {
+      const { data, error } = await supabase
+        .from(table)
+        .select('interview_id')
+        .eq('interviewer_id', scopeId)
+        .in('interview_id', chunk)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      for (const row of (data || []) as Array<{ interview_id: string | null }>) {
+        if (row.interview_id) inScope.add(row.interview_id)
+      }
+    }
+  }
+
+  return inScope
+}
+
+/**
+ * Net credits the ledger recorded this calendar month (UTC) for the job's or interviewer's
+ * interviews, counted by when each credit moved, like the usage report. The total is cached for
+ * a minute; charges made elsewhere in that window show up once it expires.
+ */
+export async function getBudgetSpend(
+  companyId: string,
+  scope: BudgetScope,
+  scopeId: string,
+  supabase: SupabaseClient
+): Promise<number> {
+  const month = currentMonth()
+  const key = spendCacheKey(companyId, scope, scopeId)
+  const cached = spendCache.get(key)
+  if (cached && cached.monthStart === month.start.getTime() && Date.now() - cached.loadedAt < SPEND_CACHE_TTL_MS) {
+    return cached.spent
+  }
+
+  const netByInterview = netCreditsByInterview(await fetchLedger(supabase, companyId, month.start, month.end))
+  let spent = 0
+  if (netByInterview.size > 0) {
+    const inScope = await filterInterviewsInScope(supabase, companyId, scope, scopeId, Array.from(netByInterview.keys()))
+    for (const interviewId of inScope) {
+      spent += Math.max(0, netByInterview.get(interviewId) ?? 0)
+    }
+  }
+
+  spendCache.set(key, { monthStart: month.start.getTime(), loadedAt: Date.now(), spent })
+  return spent
+}
+
+/** Adds credits this process just charged to a cached spend total, if there is one. */
+function addCachedSpend(companyId: string, scope: BudgetScope, scopeId: string, credits: number): void {
+  const cached = spendCache.get(spendCacheKey(companyId, scope, scopeId))
+  if (cached && cached.monthStart === currentMonth().start.getTime()) cached.spent += credits
+}
+
+/**
+ * Checks the job and interviewer caps that apply to an interview. `additionalCredits` is the
+ * expected cost of the work about to start; pass 0 to ask whether a cap is already used up.
+ */
+export async function checkBudgetCaps(
+  params: { companyId: string; jobId?: string | null; interviewerId?: string | null; additionalCredits: number },
+  supabase: SupabaseClient
+): Promise<BudgetCheckResult> {
+  const budgets = await loadCompanyBudgets(params.companyId, supabase)
+  if (budgets.length === 0) return { allowed: true }
+
+  const applicable = budgets.filter(
+    (budget) =>
+      (budget.scope === 'job' && params.jobId && budget.scopeId === params.jobId) ||
+      (budget.scope === 'interviewer' && params.interviewerId && budget.scopeId === params.interviewerId)
+  )
+
+  for (const budget of applicable) {
+    const spent = await getBudgetSpend(params.companyId, budget.scope, budget.scopeId, supabase)
+    const exceeded =
+      params.additionalCredits > 0
+        ? spent + params.additionalCredits > budget.monthlyCreditLimit
+        : spent >= budget.monthlyCreditLimit
+
+    if (exceeded) {
+      return {
+        allowed: false,
+        scope: budget.scope,
+        scopeId: budget.scopeId,
+        limit: budget.monthlyCreditLimit,
+        spent,
+        required: params.additionalCredits,
+      }
+    }
+  }
+
+  return { allowed: true }
+}
+
+/** Expected cost of a new interview at its resolved price, used to check caps before it is created. */
+export async function estimateInterviewCredits(
+  params: {
+    companyId: string
+    interviewMode: string
+    durationMinutes: number
+    recordingEnabled: boolean
+    candidateId?: string | null
+  },
+  supabase: SupabaseClient
+): Promise<number> {
+  const pricing = await resolveInterviewPricing(
+    { companyId: params.companyId, interviewMode: params.interviewMode, candidateId: params.candidateId },
+    supabase
+  )
+  if (pricing.free) return 0
+  return creditsForMinutes(pricing, params.durationMinutes, params.recordingEnabled) + Math.ceil(pricing.analysisCredits)
+}
+
+/**
+ * Rejects a new interview that would push its job or interviewer past the monthly cap. Returns
+ * the 402 body to send, or null when the interview may go ahead.
+ */
+export async function enforceBudgetCaps(
+  params: {
+    companyId: string
+    jobId: string
+    interviewerId?: string | null
+    interviewMode: string
+    durationMinutes: number
+    recordingEnabled: boolean
+    candidateId?: string | null
+  },
+  supabase: SupabaseClient
+): Promise<{ success: false; error: string; [key: string]: unknown } | null> {
+  const required = await estimateInterviewCredits(params, supabase)
+  if (required === 0) return null
+
+  const check = await checkBudgetCaps(
+    { companyId: params.companyId, jobId: params.jobId, interviewerId: params.interviewerId, additionalCredits: required },
+    supabase
+  )
+  if (check.allowed) return null
+
+  const remaining = Math.max(0, check.limit - check.spent)
+  return {
+    success: false,
+    error: 'Budget cap exceeded',
+    message: `This interview needs about ${check.required} credits but the ${check.scope} budget has ${remaining} of ${check.limit} credits left this month.`,
+    budget: { scope: check.scope, scopeId: check.scopeId, limit: check.limit, spent: check.spent, required: check.required },
+  }
+}
+
+/**
+ * Whether a running interview has used up a job or interviewer cap and must stop.
+ * `chargedCredits` is what the caller just charged the interview, added to the cached spend.
+ */
+export async function isInterviewOverBudget(
+  interviewId: string,
+  supabase: SupabaseClient,
+  chargedCredits = 0
+): Promise<BudgetCheckResult> {
+  const { data, error } = await supabase.from('interviews').select('company_id, job_id').eq('id', interviewId).single()
+  if (error || !data) return { allowed: true }
+
+  const interview = data as { company_id: string; job_id: string | null }
+  const budgets = await loadCompanyBudgets(interview.company_id, supabase)
+  if (budgets.length === 0) return { allowed: true }
+
+  let interviewerId: string | null = null
+  if (budgets.some((budget) => budget.scope === 'interviewer')) {
+    for (const table of ['copilot_interviews', 'coseat_interviews']) {
+      const { data: row } = await supabase.from(table).select('interviewer_id').eq('interview_id', interviewId).maybeSingle()
+      interviewerId = (row as { interviewer_id: string | null } | null)?.interviewer_id ?? null
+      if (interviewerId) break
+    }
+  }
+
+  if (chargedCredits > 0) {
+    if (interview.job_id) addCachedSpend(interview.company_id, 'job', interview.job_id, chargedCredits)
+    if (interviewerId) addCachedSpend(interview.company_id, 'interviewer', interviewerId, chargedCredits)
+  }
+
+  return checkBudgetCaps(
+    { companyId: interview.company_id, jobId: interview.job_id, interviewerId, additionalCredits: 0 },
+    supabase
+  )
+}
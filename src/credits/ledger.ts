@@ -0,0 +1,69 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+const PAGE_SIZE = 1000
+
+export const CHARGE_TYPES = new Set(['interview_minute', 'interview_analysis'])
+export const REFUND_TYPE = 'interview_refund'
+
+export type LedgerRow = {
+  amount: number
+  type: string
+  reference_id: string | null
+  reference_type: string | null
+  balance_after: number | null
+  description: string | null
+  created_at: string
+}
+
+/** The company's `credit_transactions` in `[from, to)`, oldest first. */
+export async function fetchLedger(supabase: SupabaseClient, companyId: string, from: Date, to: Date): Promise<LedgerRow[]> {
+  const rows: LedgerRow[] = []
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('credit_transactions')
+      .select('amount, type, reference_id, reference_type, balance_after, description, created_at')
+      .eq('company_id', companyId)
+      .gte('created_at', from.toISOString())
+      .lt('created_at', to.toISOString())
+      .order('created_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(error.message)
+    }
+
+    const page = (data || []) as LedgerRow[]
+    rows.push(...page)
+    if (page.length < PAGE_SIZE) return rows
+  }
+}
+
+/** Credits charged minus credits refunded per interview, for the interview entries in `rows`. */
+export function netCreditsByInterview(rows: LedgerRow[]): Map<string, number> {
+  const totals = new Map<string, number>()
+  for (const row of rows) {
+    if (row.reference_type !== 'interview' || !row.reference_id) continue
+    const sign = CHARGE_TYPES.has(row.type) ? 1 : row.type === REFUND_TYPE ? -1 : 0
+    if (sign === 0) continue
+    totals.set(row.reference_id, (totals.get(row.reference_id) ?? 0) + sign * row.amount)
+  }
+  return totals
+}
+
+/**
+ * Minutes an `interview_minute` entry paid for, read from its description (`…: minutes 3-5` or the
+ * older `…: final 4 minute(s)`). Entries without either predate per-mode pricing, when one credit
+ * bought one minute.
+ */
+export function minutesBilledByRow(row: LedgerRow): number {
+  if (row.type !== 'interview_minute') return 0
+
+  const range = row.description?.match(/minutes (\d+)-(\d+)/)
+  if (range) return Math.max(0, Number(range[2]) - Number(range[1]) + 1)
+
+  const final = row.description?.match(/final (\d+) minute/)
+  if (final) return Number(final[1])
+
+  return Math.abs(row.amount ?? 0)
+}
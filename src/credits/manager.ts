@@ -1,6 +1,9 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
+import { createLogger } from '../utils/logger'
 
-export type CreditType = 'interview_minute'
+const log = createLogger({ component: 'Credits' })
+
+export type CreditType = 'interview_minute' | 'interview_analysis' | 'interview_refund'
 
 export interface CreditUsage {
   companyId: string
@@ -12,57 +15,473 @@ export interface CreditUsage {
   userId?: string
 }
 
-export async function deductCredits(
-  usage: CreditUsage,
+export interface CreditBalance {
+  remaining: number
+  /** Credits held for interviews in progress; not spendable by new interviews. */
+  reserved: number
+  available: number
+}
+
+export type CreditReservationStatus = 'held' | 'settled' | 'released'
+
+export interface CreditReservation {
+  id: string
+  company_id: string
+  interview_id: string
+  amount: number
+  consumed: number
+  status: CreditReservationStatus
+}
+
+const CREDIT_RESERVATIONS_TABLE = 'credit_reservations'
+
+// Concurrent heartbeats for one company rarely collide more than once or twice.
+const MAX_BALANCE_UPDATE_ATTEMPTS = 8
+
+/**
+ * Why a balance change did not go through. Only `insufficient_credits` means the company is out of
+ * credits; `contention` and `db_error` are transient and the same change can be retried later.
+ */
+export type CreditFailureReason = 'insufficient_credits' | 'contention' | 'db_error'
+
+export interface DeductCreditsResult {
+  success: boolean
+  newBalance: number
+  error?: string
+  reason?: CreditFailureReason
+}
+
+type CompanyCredits = { remaining: number; reserved: number; hasReservedColumn: boolean }
+
+type BalanceChange =
+  | { ok: true; remaining: number; reserved: number }
+  | { ok: false; error: string; reason: CreditFailureReason }
+
+async function readCompanyCredits(
+  companyId: string,
   supabase: SupabaseClient
-): Promise<{ success: boolean; newBalance: number; error?: string }> {
-  const { data: company, error: fetchError } = await supabase
+): Promise<CompanyCredits | null> {
+  let { data, error } = await supabase
     .from('companies')
-    .select('credits_remaining')
-    .eq('id', usage.companyId)
+    .select('credits_remaining, credits_reserved')
+    .eq('id', companyId)
     .single()
 
-  if (fetchError || !company) {
-    console.error('Error fetching company for credit deduction:', fetchError)
-    return { success: false, newBalance: 0, error: 'Company not found or error fetching credits' }
+  // Deployments without the reservation column keep working without holds.
+  if (error?.code === '42703') {
+    ;({ data, error } = await supabase.from('companies').select('credits_remaining').eq('id', companyId).single())
+    if (error || !data) return null
+    const legacy = data as { credits_remaining: number | null }
+    return { remaining: legacy.credits_remaining ?? 0, reserved: 0, hasReservedColumn: false }
   }
 
-  const currentBalance = (company as { credits_remaining: number | null }).credits_remaining ?? 0
-  if (currentBalance < usage.amount) {
+  if (error || !data) return null
+  const company = data as { credits_remaining: number | null; credits_reserved: number | null }
+  return { remaining: company.credits_remaining ?? 0, reserved: company.credits_reserved ?? 0, hasReservedColumn: true }
+}
+
+/**
+ * Applies a balance change with an optimistic check: the update only matches while the row still
+ * holds the values `change` was computed from, so concurrent writers retry instead of
+ * overwriting each other.
+ */
+async function updateCompanyCredits(
+  companyId: string,
+  supabase: SupabaseClient,
+  change: (current: CompanyCredits) => BalanceChange
+): Promise<
+  | { success: true; before: CompanyCredits; after: CompanyCredits }
+  | { success: false; error: string; reason: CreditFailureReason; current: CompanyCredits | null }
+> {
+  let current: CompanyCredits | null = null
+
+  for (let attempt = 1; attempt <= MAX_BALANCE_UPDATE_ATTEMPTS; attempt++) {
+    current = await readCompanyCredits(companyId, supabase)
+    if (!current) {
+      return { success: false, error: 'Company not found or error fetching credits', reason: 'db_error', current: null }
+    }
+
+    const next = change(current)
+    if (!next.ok) {
+      return { success: false, error: next.error, reason: next.reason, current }
+    }
+
+    let query = supabase
+      .from('companies')
+      .update(
+        current.hasReservedColumn
+          ? { credits_remaining: next.remaining, credits_reserved: next.reserved }
+          : { credits_remaining: next.remaining }
+      )
+      .eq('id', companyId)
+      .eq('credits_remaining', current.remaining)
+
+    if (current.hasReservedColumn) {
+      query = query.eq('credits_reserved', current.reserved)
+    }
+
+    const { data, error } = await query.select('id')
+
+    if (error) {
+      log.error('Error updating company credits', { companyId, err: error })
+      return { success: false, error: 'Failed to update credits', reason: 'db_error', current }
+    }
+
+    if (Array.isArray(data) && data.length > 0) {
+      return {
+        success: true,
+        before: current,
+        after: { remaining: next.remaining, reserved: next.reserved, hasReservedColumn: current.hasReservedColumn },
+      }
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, Math.floor(Math.random() * 25 * attempt)))
+  }
+
+  return { success: false, error: 'Credit balance is changing too quickly; please retry', reason: 'contention', current }
+}
+
+export async function getCreditBalance(companyId: string, supabase: SupabaseClient): Promise<CreditBalance | null> {
+  const credits = await readCompanyCredits(companyId, supabase)
+  if (!credits) return null
+  return {
+    remaining: credits.remaining,
+    reserved: credits.reserved,
+    available: Math.max(0, credits.remaining - credits.reserved),
+  }
+}
+
+async function getHeldReservation(interviewId: string, supabase: SupabaseClient): Promise<CreditReservation | null> {
+  const { data, error } = await supabase
+    .from(CREDIT_RESERVATIONS_TABLE)
+    .select('id, company_id, interview_id, amount, consumed, status')
+    .eq('interview_id', interviewId)
+    .eq('status', 'held')
+    .maybeSingle()
+
+  if (error) {
+    if (error.code !== '42P01') log.error('Error fetching credit reservation', { interviewId, err: error })
+    return null
+  }
+
+  return (data as CreditReservation | null) ?? null
+}
+
+type ReservationRow = Pick<CreditReservation, 'id' | 'company_id' | 'status' | 'consumed'>
+
+/**
+ * Marks up to `amount` of the interview's hold as consumed before the company balance is touched.
+ * The update only matches while `consumed` is unchanged, so concurrent deductions for the same
+ * interview recompute their share instead of both drawing on the same part of the hold.
+ */
+async function claimReservedCredits(
+  interviewId: string,
+  amount: number,
+  supabase: SupabaseClient
+): Promise<{ reservationId: string; covered: number } | null> {
+  for (let attempt = 1; attempt <= MAX_BALANCE_UPDATE_ATTEMPTS; attempt++) {
+    const reservation = await getHeldReservation(interviewId, supabase)
+    if (!reservation) return null
+
+    const covered = Math.min(amount, Math.max(0, reservation.amount - reservation.consumed))
+    if (covered === 0) return null
+
+    const { data, error } = await supabase
+      .from(CREDIT_RESERVATIONS_TABLE)
+      .update({ consumed: reservation.consumed + covered, updated_at: new Date().toISOString() })
+      .eq('id', reservation.id)
+      .eq('status', 'held')
+      .eq('consumed', reservation.consumed)
+      .select('id')
+
+    if (error) {
+      log.error('Failed to claim reserved credits', { interviewId, err: error })
+      return null
+    }
+    if (Array.isArray(data) && data.length > 0) return { reservationId: reservation.id, covered }
+
+    await new Promise((resolve) => setTimeout(resolve, Math.floor(Math.random() * 25 * attempt)))
+  }
+
+  // Charged from the available balance instead; the untouched hold is returned when it closes.
+  return null
+}
+
+/** Undoes a claim whose deduction did not go through. */
+async function unclaimReservedCredits(reservationId: string, covered: number, supabase: SupabaseClient): Promise<void> {
+  for (let attempt = 1; attempt <= MAX_BALANCE_UPDATE_ATTEMPTS; attempt++) {
+    const { data, error } = await supabase
+      .from(CREDIT_RESERVATIONS_TABLE)
+      .select('id, company_id, status, consumed')
+      .eq('id', reservationId)
+      .maybeSingle()
+
+    if (error || !data) {
+      log.error('Failed to read credit reservation to undo claim', { reservationId, err: error })
+      return
+    }
+
+    const reservation = data as ReservationRow
+    if (reservation.status !== 'held') {
+      // The hold was closed in the meantime and counted these credits as consumed, so they are
+      // still in `credits_reserved`; return them directly.
+      const result = await updateCompanyCredits(reservation.company_id, supabase, (current) => ({
+        ok: true,
+        remaining: current.remaining,
+        reserved: Math.max(0, current.reserved - covered),
+      }))
+      if (!result.success) log.error('Failed to return reserved credits', { reservationId, credits: covered, err: result.error })
+      return
+    }
+
+    const { data: updated, error: updateError } = await supabase
+      .from(CREDIT_RESERVATIONS_TABLE)
+      .update({ consumed: Math.max(0, reservation.consumed - covered), updated_at: new Date().toISOString() })
+      .eq('id', reservationId)
+      .eq('status', 'held')
+      .eq('consumed', reservation.consumed)
+      .select('id')
+
+    if (updateError) {
+      log.error('Failed to undo credit reservation claim', { reservationId, err: updateError })
+      return
+    }
+    if (Array.isArray(updated) && updated.length > 0) return
+
+    await new Promise((resolve) => setTimeout(resolve, Math.floor(Math.random() * 25 * attempt)))
+  }
+
+  log.error('Gave up undoing credit reservation claim', { reservationId, credits: covered })
+}
+
+export async function deductCredits(
+  usage: CreditUsage,
+  supabase: SupabaseClient
+): Promise<DeductCreditsResult> {
+  // Minutes billed for an interview with a hold are paid out of that hold first.
+  const claim =
+    usage.referenceType === 'interview' && usage.referenceId
+      ? await claimReservedCredits(usage.referenceId, usage.amount, supabase)
+      : null
+  const covered = claim?.covered ?? 0
+
+  const result = await updateCompanyCredits(usage.companyId, supabase, (current) => {
+    const coveredFromHold = Math.min(covered, current.reserved)
+    const spendable = current.remaining - (current.reserved - coveredFromHold)
+    if (spendable < usage.amount) {
+      return {
+        ok: false,
+        error: `Insufficient credits. Required: ${usage.amount}, Available: ${Math.max(0, current.remaining - current.reserved)}`,
+        reason: 'insufficient_credits',
+      }
+    }
+    return { ok: true, remaining: current.remaining - usage.amount, reserved: current.reserved - coveredFromHold }
+  })
+
+  if (!result.success) {
+    if (claim) await unclaimReservedCredits(claim.reservationId, claim.covered, supabase)
+    if (!result.current) log.error('Error fetching company for credit deduction', { companyId: usage.companyId, err: result.error })
+    return { success: false, newBalance: result.current?.remaining ?? 0, error: result.error, reason: result.reason }
+  }
+
+  const { error: logError } = await supabase.from('credit_transactions').insert({
+    company_id: usage.companyId,
+    user_id: usage.userId || null,
+    amount: usage.amount,
+    type: usage.type,
+    description: usage.description || null,
+    reference_id: usage.referenceId || null,
+    reference_type: usage.referenceType || null,
+    balance_before: result.before.remaining,
+    balance_after: result.after.remaining,
+  })
+
+  if (logError) {
+    // A charge missing from the ledger could never be reconciled or refunded, so undo it instead.
+    log.error('Failed to log credit transaction, reverting the deduction', { companyId: usage.companyId, err: logError })
+    const coveredFromHold = result.before.reserved - result.after.reserved
+    const reverted = await updateCompanyCredits(usage.companyId, supabase, (current) => ({
+      ok: true,
+      remaining: current.remaining + usage.amount,
+      reserved: current.reserved + coveredFromHold,
+    }))
+    if (!reverted.success) {
+      log.error('Failed to revert unlogged deduction', { companyId: usage.companyId, credits: usage.amount, err: reverted.error })
+    } else if (claim) {
+      await unclaimReservedCredits(claim.reservationId, claim.covered, supabase)
+    }
     return {
       success: false,
-      newBalance: currentBalance,
-      error: `Insufficient credits. Required: ${usage.amount}, Available: ${currentBalance}`,
+      newBalance: reverted.success ? reverted.after.remaining : result.after.remaining,
+      error: 'Failed to record credit transaction',
+      reason: 'db_error',
     }
   }
 
-  const newBalance = currentBalance - usage.amount
-  const { error: updateError } = await supabase
-    .from('companies')
-    .update({ credits_remaining: newBalance })
-    .eq('id', usage.companyId)
-
-  if (updateError) {
-    console.error('Error updating company credits:', updateError)
-    return { success: false, newBalance: currentBalance, error: 'Failed to update credits' }
-  }
-
-  try {
-    await supabase.from('credit_transactions').insert({
-      company_id: usage.companyId,
-      user_id: usage.userId || null,
-      amount: usage.amount,
-      type: usage.type,
-      description: usage.description || null,
-      reference_id: usage.referenceId || null,
-      reference_type: usage.referenceType || null,
-      balance_before: currentBalance,
-      balance_after: newBalance,
+  return { success: true, newBalance: result.after.remaining }
+}
+
+/**
+ * Returns credits to a company and records the compensating ledger entry. Callers are responsible
+ * for making sure the same credits are not refunded twice.
+ */
+export async function refundCredits(
+  refund: Omit<CreditUsage, 'type'>,
+  supabase: SupabaseClient
+): Promise<{ success: boolean; newBalance: number; error?: string }> {
+  if (!(refund.amount > 0)) {
+    return { success: false, newBalance: 0, error: 'Refund amount must be positive' }
+  }
+
+  const result = await updateCompanyCredits(refund.companyId, supabase, (current) => ({
+    ok: true,
+    remaining: current.remaining + refund.amount,
+    reserved: current.reserved,
+  }))
+
+  if (!result.success) {
+    return { success: false, newBalance: result.current?.remaining ?? 0, error: result.error }
+  }
+
+  const { error: logError } = await supabase.from('credit_transactions').insert({
+    company_id: refund.companyId,
+    user_id: refund.userId || null,
+    amount: refund.amount,
+    type: 'interview_refund',
+    description: refund.description || null,
+    reference_id: refund.referenceId || null,
+    reference_type: refund.referenceType || null,
+    balance_before: result.before.remaining,
+    balance_after: result.after.remaining,
+  })
+
+  if (logError) {
+    log.error('Failed to log credit refund', { companyId: refund.companyId, err: logError })
+  }
+
+  return { success: true, newBalance: result.after.remaining }
+}
+
+/**
+ * Holds the expected cost of an interview when it starts so other interviews cannot spend it.
+ * Calling it again for the same interview returns the existing hold.
+ */
+export async function reserveCredits(
+  params: { companyId: string; interviewId: string; amount: number },
+  supabase: SupabaseClient
+): Promise<{ success: boolean; reservationId?: string; available: number; error?: string }> {
+  const existing = await getHeldReservation(params.interviewId, supabase)
+  if (existing) {
+    const balance = await getCreditBalance(params.companyId, supabase)
+    return { success: true, reservationId: existing.id, available: balance?.available ?? 0 }
+  }
+
+  const amount = Math.max(0, Math.ceil(params.amount))
+  if (amount === 0) {
+    return { success: false, available: 0, error: 'Reservation amount must be positive' }
+  }
+
+  const result = await updateCompanyCredits(params.companyId, supabase, (current) => {
+    if (!current.hasReservedColumn) {
+      return { ok: false, error: 'Credit reservations are not supported by this database', reason: 'db_error' }
+    }
+    const available = current.remaining - current.reserved
+    if (available < amount) {
+      return {
+        ok: false,
+        error: `Insufficient credits. Required: ${amount}, Available: ${Math.max(0, available)}`,
+        reason: 'insufficient_credits',
+      }
+    }
+    return { ok: true, remaining: current.remaining, reserved: current.reserved + amount }
+  })
+
+  if (!result.success) {
+    const available = result.current ? Math.max(0, result.current.remaining - result.current.reserved) : 0
+    return { success: false, available, error: result.error }
+  }
+
+  const { data, error } = await supabase
+    .from(CREDIT_RESERVATIONS_TABLE)
+    .insert({
+      company_id: params.companyId,
+      interview_id: params.interviewId,
+      amount,
+      consumed: 0,
+      status: 'held',
     })
-  } catch (logError) {
-    console.error('Failed to log credit transaction:', logError)
+    .select('id')
+    .single()
+
+  if (error || !data) {
+    log.error('Failed to record credit reservation, returning hold', { interviewId: params.interviewId, err: error })
+    await updateCompanyCredits(params.companyId, supabase, (current) => ({
+      ok: true,
+      remaining: current.remaining,
+      reserved: Math.max(0, current.reserved - amount),
+    }))
+    return { success: false, available: result.before.remaining - result.before.reserved, error: 'Failed to record reservation' }
+  }
+
+  return {
+    success: true,
+    reservationId: (data as { id: string }).id,
+    available: result.after.remaining - result.after.reserved,
   }
+}
+
+async function closeReservation(
+  interviewId: string,
+  status: Exclude<CreditReservationStatus, 'held'>,
+  supabase: SupabaseClient
+): Promise<{ releasedCredits: number }> {
+  const reservation = await getHeldReservation(interviewId, supabase)
+  if (!reservation) return { releasedCredits: 0 }
+
+  // Claim the row first so two closers cannot both return the unused hold.
+  const { data: claimed, error: claimError } = await supabase
+    .from(CREDIT_RESERVATIONS_TABLE)
+    .update({ status, updated_at: new Date().toISOString(), closed_at: new Date().toISOString() })
+    .eq('id', reservation.id)
+    .eq('status', 'held')
+    .select('id, consumed')
+
+  if (claimError) {
+    log.error(`Failed to mark credit reservation ${status}`, { interviewId, err: claimError })
+    return { releasedCredits: 0 }
+  }
+  if (!Array.isArray(claimed) || claimed.length === 0) return { releasedCredits: 0 }
+
+  const consumed = (claimed[0] as { consumed: number | null }).consumed ?? reservation.consumed
+  const unused = Math.max(0, reservation.amount - consumed)
+  if (unused === 0) return { releasedCredits: 0 }
+
+  const result = await updateCompanyCredits(reservation.company_id, supabase, (current) => ({
+    ok: true,
+    remaining: current.remaining,
+    reserved: Math.max(0, current.reserved - unused),
+  }))
 
-  return { success: true, newBalance }
+  if (!result.success) {
+    log.error('Failed to return unused reserved credits', { interviewId, credits: unused, err: result.error })
+    return { releasedCredits: 0 }
+  }
+
+  return { releasedCredits: unused }
 }
 
+/** Closes the hold after the final minutes have been billed, returning whatever was not used. */
+export async function settleCreditReservation(
+  interviewId: string,
+  supabase: SupabaseClient
+): Promise<{ releasedCredits: number }> {
+  return closeReservation(interviewId, 'settled', supabase)
+}
+
+/** Returns the whole unused hold when an interview is cancelled. */
+export async function releaseCreditReservation(
+  interviewId: string,
+  supabase: SupabaseClient
+): Promise<{ releasedCredits: number }> {
+  return closeReservation(interviewId, 'released', supabase)
+}
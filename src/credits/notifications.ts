@@ -0,0 +1,188 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { sendCreditAlertEmail, type CreditAlertLevel } from '../email'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Credits' })
+
+const DEFAULT_LOW_THRESHOLD = 10
+const DEFAULT_CRITICAL_THRESHOLD = 5
+
+const SEVERITY: Record<CreditAlertLevel, number> = { low: 1, critical: 2, exhausted: 3 }
+const ADMIN_ROLES = new Set(['owner', 'admin'])
+const KNOWN_LEVEL_TTL_MS = 60_000
+
+export interface CreditThresholds {
+  low: number
+  critical: number
+}
+
+// Last level seen per company; skips the database while nothing changes, and stands in for
+// `companies.credit_alert_level` on deployments without that column.
+const knownAlertLevels = new Map<string, { level: CreditAlertLevel | null; seenAt: number }>()
+
+function rememberAlertLevel(companyId: string, level: CreditAlertLevel | null): void {
+  knownAlertLevels.set(companyId, { level, seenAt: Date.now() })
+}
+
+function readThreshold(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+export function getCreditThresholds(): CreditThresholds {
+  const low = readThreshold('CREDIT_LOW_THRESHOLD', DEFAULT_LOW_THRESHOLD)
+  const critical = Math.min(readThreshold('CREDIT_CRITICAL_THRESHOLD', DEFAULT_CRITICAL_THRESHOLD), low)
+  return { low, critical }
+}
+
+export function classifyCreditBalance(balance: number): CreditAlertLevel | null {
+  const thresholds = getCreditThresholds()
+  if (balance <= 0) return 'exhausted'
+  if (balance <= thresholds.critical) return 'critical'
+  if (balance <= thresholds.low) return 'low'
+  return null
+}
+
+/**
+ * Moves the company's stored alert level to `level`. Returns true only for the caller that
+ * raised it to a more severe level, so each crossing is announced once. Falling back below a
+ * level (after a top-up) lowers the stored level silently so the next drop alerts again.
+ */
+async function advanceAlertLevel(
+  companyId: string,
+  level: CreditAlertLevel | null,
+  supabase: SupabaseClient
+): Promise<boolean> {
+  const known = knownAlertLevels.get(companyId)
+  if (known && known.level === level && Date.now() - known.seenAt < KNOWN_LEVEL_TTL_MS) return false
+
+  const { data, error } = await supabase.from('companies').select('credit_alert_level').eq('id', companyId).single()
+
+  if (error?.code === '42703') {
+    const previous = known?.level ?? null
+    rememberAlertLevel(companyId, level)
+    return level !== null && (previous === null || SEVERITY[level] > SEVERITY[previous])
+  }
+  if (error || !data) {
+    log.error('Failed to read company credit alert level', { companyId, err: error })
+    return false
+  }
+
+  const stored = (data as { credit_alert_level: CreditAlertLevel | null }).credit_alert_level ?? null
+  if (stored === level) {
+    rememberAlertLevel(companyId, level)
+    return false
+  }
+
+  let claim = supabase.from('companies').update({ credit_alert_level: level }).eq('id', companyId)
+  claim = stored === null ? claim.is('credit_alert_level', null) : claim.eq('credit_alert_level', stored)
+
+  const { data: claimed, error: claimError } = await claim.select('id')
+  if (claimError) {
+    log.error('Failed to update company credit alert level', { companyId, err: claimError })
+    return false
+  }
+  if (!Array.isArray(claimed) || claimed.length === 0) return false
+
+  rememberAlertLevel(companyId, level)
+  return level !== null && (stored === null || SEVERITY[level] > SEVERITY[stored])
+}
+
+function wantsCreditAlerts(preferences: unknown): boolean {
+  if (!preferences || typeof preferences !== 'object' || Array.isArray(preferences)) return true
+  return (preferences as Record<string, unknown>).credits_low !== false
+}
+
+function getUserLocale(userMetadata: unknown): string {
+  if (!userMetadata || typeof userMetadata !== 'object' || Array.isArray(userMetadata)) return 'en'
+  const locale = (userMetadata as Record<string, unknown>).locale
+  return typeof locale === 'string' && locale.trim() ? locale : 'en'
+}
+
+async function loadAlertRecipients(
+  companyId: string,
+  supabase: SupabaseClient
+): Promise<Array<{ user_id: string; notification_preferences: unknown }>> {
+  let members: unknown = null
+  let error: { code?: string } | null = null
+
+  ;({ data: members, error } = await supabase
+    .from('company_members')
+    .select('user_id, role, notification_preferences')
+    .eq('company_id', companyId)
+    .is('deleted_at', null))
+
+  // Without member roles every member is treated as an admin.
+  if (error?.code === '42703') {
+    ;({ data: members, error } = await supabase
+      .from('company_members')
+      .select('user_id, notification_preferences')
+      .eq('company_id', companyId)
+      .is('deleted_at', null))
+  }
+
+  if (error) {
+    log.error('Failed to load company members for credit alert', { companyId, err: error })
+    return []
+  }
+
+  const rows = (members || []) as Array<{ user_id: string; role?: string | null; notification_preferences: unknown }>
+  return rows.filter((member) => member.role === undefined || ADMIN_ROLES.has(member.role ?? ''))
+}
+
+async function sendCreditAlert(
+  companyId: string,
+  level: CreditAlertLevel,
+  balance: number,
+  supabase: SupabaseClient
+): Promise<number> {
+  const { data: company } = await supabase.from('companies').select('name').eq('id', companyId).single()
+  const companyName = (company as { name: string | null } | null)?.name || 'Your company'
+
+  let sent = 0
+  for (const member of await loadAlertRecipients(companyId, supabase)) {
+    if (!wantsCreditAlerts(member.notification_preferences)) continue
+
+    const { data: userData, error: userError } = await supabase.auth.admin.getUserById(member.user_id)
+    if (userError) {
+      log.error('Failed to fetch user for credit alert', { userId: member.user_id, err: userError })
+      continue
+    }
+
+    const email = userData?.user?.email
+    if (!email) continue
+
+    try {
+      await sendCreditAlertEmail({
+        to: email,
+        companyName,
+        level,
+        balance: Math.max(0, balance),
+        locale: getUserLocale(userData.user.user_metadata),
+      })
+      sent += 1
+    } catch (emailError) {
+      log.error('Failed to send credit alert', { userId: member.user_id, err: emailError })
+    }
+  }
+
+  return sent
+}
+
+/**
+ * Emails company admins when the balance crosses a threshold. Safe to call on every billing
+ * event: repeated calls at the same level send nothing.
+ */
+export async function notifyCreditBalance(
+  companyId: string,
+  balance: number,
+  supabase: SupabaseClient,
+  level: CreditAlertLevel | null = classifyCreditBalance(balance)
+): Promise<{ level: CreditAlertLevel | null; notified: number }> {
+  const raised = await advanceAlertLevel(companyId, level, supabase)
+  if (!raised || !level) return { level, notified: 0 }
+
+  const notified = await sendCreditAlert(companyId, level, balance, supabase)
+  log.info('Balance alert sent', { companyId, level, notified })
+  return { level, notified }
+}
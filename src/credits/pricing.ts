@@ -0,0 +1,486 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { INTERVIEW_MODES, normalizeInterviewMode, type InterviewMode } from '../interview/modes'
+import { isTalentApplicantCandidate } from '../interviews/talent'
+import { creditsDeductedTotal } from '../metrics'
+import { deductCredits, settleCreditReservation, type CreditFailureReason } from './manager'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Credits' })
+
+export const DEFAULT_PRICING_PLAN = 'default'
+
+const CREDIT_PRICING_TABLE = 'credit_pricing'
+const PRICING_CACHE_TTL_MS = 60_000
+
+export interface ModeRates {
+  creditsPerMinute: number
+  /** Added per minute when the interview is recorded. */
+  recordingCreditsPerMinute: number
+  /** Charged once per interview when the AI analysis is produced. */
+  analysisCredits: number
+}
+
+export interface InterviewPricing extends ModeRates {
+  plan: string
+  mode: InterviewMode
+  free: boolean
+  freeReason?: 'talent_applicant' | 'plan'
+}
+
+// Matches historical billing: AI interviews are free, human-led modes cost one credit per minute.
+const BUILT_IN_RATES: Record<InterviewMode, ModeRates> = {
+  [INTERVIEW_MODES.AI_QA]: { creditsPerMinute: 0, recordingCreditsPerMinute: 0, analysisCredits: 0 },
+  [INTERVIEW_MODES.AI_DIALOGUE]: { creditsPerMinute: 0, recordingCreditsPerMinute: 0, analysisCredits: 0 },
+  [INTERVIEW_MODES.ASSISTED_VIDEO]: { creditsPerMinute: 1, recordingCreditsPerMinute: 0, analysisCredits: 0 },
+  [INTERVIEW_MODES.ASSISTED_VOICE]: { creditsPerMinute: 1, recordingCreditsPerMinute: 0, analysisCredits: 0 },
+}
+
+type PricingRow = {
+  plan: string
+  interview_mode: string
+  credits_per_minute: number | null
+  recording_credits_per_minute: number | null
+  analysis_credits: number | null
+}
+
+let pricingCache: { loadedAt: number; rows: PricingRow[] } | null = null
+
+function nonNegative(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+async function loadPricingRows(supabase: SupabaseClient): Promise<PricingRow[]> {
+  if (pricingCache && Date.now() - pricingCache.loadedAt < PRICING_CACHE_TTL_MS) {
+    return pricingCache.rows
+  }
+
+  const { data, error } = await supabase
+    .from(CREDIT_PRICING_TABLE)
+    .select('plan, interview_mode, credits_per_minute, recording_credits_per_minute, analysis_credits')
+
+  if (error) {
+    // Without a pricing table every company is billed at the built-in rates.
+    if (error.code !== '42P01') log.error('Failed to load credit pricing', { err: error })
+    return pricingCache?.rows ?? []
+  }
+
+  pricingCache = { loadedAt: Date.now(), rows: (data || []) as PricingRow[] }
+  return pricingCache.rows
+}
+
+async function getCompanyPlan(companyId: string, supabase: SupabaseClient): Promise<string> {
+  const { data, error } = await supabase.from('companies').select('plan').eq('id', companyId).maybeSingle()
+  if (error) {
+    if (error.code !== '42703') log.error('Failed to load company plan', { companyId, err: error })
+    return DEFAULT_PRICING_PLAN
+  }
+  const plan = (data as { plan?: string | null } | null)?.plan
+  return typeof plan === 'string' && plan.trim() ? plan.trim() : DEFAULT_PRICING_PLAN
+}
+
+/**
+ * Resolves what an interview costs: the company plan's row for the mode, then the default plan's
+ * row, then the built-in rates. Talent-applicant interviews are always free.
+ */
+export async function resolveInterviewPricing(
+  params: {
+    companyId: string
+    interviewMode: string | null | undefined
+    candidateId?: string | null
+    isTalentApplicant?: boolean
+  },
+  supabase: SupabaseClient
+): Promise<InterviewPricing> {
+  const mode = normalizeInterviewMode(params.interviewMode)
+  const [plan, rows] = await Promise.all([getCompanyPlan(params.companyId, supabase), loadPricingRows(supabase)])
+
+  const row =
+    rows.find((item) => item.plan === plan && item.interview_mode === mode) ??
+    rows.find((item) => item.plan === DEFAULT_PRICING_PLAN && item.interview_mode === mode)
+  const builtIn = BUILT_IN_RATES[mode]
+  const rates: ModeRates = {
+    creditsPerMinute: nonNegative(row?.credits_per_minute, builtIn.creditsPerMinute),
+    recordingCreditsPerMinute: nonNegative(row?.recording_credits_per_minute, builtIn.recordingCreditsPerMinute),
+    analysisCredits: nonNegative(row?.analysis_credits, builtIn.analysisCredits),
+  }
+
+  const isTalentApplicant =
+    params.isTalentApplicant ?? (await isTalentApplicantCandidate(supabase, params.candidateId ?? null))
+  if (isTalentApplicant) {
+    return { plan, mode, creditsPerMinute: 0, recordingCreditsPerMinute: 0, analysisCredits: 0, free: true, freeReason: 'talent_applicant' }
+  }
+
+  const free = rates.creditsPerMinute === 0 && rates.recordingCreditsPerMinute === 0 && rates.analysisCredits === 0
+  return { plan, mode, ...rates, free, ...(free ? { freeReason: 'plan' as const } : {}) }
+}
+
+/** Credits owed for the first `minutes` minutes; billed as differences so rounding never drifts. */
+export function creditsForMinutes(pricing: InterviewPricing, minutes: number, recordingEnabled: boolean): number {
+  const rate = pricing.creditsPerMinute + (recordingEnabled ? pricing.recordingCreditsPerMinute : 0)
+  return Math.ceil(Math.max(0, minutes) * rate)
+}
+
+export interface InterviewBillingState {
+  companyId: string
+  candidateId: string | null
+  recordingEnabled: boolean
+  minutesBilled: number
+  creditsDeducted: number
+  /**
+   * `unset` for interviews billed before `minutes_billed` existed and `missing` on databases without
+   * the column; `minutesBilled` then comes from `credits_deducted`.
+   */
+  minutesBilledColumn: 'set' | 'unset' | 'missing'
+  pricing: InterviewPricing
+}
+
+export async function loadInterviewBillingState(
+  interviewId: string,
+  supabase: SupabaseClient,
+  options: { isTalentApplicant?: boolean } = {}
+): Promise<InterviewBillingState | null> {
+  let hasMinutesBilledColumn = true
+  let { data, error } = await supabase
+    .from('interviews')
+    .select('company_id, candidate_id, interview_mode, recording_enabled, minutes_billed, credits_deducted')
+    .eq('id', interviewId)
+    .single()
+
+  // Databases from before per-mode pricing have no `minutes_billed` column.
+  if (error?.code === '42703') {
+    hasMinutesBilledColumn = false
+    ;({ data, error } = await supabase
+      .from('interviews')
+      .select('company_id, candidate_id, interview_mode, recording_enabled, credits_deducted')
+      .eq('id', interviewId)
+      .single())
+  }
+
+  if (error || !data) {
+    log.error('Failed to load billing state', { interviewId, err: error })
+    return null
+  }
+
+  const record = data as {
+    company_id: string
+    candidate_id: string | null
+    interview_mode: string | null
+    recording_enabled: boolean | null
+    minutes_billed?: number | null
+    credits_deducted: number | null
+  }
+
+  const pricing = await resolveInterviewPricing(
+    {
+      companyId: record.company_id,
+      interviewMode: record.interview_mode,
+      candidateId: record.candidate_id,
+      isTalentApplicant: options.isTalentApplicant,
+    },
+    supabase
+  )
+
+  const creditsDeducted = record.credits_deducted ?? 0
+  return {
+    companyId: record.company_id,
+    candidateId: record.candidate_id,
+    recordingEnabled: record.recording_enabled ?? true,
+    // Interviews billed before per-mode pricing were charged one credit per minute.
+    minutesBilled: record.minutes_billed ?? creditsDeducted,
+    creditsDeducted,
+    minutesBilledColumn: !hasMinutesBilledColumn
+      ? 'missing'
+      : record.minutes_billed === null || record.minutes_billed === undefined
+        ? 'unset'
+        : 'set',
+    pricing,
+  }
+}
+
+/**
+ * Credits to hold for an interview's scheduled length at its mode and recording rates. Returns 0
+ * for free interviews and when the interview cannot be loaded, so no hold is placed.
+ */
+export async function estimateInterviewHoldCredits(
+  interviewId: string,
+  durationMinutes: number,
+  supabase: SupabaseClient
+): Promise<number> {
+  const state = await loadInterviewBillingState(interviewId, supabase)
+  if (!state || state.pricing.free) return 0
+  return creditsForMinutes(state.pricing, durationMinutes, state.recordingEnabled)
+}
+
+export interface BillMinutesResult {
+  success: boolean
+  free: boolean
+  minutesBilled: number
+  creditsCharged: number
+  newBalance: number | null
+  error?: string
+  /** Set on failure; the minutes stay unbilled, so only `insufficient_credits` should end an interview. */
+  reason?: CreditFailureReason
+}
+
+/**
+ * Moves the interview's billed counters from `from` to `to`. The update only matches while the row
+ * still holds `from`, so of two runs billing the same minutes only one gets to charge for them.
+ */
+async function moveBilledMinutes(
+  interviewId: string,
+  from: Pick<InterviewBillingState, 'minutesBilled' | 'creditsDeducted' | 'minutesBilledColumn'>,
+  to: { minutesBilled: number; creditsDeducted: number },
+  supabase: SupabaseClient
+): Promise<'moved' | 'conflict' | 'error'> {
+  const update = supabase
+    .from('interviews')
+    .update(
+      from.minutesBilledColumn === 'missing'
+        ? { credits_deducted: to.creditsDeducted }
+        : { minutes_billed: to.minutesBilled, credits_deducted: to.creditsDeducted }
+    )
+    .eq('id', interviewId)
+
+  const { data, error } = await (from.minutesBilledColumn === 'set'
+    ? update.eq('minutes_billed', from.minutesBilled)
+    : from.minutesBilledColumn === 'unset'
+      ? update.is('minutes_billed', null).eq('credits_deducted', from.creditsDeducted)
+      : update.eq('credits_deducted', from.creditsDeducted)
+  ).select('id')
+
+  if (error) {
+    log.error('Failed to record billed minutes', { interviewId, err: error })
+    return 'error'
+  }
+  return Array.isArray(data) && data.length > 0 ? 'moved' : 'conflict'
+}
+
+/**
+ * Bills an interview up to `throughMinutes` total minutes at its resolved price. At most
+ * `maxMinutes` new minutes are billed per call to guard against clock jumps.
+ */
+export async function billInterviewMinutes(
+  params: {
+    interviewId: string
+    throughMinutes: number
+    maxMinutes?: number
+    descriptionPrefix: string
+    state?: InterviewBillingState
+  },
+  supabase: SupabaseClient
+): Promise<BillMinutesResult> {
+  const state = params.state ?? (await loadInterviewBillingState(params.interviewId, supabase))
+  if (!state) {
+    return {
+      success: false,
+      free: false,
+      minutesBilled: 0,
+      creditsCharged: 0,
+      newBalance: null,
+      error: 'Interview not found',
+      reason: 'db_error',
+    }
+  }
+
+  const pending = Math.max(0, params.throughMinutes - state.minutesBilled)
+  const minutes = params.maxMinutes !== undefined ? Math.min(pending, params.maxMinutes) : pending
+
+  if (minutes < pending) {
+    log.warn('Large credit deduction detected, limiting it', {
+      interviewId: params.interviewId,
+      pendingMinutes: pending,
+      billedMinutes: minutes,
+    })
+  }
+
+  if (state.pricing.free || minutes === 0) {
+    return { success: true, free: state.pricing.free, minutesBilled: state.minutesBilled, creditsCharged: 0, newBalance: null }
+  }
+
+  const targetMinutes = state.minutesBilled + minutes
+  const credits =
+    creditsForMinutes(state.pricing, targetMinutes, state.recordingEnabled) -
+    creditsForMinutes(state.pricing, state.minutesBilled, state.recordingEnabled)
+
+  const claimed = await moveBilledMinutes(
+    params.interviewId,
+    state,
+    { minutesBilled: targetMinutes, creditsDeducted: state.creditsDeducted + credits },
+    supabase
+  )
+  if (claimed === 'error') {
+    return {
+      success: false,
+      free: false,
+      minutesBilled: state.minutesBilled,
+      creditsCharged: 0,
+      newBalance: null,
+      error: 'Failed to record billed minutes',
+      reason: 'db_error',
+    }
+  }
+  if (claimed === 'conflict') {
+    // Another heartbeat billed these minutes first.
+    return { success: true, free: false, minutesBilled: state.minutesBilled, creditsCharged: 0, newBalance: null }
+  }
+
+  let newBalance: number | null = null
+  if (credits > 0) {
+    const surcharge = state.recordingEnabled && state.pricing.recordingCreditsPerMinute > 0 ? ', incl. recording' : ''
+    const result = await deductCredits(
+      {
+        companyId: state.companyId,
+        amount: credits,
+        type: 'interview_minute',
+        referenceId: params.interviewId,
+        referenceType: 'interview',
+        description: `${params.descriptionPrefix}: minutes ${state.minutesBilled + 1}-${targetMinutes}${surcharge}`,
+      },
+      supabase
+    )
+
+    if (!result.success) {
+      // Hand the minutes back so the next heartbeat tries them again.
+      await moveBilledMinutes(
+        params.interviewId,
+        {
+          minutesBilled: targetMinutes,
+          creditsDeducted: state.creditsDeducted + credits,
+          minutesBilledColumn: state.minutesBilledColumn === 'missing' ? 'missing' : 'set',
+        },
+        { minutesBilled: state.minutesBilled, creditsDeducted: state.creditsDeducted },
+        supabase
+      )
+      return {
+        success: false,
+        free: false,
+        minutesBilled: state.minutesBilled,
+        creditsCharged: 0,
+        newBalance: result.newBalance,
+        error: result.error,
+        reason: result.reason,
+      }
+    }
+    newBalance = result.newBalance
+    creditsDeductedTotal.inc({ mode: state.pricing.mode, type: 'interview_minute' }, credits)
+  }
+
+  return { success: true, free: false, minutesBilled: targetMinutes, creditsCharged: credits, newBalance }
+}
+
+/**
+ * Bills an ended interview through its `completed_at` and closes its credit hold, so the unused
+ * part goes back as soon as the interview ends instead of waiting on a successful analysis.
+ */
+export async function settleEndedInterviewCredits(
+  interviewId: string,
+  supabase: SupabaseClient,
+  descriptionPrefix = 'Interview completed',
+  options: { isTalentApplicant?: boolean } = {}
+): Promise<void> {
+  const { data, error } = await supabase
+    .from('interviews')
+    .select('started_at, completed_at')
+    .eq('id', interviewId)
+    .single()
+
+  if (error) {
+    log.error('Failed to load interview timing', { interviewId, err: error })
+  }
+
+  const record = data as { started_at: string | null; completed_at: string | null } | null
+  if (record?.started_at && record.completed_at) {
+    const elapsedMs = new Date(record.completed_at).getTime() - new Date(record.started_at).getTime()
+    if (elapsedMs > 0) {
+      const state = await loadInterviewBillingState(interviewId, supabase, options)
+      const result = await billInterviewMinutes(
+        { interviewId, throughMinutes: Math.ceil(elapsedMs / 1000 / 60), descriptionPrefix, state: state ?? undefined },
+        supabase
+      )
+      if (!result.success) {
+        log.error('Failed to bill final minutes', { interviewId, err: result.error })
+      }
+    }
+  }
+
+  await settleCreditReservation(interviewId, supabase)
+}
+
+/**
+ * Marks the analysis fee as charged on the interview row before any credits move. The update only
+ * matches while no fee is recorded, so of two analyses finishing together only one charges.
+ * Databases without `analysis_credits_charged` fall back to the ledger check alone.
+ */
+async function claimAnalysisFee(
+  interviewId: string,
+  amount: number,
+  supabase: SupabaseClient
+): Promise<'claimed' | 'conflict' | 'error'> {
+  const { data, error } = await supabase
+    .from('interviews')
+    .update({ analysis_credits_charged: amount })
+    .eq('id', interviewId)
+    .is('analysis_credits_charged', null)
+    .select('id')
+
+  if (error?.code === '42703') return 'claimed'
+  if (error) {
+    log.error('Failed to claim analysis fee', { interviewId, err: error })
+    return 'error'
+  }
+  return Array.isArray(data) && data.length > 0 ? 'claimed' : 'conflict'
+}
+
+/** Charges the plan's flat analysis fee once per interview; forced re-analyses are not charged again. */
+export async function chargeAnalysisFee(
+  interviewId: string,
+  pricing: InterviewPricing,
+  companyId: string,
+  supabase: SupabaseClient
+): Promise<{ charged: number }> {
+  if (pricing.free || pricing.analysisCredits <= 0) return { charged: 0 }
+
+  const { count, error } = await supabase
+    .from('credit_transactions')
+    .select('id', { count: 'exact', head: true })
+    .eq('reference_id', interviewId)
+    .eq('type', 'interview_analysis')
+
+  if (error) {
+    log.error('Failed to check existing analysis fee', { interviewId, err: error })
+    return { charged: 0 }
+  }
+  if ((count ?? 0) > 0) return { charged: 0 }
+
+  const amount = Math.ceil(pricing.analysisCredits)
+  if ((await claimAnalysisFee(interviewId, amount, supabase)) !== 'claimed') return { charged: 0 }
+
+  const result = await deductCredits(
+    {
+      companyId,
+      amount,
+      type: 'interview_analysis',
+      referenceId: interviewId,
+      referenceType: 'interview',
+      description: 'Interview analysis',
+    },
+    supabase
+  )
+
+  if (!result.success) {
+    log.error('Failed to charge analysis fee', { interviewId, err: result.error })
+    // Release the claim so a later analysis can charge the fee.
+    const { error: releaseError } = await supabase
+      .from('interviews')
+      .update({ analysis_credits_charged: null })
+      .eq('id', interviewId)
+      .eq('analysis_credits_charged', amount)
+    if (releaseError && releaseError.code !== '42703') {
+      log.error('Failed to release analysis fee claim', { interviewId, err: releaseError })
+    }
+    return { charged: 0 }
+  }
+  creditsDeductedTotal.inc({ mode: pricing.mode, type: 'interview_analysis' }, amount)
+
+  return { charged: amount }
+}
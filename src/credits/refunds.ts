@@ -0,0 +1,208 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '../supabase/admin'
+import { refundCredits } from './manager'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Credits' })
+
+export const REFUND_REASONS = [
+  'no_candidate_speech',
+  'livekit_failure',
+  'avatar_session_failure',
+  'analysis_failed',
+  'manual',
+] as const
+
+export type RefundReason = (typeof REFUND_REASONS)[number]
+
+export interface InterviewRefundResult {
+  success: boolean
+  refundedCredits: number
+  newBalance?: number
+  error?: string
+  errorCode?: 'not_found' | 'nothing_to_refund' | 'conflict' | 'failed'
+}
+
+function isRefundReason(value: unknown): value is RefundReason {
+  return typeof value === 'string' && (REFUND_REASONS as readonly string[]).includes(value)
+}
+
+/** Analysis fees charged for the interview; they are on the ledger, not in `credits_deducted`. */
+async function getAnalysisFeesCharged(interviewId: string, supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from('credit_transactions')
+    .select('amount')
+    .eq('reference_id', interviewId)
+    .eq('type', 'interview_analysis')
+
+  if (error) {
+    throw new Error(error.message)
+  }
+  return ((data || []) as Array<{ amount: number | null }>).reduce((sum, row) => sum + (row.amount ?? 0), 0)
+}
+
+/**
+ * Refunds minutes and analysis fees billed for an interview, at most what was charged minus
+ * earlier refunds. `interviews.credits_refunded` is advanced with a conditional update before the balance changes,
+ * so concurrent refunds for the same interview cannot both succeed.
+ */
+export async function refundInterviewCredits(
+  params: { interviewId: string; reason: RefundReason; amount?: number; note?: string; userId?: string },
+  supabase: SupabaseClient
+): Promise<InterviewRefundResult> {
+  const { data, error } = await supabase
+    .from('interviews')
+    .select('company_id, credits_deducted, credits_refunded')
+    .eq('id', params.interviewId)
+    .single()
+
+  if (error || !data) {
+    return { success: false, refundedCredits: 0, error: 'Interview not found', errorCode: 'not_found' }
+  }
+
+  const interview = data as { company_id: string; credits_deducted: number | null; credits_refunded: number | null }
+  const alreadyRefunded = interview.credits_refunded ?? 0
+  const charged = (interview.credits_deducted ?? 0) + (await getAnalysisFeesCharged(params.interviewId, supabase))
+  const refundable = Math.max(0, charged - alreadyRefunded)
+  const amount = Math.min(params.amount ?? refundable, refundable)
+
+  if (amount <= 0) {
+    return {
+      success: false,
+      refundedCredits: 0,
+      error: 'No refundable credits for this interview',
+      errorCode: 'nothing_to_refund',
+    }
+  }
+
+  let claim = supabase
+    .from('interviews')
+    .update({ credits_refunded: alreadyRefunded + amount })
+    .eq('id', params.interviewId)
+  claim = interview.credits_refunded === null ? claim.is('credits_refunded', null) : claim.eq('credits_refunded', alreadyRefunded)
+
+  const { data: claimed, error: claimError } = await claim.select('id')
+  if (claimError) {
+    log.error('Error reserving interview refund', { interviewId: params.interviewId, err: claimError })
+    return { success: false, refundedCredits: 0, error: 'Failed to record refund', errorCode: 'failed' }
+  }
+  if (!Array.isArray(claimed) || claimed.length === 0) {
+    return {
+      success: false,
+      refundedCredits: 0,
+      error: 'Interview refund changed concurrently; please retry',
+      errorCode: 'conflict',
+    }
+  }
+
+  const description = params.note ? `Refund (${params.reason}): ${params.note}` : `Refund (${params.reason})`
+  const result = await refundCredits(
+    {
+      companyId: interview.company_id,
+      amount,
+      referenceId: params.interviewId,
+      referenceType: 'interview',
+      description,
+      userId: params.userId,
+    },
+    supabase
+  )
+
+  if (!result.success) {
+    await supabase
+      .from('interviews')
+      .update({ credits_refunded: alreadyRefunded })
+      .eq('id', params.interviewId)
+      .eq('credits_refunded', alreadyRefunded + amount)
+    return { success: false, refundedCredits: 0, error: result.error, errorCode: 'failed' }
+  }
+
+  log.info('Refunded interview credits', { interviewId: params.interviewId, credits: amount, reason: params.reason })
+  return { success: true, refundedCredits: amount, newBalance: result.newBalance }
+}
+
+function hasCandidateSpeech(transcript: unknown): boolean {
+  if (!Array.isArray(transcript)) return false
+
+  return transcript.some((entry) => {
+    if (!entry || typeof entry !== 'object') return false
+    const record = entry as Record<string, unknown>
+    if (typeof record.answer === 'string') return record.answer.trim().length > 0
+    return record.speaker === 'candidate' && typeof record.text === 'string' && record.text.trim().length > 0
+  })
+}
+
+/**
+ * Refund rules for interviews that ended without producing anything for the customer. Safe to call
+ * more than once: only credits not yet refunded are returned.
+ */
+export async function applyAutomaticRefundRules(
+  interview: { id: string; transcript: unknown },
+  supabase: SupabaseClient
+): Promise<InterviewRefundResult | null> {
+  if (hasCandidateSpeech(interview.transcript)) return null
+
+  const result = await refundInterviewCredits({ interviewId: interview.id, reason: 'no_candidate_speech' }, supabase)
+  return result.success ? result : null
+}
+
+/** Refund rule for an analysis that used up its retries: the customer never gets a report. */
+export async function refundFailedAnalysis(
+  interviewId: string,
+  supabase: SupabaseClient
+): Promise<InterviewRefundResult | null> {
+  const result = await refundInterviewCredits({ interviewId, reason: 'analysis_failed' }, supabase)
+  return result.success ? result : null
+}
+
+export type RefundInterviewCreditsResponse =
+  | { status: 200; body: { success: true; refundedCredits: number; newBalance: number | null } }
+  | { status: 400 | 404 | 409 | 500; body: { error: string } }
+
+export async function handleRefundInterviewCredits(
+  interviewId: string,
+  body: unknown
+): Promise<RefundInterviewCreditsResponse> {
+  const record = body && typeof body === 'object' && !Array.isArray(body) ? (body as Record<string, unknown>) : null
+  if (!interviewId || !record) {
+    return { status: 400, body: { error: 'Missing interview ID or request body' } }
+  }
+
+  if (!isRefundReason(record.reason)) {
+    return { status: 400, body: { error: `reason must be one of: ${REFUND_REASONS.join(', ')}` } }
+  }
+
+  const amount = record.amount === undefined ? undefined : Number(record.amount)
+  if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+    return { status: 400, body: { error: 'amount must be a positive integer' } }
+  }
+
+  try {
+    const result = await refundInterviewCredits(
+      {
+        interviewId,
+        reason: record.reason,
+        amount,
+        note: typeof record.note === 'string' ? record.note.trim().slice(0, 500) || undefined : undefined,
+        userId: typeof record.userId === 'string' ? record.userId : undefined,
+      },
+      createAdminClient()
+    )
+
+    if (!result.success) {
+      const error = result.error || 'Refund failed'
+      if (result.errorCode === 'not_found') return { status: 404, body: { error } }
+      if (result.errorCode === 'nothing_to_refund' || result.errorCode === 'conflict') return { status: 409, body: { error } }
+      return { status: 500, body: { error } }
+    }
+
+    return {
+      status: 200,
+      body: { success: true, refundedCredits: result.refundedCredits, newBalance: result.newBalance ?? null },
+    }
+  } catch (error) {
+    log.error('Error refunding interview credits', { interviewId, err: error })
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return { status: 500, body: { error: message } }
+  }
+}
@@ -0,0 +1,117 @@
+import { getAppPublicUrl } from '../config'
+import { getMailerSenderEmail, sendMail } from './transporter'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Email' })
+
+export type CreditAlertLevel = 'low' | 'critical' | 'exhausted'
+
+export interface SendCreditAlertParams {
+  to: string
+  companyName: string
+  level: CreditAlertLevel
+  balance: number
+  locale: string
+}
+
+const CONTENT = {
+  en: {
+    subject: {
+      low: 'Your Foundire credits are running low',
+      critical: 'Your Foundire credits are almost used up',
+      exhausted: 'Your Foundire credits are used up',
+    },
+    body: {
+      low: 'Your company {companyName} has {balance} credits left.',
+      critical: 'Your company {companyName} has only {balance} credits left. Interviews in progress will end when credits run out.',
+      exhausted: 'Your company {companyName} has no credits left. New interviews cannot start and interviews in progress have been ended.',
+    },
+    action: 'Top up credits',
+    reason: 'You received this email because your notification preference includes credit balance alerts.',
+    managePreferences: 'Manage your email preferences in',
+    settingsLink: 'Settings',
+  },
+  zh: {
+    subject: {
+      low: 'Foundire credits 余额不足',
+      critical: 'Foundire credits 即将用完',
+      exhausted: 'Foundire credits 已用完',
+    },
+    body: {
+      low: '{companyName} 当前剩余 {balance} credits。',
+      critical: '{companyName} 当前仅剩 {balance} credits，余额用完后进行中的面试会自动结束。',
+      exhausted: '{companyName} 的 credits 已用完，新面试无法开始，进行中的面试已结束。',
+    },
+    action: '充值 credits',
+    reason: '你收到这封邮件是因为你开启了“credits 余额提醒”通知。',
+    managePreferences: '你可以在以下位置管理邮件偏好：',
+    settingsLink: '设置',
+  },
+} as const
+
+export async function sendCreditAlertEmail({ to, companyName, level, balance, locale }: SendCreditAlertParams) {
+  const c = locale.startsWith('zh') ? CONTENT.zh : CONTENT.en
+  const baseUrl = getAppPublicUrl()
+  const billingUrl = `${baseUrl}/settings/billing`
+  const settingsUrl = `${baseUrl}/settings`
+  const message = c.body[level].replace('{companyName}', companyName).replace('{balance}', String(balance))
+  const accent = level === 'low' ? '#f59e0b' : '#ef4444'
+
+  const html = `
+    <div style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; max-width: 600px; margin: 0 auto; background-color: #ffffff;">
+      <div style="background: linear-gradient(135deg, #1E2E57 0%, #0A0E27 100%); padding: 30px; text-align: center;">
+        <span style="font-size: 32px; font-weight: 700; color: #00F0FF;">Foundire</span>
+      </div>
+
+      <div style="padding: 40px 30px;">
+        <h1 style="color: #1E2E57; font-size: 22px; font-weight: 700; margin: 0 0 20px 0;">${c.subject[level]}</h1>
+
+        <div style="border-left: 4px solid ${accent}; background-color: #f9fafb; padding: 20px; margin-bottom: 25px;">
+          <p style="margin: 0; color: #1f2937; font-size: 16px; line-height: 1.7;">${message}</p>
+        </div>
+
+        <div style="margin: 30px 0; text-align: center;">
+          <a href="${billingUrl}"
+             style="background: linear-gradient(135deg, #1E2E57 0%, #0A0E27 100%); color: #00F0FF; padding: 14px 36px; text-decoration: none; border-radius: 8px; display: inline-block; font-weight: 600; border: 2px solid #00F0FF;">
+            ${c.action}
+          </a>
+        </div>
+      </div>
+
+      <div style="border-top: 1px solid #e5e7eb; padding: 20px 30px; background-color: #f9fafb;">
+        <p style="color: #6b7280; font-size: 12px; line-height: 1.6; margin: 0 0 12px 0;">${c.reason}</p>
+        <p style="color: #6b7280; font-size: 12px; margin: 0;">
+          ${c.managePreferences}
+          <a href="${settingsUrl}" style="color: #00F0FF; text-decoration: underline;">${c.settingsLink}</a>
+        </p>
+      </div>
+    </div>
+  `
+
+  const text = `
+${c.subject[level]}
+
+${message}
+
+${c.action}: ${billingUrl}
+
+---
+${c.reason}
+${c.managePreferences} ${settingsUrl}
+  `
+
+  try {
+    const info = await sendMail('credit_alert', {
+      from: `"Foundire" <${getMailerSenderEmail()}>`,
+      to,
+      subject: c.subject[level],
+      text,
+      html,
+    })
+
+    return { success: true, messageId: info.messageId }
+  } catch (error) {
+    log.error('Error sending credit alert email', { err: error })
+    throw error
+  }
+}
@@ -6,3 +6,6 @@ export type { SendInterviewerInvitationParams } from './interviewer-invitation'
 
 export { sendInterviewConfirmedEmail } from './interview-confirmed'
 export type { SendInterviewConfirmedParams } from './interview-confirmed'
+
+export { sendCreditAlertEmail } from './credit-alert'
+export type { CreditAlertLevel, SendCreditAlertParams } from './credit-alert'
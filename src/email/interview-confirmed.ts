@@ -1,4 +1,4 @@
-import { getMailerSenderEmail, getTransporter } from './transporter'
+import { getMailerSenderEmail, sendMail } from './transporter'
 
 export interface SendInterviewConfirmedParams {
   to: string
@@ -223,7 +223,7 @@ ${t.hiringTeam}
   `
 
   try {
-    const info = await getTransporter().sendMail({
+    const info = await sendMail('interview_confirmed', {
       from: `"${companyName} via Foundire" <${getMailerSenderEmail()}>`,
       to,
       subject: t.subject,
@@ -231,7 +231,6 @@ ${t.hiringTeam}
       html,
     })
 
-    console.log('Interview confirmed email sent:', info.messageId)
     return { success: true, messageId: info.messageId }
   } catch (error) {
     console.error('Error sending interview confirmed email:', error)
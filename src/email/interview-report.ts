@@ -1,4 +1,5 @@
-import { getMailerSenderEmail, getTransporter } from './transporter'
+import { queueMail } from '../workers/email'
+import { getMailerSenderEmail } from './transporter'
 import { getMessages, getUnsubscribeFooter, t } from './messages'
 
 export interface SendInterviewReportParams {
@@ -150,13 +151,16 @@ ${emailT.footer}
 ${getUnsubscribeFooter(messages).text}
   `
 
-  const info = await getTransporter().sendMail({
-    from: `"Foundire" <${getMailerSenderEmail()}>`,
-    to,
-    subject,
-    text,
-    html,
+  const { buffered } = await queueMail({
+    kind: 'interview_report',
+    mail: {
+      from: `"Foundire" <${getMailerSenderEmail()}>`,
+      to,
+      subject,
+      text,
+      html,
+    },
   })
 
-  return { success: true, messageId: info.messageId }
+  return { success: true, buffered }
 }
@@ -1,4 +1,5 @@
-import { getMailerSenderEmail, getTransporter } from './transporter'
+import { queueMail } from '../workers/email'
+import { getMailerSenderEmail } from './transporter'
 
 export interface SendInterviewerInvitationParams {
   to: string
@@ -194,13 +195,16 @@ ${t.regards}
 ${t.team}
   `
 
-  const info = await getTransporter().sendMail({
-    from: `"Foundire" <${getMailerSenderEmail()}>`,
-    to,
-    subject: t.subject,
-    text,
-    html,
+  const { buffered } = await queueMail({
+    kind: 'interviewer_invitation',
+    mail: {
+      from: `"Foundire" <${getMailerSenderEmail()}>`,
+      to,
+      subject: t.subject,
+      text,
+      html,
+    },
   })
 
-  return { success: true, messageId: info.messageId }
+  return { success: true, buffered }
 }
@@ -1,4 +1,9 @@
 import nodemailer from 'nodemailer'
+import type Mail from 'nodemailer/lib/mailer'
+import { emailsTotal } from '../metrics'
+import { createLogger, serializeError } from '../utils/logger'
+
+const log = createLogger({ component: 'Email' })
 
 let cachedTransporter: nodemailer.Transporter | null = null
 
@@ -46,3 +51,29 @@ export function getMailerSenderEmail(): string {
   return sender
 }
 
+
+function recipientDomains(to: Mail.Options['to']): string[] {
+  const list = Array.isArray(to) ? to : to ? [to] : []
+  return list.map((entry) => {
+    const address = typeof entry === 'string' ? entry : entry.address
+    return address.split('@').pop()?.replace(/>$/, '') ?? ''
+  })
+}
+
+/**
+ * Sends through the shared transporter and logs the outcome with the current request/interview
+ * context. Only recipient domains are logged, never full addresses.
+ */
+export async function sendMail(kind: string, options: Mail.Options): Promise<{ messageId: string }> {
+  const fields = { emailKind: kind, recipientDomains: recipientDomains(options.to) }
+  try {
+    const info = (await getTransporter().sendMail(options)) as { messageId: string }
+    log.info('Email sent', { ...fields, emailMessageId: info.messageId })
+    emailsTotal.inc({ kind, outcome: 'success' })
+    return info
+  } catch (error) {
+    log.error('Email send failed', { ...fields, err: serializeError(error) })
+    emailsTotal.inc({ kind, outcome: 'failure' })
+    throw error
+  }
+}
@@ -1,20 +1,24 @@
 import 'dotenv/config'
+import type http from 'node:http'
+import { installConsoleBridge, logger } from './utils/logger'
 import { startHttpServer } from './server'
-import { startInterviewAnalyzeWorker } from './workers/interview-analyze'
+import { registerShutdownHandlers } from './shutdown'
+import { startWorkers } from './workers'
+import { startScheduler } from './scheduler'
 
-async function main() {
-  const port = Number(process.env.PORT || 3002)
-  await startHttpServer({ port })
+installConsoleBridge()
 
-  if (!process.env.RABBITMQ_URL) {
-    console.warn('RABBITMQ_URL not set: workers will not start.')
-    return
-  }
+let server: http.Server | null = null
+registerShutdownHandlers(() => server)
 
-  await startInterviewAnalyzeWorker()
+async function main() {
+  const port = Number(process.env.PORT || 3002)
+  server = await startHttpServer({ port })
+  startScheduler()
+  await startWorkers()
 }
 
 main().catch((error) => {
-  console.error('Fatal error:', error)
+  logger.error('Fatal error', { err: error })
   process.exitCode = 1
 })
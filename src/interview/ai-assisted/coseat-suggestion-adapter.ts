@@ -1,6 +1,7 @@
 import { conversationAnalyzer } from '../core/shared-analyzer'
 import { SkillTracker } from '../core/skill-tracker'
 import type { InterviewContext, AnalysisResult, ConversationMessage } from '../core/types'
+import type { LLMUsageContext } from '../../llm'
 import { formatMessage, getAiSuggestionMessages, type SupportedLocale } from './messages'
 import type { AISuggestion } from './suggestion-adapter'
 import {
@@ -17,6 +18,7 @@ export class CoseatSuggestionAdapter {
     requirements?: string
     requiredSkills: string[]
     language: SupportedLocale
+    usageContext?: LLMUsageContext
   }): Promise<AISuggestion[]> {
     const context: InterviewContext = {
       job: {
@@ -41,6 +43,7 @@ export class CoseatSuggestionAdapter {
         isScreenSharing: false,
         interviewMode: 'assisted_voice',
       },
+      usageContext: params.usageContext,
     }
 
     const analysisWindowMessages = 8
@@ -2,6 +2,7 @@ import type { SupabaseClient } from '@supabase/supabase-js'
 import { conversationAnalyzer } from '../core/shared-analyzer'
 import { SkillTracker, type SkillEvaluation } from '../core/skill-tracker'
 import type { InterviewContext, AnalysisResult, ConversationMessage } from '../core/types'
+import type { LLMUsageContext } from '../../llm'
 import { formatMessage, getAiSuggestionMessages, type SupportedLocale } from './messages'
 import {
   normalizeFollowUpQuestions,
@@ -93,6 +94,7 @@ export class AISuggestionAdapter {
     language: SupportedLocale
     candidateName?: string
     candidateResumeText?: string
+    usageContext?: LLMUsageContext
   }): Promise<AISuggestion[]> {
     await this.loadPersistedSkillState()
 
@@ -124,6 +126,7 @@ export class AISuggestionAdapter {
         isScreenSharing: false,
         interviewMode: 'assisted_video',
       },
+      usageContext: params.usageContext,
     }
 
     const analysisWindowMessages = 8
@@ -1,6 +1,6 @@
 import type { InterviewContext, AnalysisResult, FollowUpQuestion } from './types'
 import { buildAnalysisPrompt } from './prompt-builder'
-import { openai } from '../../openai/core'
+import { generateText } from '../../llm'
 
 interface RawAnalysisResponse {
   quality?: { score?: number; shouldIncreaseDifficulty?: boolean }
@@ -19,16 +19,15 @@ export class ConversationAnalyzer {
 
     const prompt = buildAnalysisPrompt(context)
 
-    const response = await openai.responses.create({
-      model: 'gpt-5.2',
+    const response = await generateText({
+      task: 'conversation_analysis',
       instructions: this.buildSystemPrompt(context.conversation.language, context.context.interviewMode),
       input: prompt + '\n\nPlease respond in JSON format.',
-      text: {
-        format: { type: 'json_object' },
-      },
+      responseFormat: 'json',
+      usageContext: context.usageContext,
     })
 
-    const content = response.output_text
+    const content = response.text
     if (!content) {
       throw new Error('No response from GPT')
     }
@@ -1,3 +1,5 @@
+import type { LLMUsageContext } from '../../llm'
+
 export interface InterviewContext {
   job: {
     title: string
@@ -34,6 +36,9 @@ export interface InterviewContext {
     isScreenSharing: boolean
     interviewMode: 'ai_qa' | 'ai_dialogue' | 'assisted_video' | 'assisted_voice'
   }
+
+  /** Attributes model usage to the underlying interview record. */
+  usageContext?: LLMUsageContext
 }
 
 export interface ConversationMessage {
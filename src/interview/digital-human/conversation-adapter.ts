@@ -2,7 +2,7 @@ import { conversationAnalyzer } from '../core/shared-analyzer'
 import { SkillTracker } from '../core/skill-tracker'
 import { buildConversationPrompt } from '../core/prompt-builder'
 import type { InterviewContext, DigitalHumanOutput, ConversationMessage, AnalysisResult } from '../core/types'
-import { openai } from '../../openai/core'
+import { generateText, type LLMMessage } from '../../llm'
 
 function asRecord(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return null
@@ -73,6 +73,7 @@ export class DigitalHumanConversationAdapter {
         isScreenSharing: params.isScreenSharing,
         interviewMode: 'ai_dialogue',
       },
+      usageContext: { interviewId: params.interviewId },
     }
 
     const analysisWindowMessages = 8
@@ -103,7 +104,7 @@ export class DigitalHumanConversationAdapter {
 
     const conversationPrompt = buildConversationPrompt(context, analysis, action)
 
-    const inputMessages = [
+    const inputMessages: LLMMessage[] = [
       ...params.conversationHistory.map((message) => ({
         role: (message.speaker === 'ai' ? 'assistant' : 'user') as 'assistant' | 'user',
         content: message.text,
@@ -111,14 +112,15 @@ export class DigitalHumanConversationAdapter {
       { role: 'user' as const, content: params.userMessage },
     ]
 
-    const response = await openai.responses.create({
-      model: 'gpt-5.2',
+    const response = await generateText({
+      task: 'conversation_turn',
       instructions: conversationPrompt,
       input: inputMessages,
-      max_output_tokens: 500,
+      maxOutputTokens: 500,
+      usageContext: context.usageContext,
     })
 
-    const aiResponse = response.output_text || "I apologize, I didn't catch that."
+    const aiResponse = response.text || "I apologize, I didn't catch that."
 
     return {
       aiResponse,
@@ -0,0 +1,145 @@
+import {
+  isConversationalTranscript,
+  type AnalysisEvidence,
+  type EvidencedClaim,
+  type InterviewTranscriptData,
+  type TranscriptCitation,
+} from '../types'
+
+type EvidenceKey = 'strengths' | 'weaknesses' | 'red_flags'
+
+// Measured after normalization; shorter spans ("yes", "I think") match almost any transcript.
+const MIN_QUOTE_LENGTH = 20
+const MAX_QUOTE_LENGTH = 300
+
+type SearchableEntry = {
+  /** Null for turns that are not the candidate's, which can never back a claim about them. */
+  normalized: string | null
+  speaker?: string
+  offsetSeconds?: number
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Speech-recognition transcripts differ from model quotes in casing, spacing and punctuation,
+// so both sides are compared with all of those stripped.
+function normalizeForMatch(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]+/gu, '')
+}
+
+function toSearchableEntries(transcript: InterviewTranscriptData): SearchableEntry[] {
+  if (isConversationalTranscript(transcript)) {
+    return transcript.map((entry) => ({
+      normalized: entry.speaker === 'candidate' ? normalizeForMatch(entry.text) : null,
+      speaker: entry.speaker,
+      offsetSeconds: typeof entry.offset_seconds === 'number' ? entry.offset_seconds : undefined,
+    }))
+  }
+
+  return transcript.map((entry) => ({
+    normalized: entry.answer ? normalizeForMatch(entry.answer) : null,
+  }))
+}
+
+function parseRawCitation(value: unknown): { entryIndex: number | null; quote: string } | null {
+  if (!isRecord(value)) return null
+  const quote = typeof value.quote === 'string' ? value.quote.trim().slice(0, MAX_QUOTE_LENGTH) : ''
+  if (!quote) return null
+
+  // The prompt numbers entries from 1 ("[#1]"); stored citations are 0-based.
+  const entry =
+    typeof value.entry === 'number'
+      ? value.entry
+      : typeof value.entry_index === 'number'
+        ? value.entry_index + 1
+        : null
+  return { entryIndex: entry !== null && Number.isInteger(entry) ? entry - 1 : null, quote }
+}
+
+function verifyCitation(
+  raw: { entryIndex: number | null; quote: string },
+  entries: SearchableEntry[]
+): TranscriptCitation | null {
+  const needle = normalizeForMatch(raw.quote)
+  if (needle.length < MIN_QUOTE_LENGTH) return null
+
+  const buildCitation = (index: number, relocated: boolean): TranscriptCitation => {
+    const entry = entries[index]
+    return {
+      entry_index: index,
+      quote: raw.quote,
+      ...(entry.speaker ? { speaker: entry.speaker } : {}),
+      ...(entry.offsetSeconds !== undefined ? { offset_seconds: entry.offsetSeconds } : {}),
+      ...(relocated ? { relocated: true } : {}),
+    }
+  }
+
+  if (raw.entryIndex !== null && raw.entryIndex >= 0 && raw.entryIndex < entries.length) {
+    if (entries[raw.entryIndex].normalized?.includes(needle)) {
+      return buildCitation(raw.entryIndex, false)
+    }
+  }
+
+  const foundIndex = entries.findIndex((entry) => entry.normalized?.includes(needle))
+  return foundIndex === -1 ? null : buildCitation(foundIndex, true)
+}
+
+function findRawEvidence(rawEvidence: Record<string, unknown>, key: EvidenceKey, claim: string, index: number): unknown[] {
+  const items = Array.isArray(rawEvidence[key]) ? (rawEvidence[key] as unknown[]) : []
+
+  const byClaim = items.find((item) => isRecord(item) && item.claim === claim)
+  const match = byClaim ?? items[index]
+  return isRecord(match) && Array.isArray(match.citations) ? match.citations : []
+}
+
+/**
+ * Checks every citation the model returned against the transcript. Citations whose quote cannot
+ * be found are dropped; a claim left without any citation is kept but marked unverified.
+ */
+export function verifyAnalysisEvidence(
+  analysis: { strengths?: unknown; weaknesses?: unknown; red_flags?: unknown; evidence?: unknown },
+  transcript: InterviewTranscriptData
+): AnalysisEvidence {
+  const entries = toSearchableEntries(transcript)
+  const rawEvidence = isRecord(analysis.evidence) ? analysis.evidence : {}
+  const stats = { total: 0, verified: 0, relocated: 0, dropped: 0 }
+
+  const buildClaims = (key: EvidenceKey): EvidencedClaim[] => {
+    const claims = Array.isArray(analysis[key])
+      ? (analysis[key] as unknown[]).filter((claim): claim is string => typeof claim === 'string')
+      : []
+
+    return claims.map((claim, index) => {
+      const citations: TranscriptCitation[] = []
+      let dropped = 0
+
+      for (const rawCitation of findRawEvidence(rawEvidence, key, claim, index)) {
+        stats.total++
+        const parsed = parseRawCitation(rawCitation)
+        const verified = parsed ? verifyCitation(parsed, entries) : null
+        if (!verified) {
+          dropped++
+          continue
+        }
+        if (verified.relocated) stats.relocated++
+        citations.push(verified)
+      }
+
+      stats.verified += citations.length
+      stats.dropped += dropped
+      return { claim, citations, verified: citations.length > 0, dropped_citations: dropped }
+    })
+  }
+
+  return {
+    strengths: buildClaims('strengths'),
+    weaknesses: buildClaims('weaknesses'),
+    red_flags: buildClaims('red_flags'),
+    citation_stats: stats,
+  }
+}
@@ -0,0 +1,175 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '../supabase/admin'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Analysis Job' })
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'skipped' | 'failed'
+
+export interface AnalysisJobRecord {
+  id: string
+  interview_id: string
+  status: AnalysisJobStatus
+  attempts: number
+  locale: string | null
+  send_email: boolean | null
+  model: string | null
+  score: number | null
+  skip_reason: string | null
+  error: string | null
+  queued_at: string
+  started_at: string | null
+  finished_at: string | null
+  duration_ms: number | null
+  next_attempt_at: string | null
+  created_at: string
+  updated_at: string | null
+}
+
+const ANALYSIS_JOBS_TABLE = 'interview_analysis_jobs'
+
+// Job bookkeeping must never block or fail an analysis, so every write here is best-effort.
+async function updateAnalysisJob(
+  analysisJobId: string,
+  update: Record<string, unknown>,
+  supabaseClient?: SupabaseClient
+): Promise<void> {
+  try {
+    const supabase = supabaseClient || createAdminClient()
+    const { error } = await supabase
+      .from(ANALYSIS_JOBS_TABLE)
+      .update({ ...update, updated_at: new Date().toISOString() })
+      .eq('id', analysisJobId)
+
+    if (error) {
+      log.warn('Failed to update analysis job', { analysisJobId, err: error })
+    }
+  } catch (error) {
+    log.warn('Unexpected error updating analysis job', { analysisJobId, err: error })
+  }
+}
+
+export async function createAnalysisJob(
+  params: { interviewId: string; locale?: string; sendEmail?: boolean },
+  supabaseClient?: SupabaseClient
+): Promise<string | null> {
+  try {
+    const supabase = supabaseClient || createAdminClient()
+    const { data, error } = await supabase
+      .from(ANALYSIS_JOBS_TABLE)
+      .insert({
+        interview_id: params.interviewId,
+        status: 'queued',
+        attempts: 0,
+        locale: params.locale ?? null,
+        send_email: params.sendEmail ?? null,
+        queued_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      log.warn('Failed to create analysis job', { interviewId: params.interviewId, err: error })
+      return null
+    }
+
+    return (data as { id: string }).id
+  } catch (error) {
+    log.warn('Unexpected error creating analysis job', { interviewId: params.interviewId, err: error })
+    return null
+  }
+}
+
+export async function markAnalysisJobRunning(
+  analysisJobId: string,
+  attempt: number,
+  supabaseClient?: SupabaseClient
+): Promise<void> {
+  await updateAnalysisJob(
+    analysisJobId,
+    {
+      status: 'running',
+      attempts: attempt,
+      started_at: new Date().toISOString(),
+      finished_at: null,
+      duration_ms: null,
+      next_attempt_at: null,
+    },
+    supabaseClient
+  )
+}
+
+export async function markAnalysisJobFinished(
+  analysisJobId: string,
+  params: {
+    status: Extract<AnalysisJobStatus, 'completed' | 'skipped' | 'failed'>
+    startedAt: number
+    model?: string | null
+    score?: number | null
+    skipReason?: string | null
+    error?: string | null
+  },
+  supabaseClient?: SupabaseClient
+): Promise<void> {
+  const finishedAt = Date.now()
+  await updateAnalysisJob(
+    analysisJobId,
+    {
+      status: params.status,
+      finished_at: new Date(finishedAt).toISOString(),
+      duration_ms: finishedAt - params.startedAt,
+      model: params.model ?? null,
+      score: params.score ?? null,
+      skip_reason: params.skipReason ?? null,
+      error: params.error ?? null,
+    },
+    supabaseClient
+  )
+}
+
+export async function markAnalysisJobRetrying(
+  analysisJobId: string,
+  delayMs: number,
+  supabaseClient?: SupabaseClient
+): Promise<void> {
+  await updateAnalysisJob(
+    analysisJobId,
+    {
+      status: 'queued',
+      next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+    },
+    supabaseClient
+  )
+}
+
+export type GetAnalysisJobsResponse =
+  | { status: 200; body: { success: true; latest: AnalysisJobRecord | null; jobs: AnalysisJobRecord[] } }
+  | { status: 400 | 500; body: { error: string } }
+
+export async function handleGetAnalysisJobs(interviewId: string): Promise<GetAnalysisJobsResponse> {
+  if (!interviewId) {
+    return { status: 400, body: { error: 'Missing interview ID' } }
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from(ANALYSIS_JOBS_TABLE)
+      .select('*')
+      .eq('interview_id', interviewId)
+      .order('created_at', { ascending: false })
+      .limit(50)
+
+    if (error) {
+      log.error('Error fetching analysis jobs', { err: error })
+      return { status: 500, body: { error: 'Failed to fetch analysis jobs' } }
+    }
+
+    const jobs = (data || []) as AnalysisJobRecord[]
+    return { status: 200, body: { success: true, latest: jobs[0] ?? null, jobs } }
+  } catch (error) {
+    log.error('Error fetching analysis jobs', { err: error })
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return { status: 500, body: { error: message } }
+  }
+}
@@ -0,0 +1,293 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '../supabase/admin'
+import { toJson } from '../supabase/json'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Analysis Versions' })
+
+export interface AnalysisVersionRecord {
+  id: string
+  interview_id: string
+  version: number
+  score: number | null
+  raw_score: number | null
+  model: string | null
+  prompt_version: string | null
+  analysis_job_id: string | null
+  ai_analysis: unknown
+  created_at: string
+}
+
+const ANALYSIS_VERSIONS_TABLE = 'interview_analysis_versions'
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function readString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value : null
+}
+
+// Each attempt re-reads the latest version, so this only runs out when many analyses race at once.
+const MAX_VERSION_ATTEMPTS = 5
+
+class MissingVersionsTableError extends Error {}
+
+async function getLatestVersionNumber(interviewId: string, supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase
+    .from(ANALYSIS_VERSIONS_TABLE)
+    .select('version')
+    .eq('interview_id', interviewId)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    if (error.code === '42P01') throw new MissingVersionsTableError(error.message)
+    throw new Error(error.message)
+  }
+
+  return (data as { version?: number } | null)?.version ?? 0
+}
+
+/** Returns false when the version number is already taken for this interview. */
+async function insertVersion(row: Record<string, unknown>, supabase: SupabaseClient): Promise<boolean> {
+  const { error } = await supabase.from(ANALYSIS_VERSIONS_TABLE).insert(row)
+  if (!error) return true
+  if (error.code === '23505') return false
+  if (error.code === '42P01') throw new MissingVersionsTableError(error.message)
+  throw new Error(error.message)
+}
+
+/**
+ * Stores a new analysis as the interview's next version and returns that number. Two analyses
+ * racing for the same number are told apart by the unique (interview_id, version) constraint; the
+ * loser re-reads and takes the next one. Analyses written before history was kept are snapshotted
+ * first as version 1 so a forced re-analysis never discards them.
+ *
+ * Returns null instead of throwing when no version could be stored (e.g. the table does not exist
+ * yet), since the analysis itself has already been paid for and should still be saved.
+ */
+export async function recordAnalysisVersion(
+  params: {
+    interviewId: string
+    existingAnalysis: unknown
+    existingScore: number | null
+    analysis: Record<string, unknown>
+    score: number
+    rawScore: number
+    model: string | null
+    promptVersion: string
+    analysisJobId?: string | null
+  },
+  supabaseClient?: SupabaseClient
+): Promise<number | null> {
+  const supabase = supabaseClient || createAdminClient()
+
+  try {
+    for (let attempt = 1; attempt <= MAX_VERSION_ATTEMPTS; attempt++) {
+      const latest = await getLatestVersionNumber(params.interviewId, supabase)
+
+      if (latest === 0 && isRecord(params.existingAnalysis)) {
+        const existing = params.existingAnalysis
+        // Whether this or a concurrent run wrote it, the next read sees version 1.
+        await insertVersion(
+          {
+            interview_id: params.interviewId,
+            version: 1,
+            score: params.existingScore ?? readNumber(existing.score),
+            raw_score: readNumber(existing.raw_score),
+            model: readString(existing.model),
+            prompt_version: readString(existing.prompt_version) ?? 'legacy',
+            ai_analysis: toJson(existing),
+          },
+          supabase
+        )
+        continue
+      }
+
+      const version = latest + 1
+      const inserted = await insertVersion(
+        {
+          interview_id: params.interviewId,
+          version,
+          score: params.score,
+          raw_score: params.rawScore,
+          model: params.model,
+          prompt_version: params.promptVersion,
+          analysis_job_id: params.analysisJobId ?? null,
+          ai_analysis: toJson({ ...params.analysis, analysis_version: version }),
+        },
+        supabase
+      )
+      if (inserted) return version
+    }
+
+    log.error('Gave up allocating a version', { interviewId: params.interviewId })
+  } catch (error) {
+    if (!(error instanceof MissingVersionsTableError)) {
+      log.error('Failed to record a version', { interviewId: params.interviewId, err: error })
+    }
+  }
+
+  return null
+}
+
+export type ListAnalysisVersionsResponse =
+  | { status: 200; body: { success: true; versions: Array<Omit<AnalysisVersionRecord, 'ai_analysis'>> } }
+  | { status: 400 | 500; body: { error: string } }
+
+export async function handleListAnalysisVersions(interviewId: string): Promise<ListAnalysisVersionsResponse> {
+  if (!interviewId) {
+    return { status: 400, body: { error: 'Missing interview ID' } }
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from(ANALYSIS_VERSIONS_TABLE)
+      .select('id, interview_id, version, score, raw_score, model, prompt_version, analysis_job_id, created_at')
+      .eq('interview_id', interviewId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      log.error('Error fetching analysis versions', { err: error })
+      return { status: 500, body: { error: 'Failed to fetch analysis versions' } }
+    }
+
+    return {
+      status: 200,
+      body: { success: true, versions: (data || []) as Array<Omit<AnalysisVersionRecord, 'ai_analysis'>> },
+    }
+  } catch (error) {
+    log.error('Error fetching analysis versions', { err: error })
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return { status: 500, body: { error: message } }
+  }
+}
+
+type ListDiff = { added: string[]; removed: string[] }
+
+function readStringList(analysis: Record<string, unknown>, key: string): string[] {
+  const value = analysis[key]
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
+
+function diffStringLists(before: string[], after: string[]): ListDiff {
+  const beforeSet = new Set(before)
+  const afterSet = new Set(after)
+  return {
+    added: after.filter((item) => !beforeSet.has(item)),
+    removed: before.filter((item) => !afterSet.has(item)),
+  }
+}
+
+function readDimensionScores(analysis: Record<string, unknown>): Record<string, number | null> {
+  const dimensions = analysis.dimension_scores
+  if (!isRecord(dimensions)) return {}
+
+  const result: Record<string, number | null> = {}
+  for (const [key, value] of Object.entries(dimensions)) {
+    result[key] = isRecord(value) ? readNumber(value.score) : null
+  }
+  return result
+}
+
+function delta(before: number | null, after: number | null): number | null {
+  return before === null || after === null ? null : after - before
+}
+
+export function diffAnalysisVersions(from: AnalysisVersionRecord, to: AnalysisVersionRecord) {
+  const fromAnalysis = isRecord(from.ai_analysis) ? from.ai_analysis : {}
+  const toAnalysis = isRecord(to.ai_analysis) ? to.ai_analysis : {}
+
+  const fromDimensions = readDimensionScores(fromAnalysis)
+  const toDimensions = readDimensionScores(toAnalysis)
+  const dimensionKeys = Array.from(new Set([...Object.keys(fromDimensions), ...Object.keys(toDimensions)]))
+
+  return {
+    from: { version: from.version, model: from.model, prompt_version: from.prompt_version, created_at: from.created_at },
+    to: { version: to.version, model: to.model, prompt_version: to.prompt_version, created_at: to.created_at },
+    score: { from: from.score, to: to.score, delta: delta(from.score, to.score) },
+    raw_score: { from: from.raw_score, to: to.raw_score, delta: delta(from.raw_score, to.raw_score) },
+    recommendation: {
+      from: readString(fromAnalysis.recommendation),
+      to: readString(toAnalysis.recommendation),
+    },
+    dimension_scores: Object.fromEntries(
+      dimensionKeys.map((key) => {
+        const before = fromDimensions[key] ?? null
+        const after = toDimensions[key] ?? null
+        return [key, { from: before, to: after, delta: delta(before, after) }]
+      })
+    ),
+    strengths: diffStringLists(readStringList(fromAnalysis, 'strengths'), readStringList(toAnalysis, 'strengths')),
+    weaknesses: diffStringLists(readStringList(fromAnalysis, 'weaknesses'), readStringList(toAnalysis, 'weaknesses')),
+    red_flags: diffStringLists(readStringList(fromAnalysis, 'red_flags'), readStringList(toAnalysis, 'red_flags')),
+    overall_assessment: {
+      from: readString(fromAnalysis.overall_assessment),
+      to: readString(toAnalysis.overall_assessment),
+    },
+  }
+}
+
+export type DiffAnalysisVersionsResponse =
+  | { status: 200; body: Record<string, unknown> }
+  | { status: 400 | 404 | 500; body: { error: string } }
+
+function parseVersion(value: string | null): number | null {
+  if (!value) return null
+  const parsed = Number(value)
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : null
+}
+
+export async function handleDiffAnalysisVersions(
+  interviewId: string,
+  params: { from: string | null; to: string | null }
+): Promise<DiffAnalysisVersionsResponse> {
+  if (!interviewId) {
+    return { status: 400, body: { error: 'Missing interview ID' } }
+  }
+
+  const requestedFrom = parseVersion(params.from)
+  const requestedTo = parseVersion(params.to)
+  if ((params.from && !requestedFrom) || (params.to && !requestedTo)) {
+    return { status: 400, body: { error: 'Versions must be positive integers' } }
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from(ANALYSIS_VERSIONS_TABLE)
+      .select('*')
+      .eq('interview_id', interviewId)
+      .order('version', { ascending: false })
+
+    if (error) {
+      log.error('Error fetching analysis versions', { err: error })
+      return { status: 500, body: { error: 'Failed to fetch analysis versions' } }
+    }
+
+    const versions = (data || []) as AnalysisVersionRecord[]
+
+    // Defaults compare the latest analysis with the one it replaced.
+    const toVersion = requestedTo ?? versions[0]?.version ?? null
+    const fromVersion = requestedFrom ?? (toVersion !== null ? versions.find((v) => v.version < toVersion)?.version : null)
+
+    const to = versions.find((v) => v.version === toVersion)
+    const from = versions.find((v) => v.version === fromVersion)
+    if (!to || !from) {
+      return { status: 404, body: { error: 'Analysis version not found' } }
+    }
+
+    return { status: 200, body: { success: true, diff: diffAnalysisVersions(from, to) } }
+  } catch (error) {
+    log.error('Error diffing analysis versions', { err: error })
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return { status: 500, body: { error: message } }
+  }
+}
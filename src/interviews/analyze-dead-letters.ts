@@ -0,0 +1,79 @@
+import {
+  getInterviewAnalyzeDeadLetter,
+  listInterviewAnalyzeDeadLetters,
+  requeueInterviewAnalyzeDeadLetter,
+} from '../workers/interview-analyze'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Interview Analyze' })
+
+const DEFAULT_LIST_LIMIT = 50
+const MAX_SCAN_LIMIT = 500
+
+export type AnalyzeDeadLettersResponse =
+  | { status: 200; body: Record<string, unknown> }
+  | { status: 400 | 404 | 500; body: { error: string; message?: string } }
+
+function parseLimit(value: string | null): number {
+  const parsed = value ? Number(value) : NaN
+  if (!Number.isInteger(parsed) || parsed <= 0) return DEFAULT_LIST_LIMIT
+  return Math.min(parsed, MAX_SCAN_LIMIT)
+}
+
+export async function handleListAnalyzeDeadLetters(limitParam: string | null): Promise<AnalyzeDeadLettersResponse> {
+  try {
+    const deadLetters = await listInterviewAnalyzeDeadLetters(parseLimit(limitParam))
+    return { status: 200, body: { success: true, count: deadLetters.length, deadLetters } }
+  } catch (error) {
+    log.error('Error listing interview analyze dead letters', { err: error })
+    return {
+      status: 500,
+      body: { error: 'Failed to list dead letters', message: error instanceof Error ? error.message : 'Unknown error' },
+    }
+  }
+}
+
+export async function handleGetAnalyzeDeadLetter(messageId: string): Promise<AnalyzeDeadLettersResponse> {
+  if (!messageId) {
+    return { status: 400, body: { error: 'Missing message ID' } }
+  }
+
+  try {
+    const deadLetter = await getInterviewAnalyzeDeadLetter(messageId, MAX_SCAN_LIMIT)
+    if (!deadLetter) {
+      return { status: 404, body: { error: 'Dead letter not found' } }
+    }
+
+    return { status: 200, body: { success: true, deadLetter } }
+  } catch (error) {
+    log.error('Error fetching interview analyze dead letter', { err: error })
+    return {
+      status: 500,
+      body: { error: 'Failed to fetch dead letter', message: error instanceof Error ? error.message : 'Unknown error' },
+    }
+  }
+}
+
+export async function handleRequeueAnalyzeDeadLetter(messageId: string): Promise<AnalyzeDeadLettersResponse> {
+  if (!messageId) {
+    return { status: 400, body: { error: 'Missing message ID' } }
+  }
+
+  try {
+    const deadLetter = await requeueInterviewAnalyzeDeadLetter(messageId, MAX_SCAN_LIMIT)
+    if (!deadLetter) {
+      return { status: 404, body: { error: 'Dead letter not found' } }
+    }
+
+    return {
+      status: 200,
+      body: { success: true, mode: 'queued', interviewId: deadLetter.payload?.interviewId ?? null, messageId },
+    }
+  } catch (error) {
+    log.error('Error requeueing interview analyze dead letter', { err: error })
+    return {
+      status: 500,
+      body: { error: 'Failed to requeue dead letter', message: error instanceof Error ? error.message : 'Unknown error' },
+    }
+  }
+}
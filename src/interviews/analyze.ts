@@ -1,7 +1,9 @@
-import { analyzeInterview } from '../openai/interview-analysis'
-import { deductCredits } from '../credits/manager'
+import { analyzeInterview, INTERVIEW_ANALYSIS_PROMPT_VERSION } from '../openai/interview-analysis'
+import { getLLMModelForTask } from '../llm'
+import { chargeAnalysisFee, loadInterviewBillingState, settleEndedInterviewCredits } from '../credits/pricing'
 import { toJson } from '../supabase/json'
 import { createAdminClient } from '../supabase/admin'
+import { addLogContext } from '../utils/logger'
 import {
   isQATranscript,
   isConversationalTranscript,
@@ -9,6 +11,10 @@ import {
   type InterviewTranscriptData,
 } from '../types'
 import { sendInterviewReport } from '../email'
+import { createAnalysisJob, markAnalysisJobFinished, markAnalysisJobRunning } from './analysis-jobs'
+import { recordAnalysisVersion } from './analysis-versions'
+import { calibrateScore, hasCustomScoring, parseScoringRubric, recommendationForScore } from './scoring-rubric'
+import { verifyAnalysisEvidence } from './analysis-citations'
 
 interface InterviewAnalyzeDetails {
   id: string
@@ -32,6 +38,7 @@ interface InterviewAnalyzeDetails {
     description: string | null
     requirements: string | null
     questions?: unknown
+    scoring_rubric?: unknown
     companies: {
       name: string
       slug: string | null
@@ -43,10 +50,13 @@ export interface InterviewAnalyzeTaskPayload {
   interviewId: string
   locale?: string
   sendEmail?: boolean
+  /** Re-analyze even if the interview already has a score; the previous analysis is kept as a version. */
+  force?: boolean
+  analysisJobId?: string
 }
 
 export type InterviewAnalyzeTaskResult =
-  | { status: 'completed'; interviewId: string; score: number }
+  | { status: 'completed'; interviewId: string; score: number; model: string | null; version: number | null }
   | { status: 'skipped'; interviewId: string; score: number; reason: 'already_analyzed' }
   | { status: 'not_found'; interviewId: string }
 
@@ -144,18 +154,12 @@ function buildFallbackAnalysis(): AIAnalysis & { score: number } {
   }
 }
 
-function calibrateInterviewScore(rawScore: number): number {
-  if (!Number.isFinite(rawScore)) return 0
-  const clamped = Math.max(0, Math.min(100, rawScore))
-  if (clamped <= 5) return Math.round(clamped)
-  const boosted = clamped * 1.12 + 6
-  return Math.max(0, Math.min(100, Math.round(boosted)))
-}
-
-export async function processInterviewAnalyzeTask({
+async function runInterviewAnalyzeTask({
   interviewId,
   locale = 'en',
   sendEmail = true,
+  force = false,
+  analysisJobId,
 }: InterviewAnalyzeTaskPayload): Promise<InterviewAnalyzeTaskResult> {
   const supabase = createAdminClient()
 
@@ -183,6 +187,7 @@ export async function processInterviewAnalyzeTask({
         description,
         requirements,
         questions,
+        scoring_rubric,
         companies (
           name,
           slug
@@ -198,8 +203,9 @@ export async function processInterviewAnalyzeTask({
 
   const interviewData = interview as unknown as InterviewAnalyzeDetails | null
   if (!interviewData) return { status: 'not_found', interviewId }
+  addLogContext({ companyId: interviewData.company_id, candidateId: interviewData.candidates?.id })
 
-  if (interviewData.ai_analysis && interviewData.score !== null && interviewData.score !== undefined) {
+  if (!force && interviewData.ai_analysis && interviewData.score !== null && interviewData.score !== undefined) {
     return { status: 'skipped', interviewId, score: interviewData.score, reason: 'already_analyzed' }
   }
 
@@ -211,13 +217,13 @@ export async function processInterviewAnalyzeTask({
 
   const isTalentApplicant =
     candidate.source === 'talent_applicant' || job.companies?.slug === 'foundire-talent'
-  const isAiDialogue = interviewData.interview_mode === 'ai_dialogue' || interviewData.interview_mode === 'ai_qa'
-  const isFreeInterview = isAiDialogue || isTalentApplicant
 
   const transcript = parseTranscript(interviewData.transcript)
 
   const presetQuestionExpectations = extractPresetQuestionExpectations(job.questions)
+  const rubric = parseScoringRubric(job.scoring_rubric)
 
+  const model = transcript.length === 0 ? null : getLLMModelForTask('interview_analysis')
   const analysis = transcript.length === 0
     ? buildFallbackAnalysis()
     : await analyzeInterview(
@@ -225,21 +231,53 @@ export async function processInterviewAnalyzeTask({
       job.requirements || '',
       transcript,
       locale,
-      presetQuestionExpectations
+      presetQuestionExpectations,
+      rubric.dimensions,
+      { interviewId, companyId: interviewData.company_id }
     )
 
   const rawScore = typeof analysis.score === 'number' ? analysis.score : 0
-  const calibratedScore = calibrateInterviewScore(rawScore)
+  const calibratedScore = calibrateScore(rawScore, rubric.calibration)
   const analysisPayload = {
     ...analysis,
+    evidence: verifyAnalysisEvidence(analysis, transcript),
     raw_score: rawScore,
     score: calibratedScore,
+    // A custom rubric or calibration can move the score into another band than the model judged;
+    // otherwise the model's recommendation (and the empty-transcript fallback's) stands.
+    recommendation:
+      transcript.length > 0 && hasCustomScoring(rubric) ? recommendationForScore(calibratedScore) : analysis.recommendation,
+    model,
+    prompt_version: INTERVIEW_ANALYSIS_PROMPT_VERSION,
+    rubric: {
+      id: rubric.id,
+      name: rubric.name,
+      dimensions: rubric.dimensions?.map(({ key, label, weight }) => ({ key, label, weight })) ?? null,
+      calibration: rubric.calibration,
+    },
+    analyzed_at: new Date().toISOString(),
   }
 
+  // Recorded first so the saved analysis carries the version number it was stored under.
+  const version = await recordAnalysisVersion(
+    {
+      interviewId,
+      existingAnalysis: interviewData.ai_analysis,
+      existingScore: interviewData.score,
+      analysis: analysisPayload,
+      score: calibratedScore,
+      rawScore,
+      model,
+      promptVersion: INTERVIEW_ANALYSIS_PROMPT_VERSION,
+      analysisJobId,
+    },
+    supabase
+  )
+
   const interviewUpdate = {
     status: 'completed',
     score: calibratedScore,
-    ai_analysis: toJson(analysisPayload),
+    ai_analysis: toJson(version === null ? analysisPayload : { ...analysisPayload, analysis_version: version }),
     ...(interviewData.completed_at ? {} : { completed_at: new Date().toISOString() }),
   }
 
@@ -260,52 +298,21 @@ export async function processInterviewAnalyzeTask({
       if (error) console.error('Error updating candidate status:', error)
     })
 
-  // Final credit deduction
-  if (!isFreeInterview) {
-    try {
-      const { data: interviewRecord } = await supabase
-        .from('interviews')
-        .select('started_at, credits_deducted, completed_at')
-        .eq('id', interviewId)
-        .single()
+  // Bill the final minutes and return whatever part of the start-time hold the interview did not use.
+  try {
+    await settleEndedInterviewCredits(interviewId, supabase, 'Interview completed', { isTalentApplicant })
+  } catch (settleError) {
+    console.error('Error settling interview credits:', settleError)
+  }
 
-      const record = interviewRecord as unknown as { started_at: string | null; credits_deducted: number | null; completed_at: string | null } | null
-      if (record?.started_at) {
-        const startedAt = new Date(record.started_at)
-        const completedAtStr = record.completed_at || (interviewUpdate as { completed_at?: string }).completed_at
-
-        if (completedAtStr) {
-          const completedAt = new Date(completedAtStr)
-          if (completedAt > startedAt) {
-            const totalMinutes = Math.ceil((completedAt.getTime() - startedAt.getTime()) / 1000 / 60)
-            const alreadyDeducted = record.credits_deducted || 0
-            const remaining = totalMinutes - alreadyDeducted
-
-            if (remaining > 0) {
-              const deductResult = await deductCredits(
-                {
-                  companyId: interviewData.company_id,
-                  amount: remaining,
-                  type: 'interview_minute',
-                  referenceId: interviewId,
-                  referenceType: 'interview',
-                  description: `Interview completed: final ${remaining} minute(s)`,
-                },
-                supabase
-              )
-
-              if (deductResult.success) {
-                await supabase
-                  .from('interviews')
-                  .update({ credits_deducted: totalMinutes })
-                  .eq('id', interviewId)
-              }
-            }
-          }
-        }
+  if (transcript.length > 0) {
+    try {
+      const billing = await loadInterviewBillingState(interviewId, supabase, { isTalentApplicant })
+      if (billing) {
+        await chargeAnalysisFee(interviewId, billing.pricing, billing.companyId, supabase)
       }
-    } catch (creditError) {
-      console.error('Error processing final credits:', creditError)
+    } catch (feeError) {
+      console.error('Error charging analysis fee:', feeError)
     }
   }
 
@@ -376,5 +383,56 @@ export async function processInterviewAnalyzeTask({
     }
   }
 
-  return { status: 'completed', interviewId, score: analysis.score }
+  return { status: 'completed', interviewId, score: calibratedScore, model, version }
+}
+
+/** `attempt` counts the earlier failed runs of this analysis. */
+export async function processInterviewAnalyzeTask(
+  payload: InterviewAnalyzeTaskPayload,
+  { attempt = 0 }: { attempt?: number } = {}
+): Promise<InterviewAnalyzeTaskResult> {
+  const analysisJobId =
+    payload.analysisJobId ??
+    (await createAnalysisJob({ interviewId: payload.interviewId, locale: payload.locale, sendEmail: payload.sendEmail }))
+  const startedAt = Date.now()
+
+  if (analysisJobId) {
+    await markAnalysisJobRunning(analysisJobId, attempt + 1)
+  }
+
+  let result: InterviewAnalyzeTaskResult
+  try {
+    result = await runInterviewAnalyzeTask({ ...payload, analysisJobId: analysisJobId ?? undefined })
+  } catch (error) {
+    if (analysisJobId) {
+      await markAnalysisJobFinished(analysisJobId, {
+        status: 'failed',
+        startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+    throw error
+  }
+
+  if (analysisJobId) {
+    if (result.status === 'completed') {
+      await markAnalysisJobFinished(analysisJobId, {
+        status: 'completed',
+        startedAt,
+        model: result.model,
+        score: result.score,
+      })
+    } else if (result.status === 'skipped') {
+      await markAnalysisJobFinished(analysisJobId, {
+        status: 'skipped',
+        startedAt,
+        score: result.score,
+        skipReason: result.reason,
+      })
+    } else {
+      await markAnalysisJobFinished(analysisJobId, { status: 'failed', startedAt, error: 'Interview not found' })
+    }
+  }
+
+  return result
 }
@@ -1,6 +1,8 @@
 import { createAdminClient } from '../supabase/admin'
 import { toJson } from '../supabase/json'
-import { deductCredits } from '../credits/manager'
+import { settleCreditReservation } from '../credits/manager'
+import { billInterviewMinutes, loadInterviewBillingState } from '../credits/pricing'
+import { applyAutomaticRefundRules } from '../credits/refunds'
 import { deleteRoomForRegion } from '../livekit/rooms'
 import type { LiveKitRegion } from '../livekit/geo-routing'
 
@@ -22,6 +24,7 @@ type InterviewRow = {
   interview_mode: string | null
   livekit_room_name: string | null
   livekit_region?: unknown
+  transcript?: unknown
 }
 
 export async function handleCleanupStandardInterviews(): Promise<CleanupStandardInterviewsResponse> {
@@ -35,7 +38,7 @@ export async function handleCleanupStandardInterviews(): Promise<CleanupStandard
     ;({ data: abandonedInterviews, error: fetchError } = await supabase
       .from('interviews')
       .select(
-        'id, company_id, candidate_id, started_at, last_active_at, credits_deducted, interview_mode, livekit_room_name, livekit_region'
+        'id, company_id, candidate_id, started_at, last_active_at, credits_deducted, interview_mode, livekit_room_name, livekit_region, transcript'
       )
       .eq('status', 'in-progress')
       .or(`last_active_at.lt.${fiveMinutesAgo},last_active_at.is.null`))
@@ -43,7 +46,7 @@ export async function handleCleanupStandardInterviews(): Promise<CleanupStandard
     if (fetchError?.code === '42703') {
       ;({ data: abandonedInterviews, error: fetchError } = await supabase
         .from('interviews')
-        .select('id, company_id, candidate_id, started_at, last_active_at, credits_deducted, interview_mode, livekit_room_name')
+        .select('id, company_id, candidate_id, started_at, last_active_at, credits_deducted, interview_mode, livekit_room_name, transcript')
         .eq('status', 'in-progress')
         .or(`last_active_at.lt.${fiveMinutesAgo},last_active_at.is.null`))
     }
@@ -102,24 +105,18 @@ export async function handleCleanupStandardInterviews(): Promise<CleanupStandard
         const isTalentApplicant = interview.candidate_id
           ? candidateSourceMap.get(interview.candidate_id) === 'talent_applicant' || companySlug === 'foundire-talent'
           : companySlug === 'foundire-talent'
-        const isAiDialogue = interview.interview_mode === 'ai_dialogue' || interview.interview_mode === 'ai_qa'
-        const isFreeInterview = isAiDialogue || isTalentApplicant
+        const billing = await loadInterviewBillingState(interview.id, supabase, { isTalentApplicant })
         const startedAt = interview.started_at ? new Date(interview.started_at) : null
         const completedAt = interview.last_active_at ? new Date(interview.last_active_at) : new Date()
 
         const alreadyDeducted = interview.credits_deducted || 0
-        let totalMinutes = alreadyDeducted
+        const alreadyBilledMinutes = billing?.minutesBilled ?? alreadyDeducted
+        let totalMinutes = alreadyBilledMinutes
 
         if (startedAt && completedAt > startedAt) {
           totalMinutes = Math.ceil((completedAt.getTime() - startedAt.getTime()) / 1000 / 60)
         }
 
-        if (startedAt && startedAt > completedAt) {
-          totalMinutes = alreadyDeducted
-        }
-
-        const remainingCredits = Math.max(0, totalMinutes - alreadyDeducted)
-
         const aiAnalysisJson = toJson({
           score: 0,
           summary: 'Interview was abandoned or disconnected before completion.',
@@ -154,28 +151,17 @@ export async function handleCleanupStandardInterviews(): Promise<CleanupStandard
             })
         }
 
-        let creditDeductionResult: { success: boolean; newBalance: number } | null = null
-        const creditsToDeduct = isFreeInterview ? 0 : remainingCredits
-        if (creditsToDeduct > 0) {
-          creditDeductionResult = await deductCredits(
-            {
-              companyId: interview.company_id,
-              amount: creditsToDeduct,
-              type: 'interview_minute',
-              referenceId: interview.id,
-              referenceType: 'interview',
-              description: `Interview abandoned: final ${creditsToDeduct} minute(s)`,
-            },
-            supabase
-          )
-
-          if (creditDeductionResult.success) {
-            await supabase
-              .from('interviews')
-              .update({ credits_deducted: totalMinutes })
-              .eq('id', interview.id)
-          }
-        }
+        const creditDeductionResult = billing
+          ? await billInterviewMinutes(
+              { interviewId: interview.id, throughMinutes: totalMinutes, descriptionPrefix: 'Interview abandoned', state: billing },
+              supabase
+            )
+          : null
+
+        // Abandoned interviews are never analyzed, so the start-time hold is closed here.
+        await settleCreditReservation(interview.id, supabase)
+
+        const refund = !billing || billing.pricing.free ? null : await applyAutomaticRefundRules({ id: interview.id, transcript: interview.transcript }, supabase)
 
         let roomDeleted = false
         if (interview.livekit_room_name) {
@@ -199,9 +185,10 @@ export async function handleCleanupStandardInterviews(): Promise<CleanupStandard
           success: true,
           totalMinutes,
           alreadyDeducted,
-          creditsDeducted: creditsToDeduct,
-          creditDeductionSuccess: creditDeductionResult?.success ?? true,
-          newBalance: creditDeductionResult?.newBalance ?? 0,
+          creditsDeducted: creditDeductionResult?.creditsCharged ?? 0,
+          creditDeductionSuccess: creditDeductionResult?.success ?? false,
+          newBalance: refund?.newBalance ?? creditDeductionResult?.newBalance ?? 0,
+          refundedCredits: refund?.refundedCredits ?? 0,
           roomDeleted,
         })
       } catch (error) {
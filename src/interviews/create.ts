@@ -1,5 +1,7 @@
 import { createAdminClient } from '../supabase/admin'
+import { enforceBudgetCaps } from '../credits/budgets'
 import { INTERVIEW_MODES, normalizeInterviewMode } from '../interview/modes'
+import { addLogContext } from '../utils/logger'
 import {
   DEFAULT_INTERVIEW_DURATION_MINUTES,
   isAllowedInterviewDurationMinutes,
@@ -7,7 +9,7 @@ import {
 
 export type CreateInterviewResponse =
   | { status: 200; body: Record<string, unknown> }
-  | { status: 400 | 404 | 409 | 500; body: { error: string; [key: string]: unknown } }
+  | { status: 400 | 402 | 404 | 409 | 500; body: { error: string; [key: string]: unknown } }
 
 const MAX_APPLICANT_INTERVIEW_ATTEMPTS = 3
 
@@ -47,6 +49,7 @@ export async function handleCreateInterview(body: unknown): Promise<CreateInterv
       interview_mode?: string | null
       source?: string | null
     }
+    addLogContext({ companyId: candidateData.company_id })
 
     const { data: latestInterview } = await supabase
       .from('interviews')
@@ -220,6 +223,21 @@ export async function handleCreateInterview(body: unknown): Promise<CreateInterv
 
     const recordingEnabled = interviewCodeData?.recording_enabled ?? true
 
+    const budgetError = await enforceBudgetCaps(
+      {
+        companyId: candidateData.company_id,
+        jobId,
+        interviewMode: finalInterviewMode,
+        durationMinutes: interviewDuration,
+        recordingEnabled,
+        candidateId,
+      },
+      supabase
+    )
+    if (budgetError) {
+      return { status: 402, body: budgetError }
+    }
+
     const now = new Date().toISOString()
     const interviewInsert = {
       candidate_id: candidateId,
@@ -244,6 +262,8 @@ export async function handleCreateInterview(body: unknown): Promise<CreateInterv
       return { status: 500, body: { error: 'Failed to create interview' } }
     }
 
+    addLogContext({ interviewId: (interview as { id: string }).id })
+
     await supabase
       .from('candidates')
       .update({ status: 'interviewing' })
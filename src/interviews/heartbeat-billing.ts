@@ -1,5 +1,7 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
-import { deductCredits } from '../credits/manager'
+import { isInterviewOverBudget } from '../credits/budgets'
+import { classifyCreditBalance, notifyCreditBalance } from '../credits/notifications'
+import { billInterviewMinutes, settleEndedInterviewCredits } from '../credits/pricing'
 import { deleteRoomForRegion } from '../livekit/rooms'
 import type { LiveKitRegion } from '../livekit/geo-routing'
 
@@ -7,7 +9,6 @@ export interface HeartbeatBillingParams {
   interviewId: string
   companyId: string
   startedAt: Date | null
-  creditsDeducted: number
   supabase: SupabaseClient
   maxDeductPerCall?: number
   descriptionPrefix?: string
@@ -18,6 +19,8 @@ export interface HeartbeatBillingResult {
   newBalance: number
   minutesElapsed: number
   creditWarning: 'low' | 'critical' | 'exhausted' | null
+  /** Set when the interview's job or interviewer has used up its monthly budget cap. */
+  budgetExceeded?: { scope: 'job' | 'interviewer'; scopeId: string; limit: number; spent: number }
   success: boolean
   error?: string
 }
@@ -34,86 +37,52 @@ export interface HeartbeatBillingWithAutoEndParams extends HeartbeatBillingParam
 
 export interface HeartbeatBillingWithAutoEndResult extends HeartbeatBillingResult {
   autoEnded: boolean
-  autoEndReason?: 'credits_exhausted' | 'duration_exceeded'
+  autoEndReason?: 'credits_exhausted' | 'duration_exceeded' | 'budget_exceeded'
 }
 
 export async function processHeartbeatBilling({
   interviewId,
   companyId,
   startedAt,
-  creditsDeducted: alreadyDeducted,
   supabase,
   maxDeductPerCall = 5,
   descriptionPrefix = 'Interview',
 }: HeartbeatBillingParams): Promise<HeartbeatBillingResult> {
   const now = new Date()
   let creditsDeducted = 0
-  let newBalance = 0
+  let newBalance: number | null = null
   let creditWarning: 'low' | 'critical' | 'exhausted' | null = null
   let minutesElapsed = 0
+  let free = false
 
   if (startedAt) {
     minutesElapsed = Math.ceil((now.getTime() - startedAt.getTime()) / 1000 / 60)
 
-    const shouldBeDeducted = minutesElapsed
-    const needsToDeduct = shouldBeDeducted - alreadyDeducted
-    const safeNeedsToDeduct = Math.min(Math.max(needsToDeduct, 0), maxDeductPerCall)
-
-    if (safeNeedsToDeduct !== needsToDeduct && needsToDeduct > 0) {
-      console.warn(
-        `⚠️ Large credit deduction detected (${needsToDeduct} minutes), limiting to ${safeNeedsToDeduct}. Interview ID: ${interviewId}`
-      )
-    }
-
-    if (safeNeedsToDeduct > 0) {
-      const deductResult = await deductCredits(
-        {
-          companyId,
-          amount: safeNeedsToDeduct,
-          type: 'interview_minute',
-          referenceId: interviewId,
-          referenceType: 'interview',
-          description: `${descriptionPrefix}: minutes ${alreadyDeducted + 1}-${alreadyDeducted + safeNeedsToDeduct}`,
-        },
-        supabase
-      )
-
-      if (deductResult.success) {
-        creditsDeducted = safeNeedsToDeduct
-        newBalance = deductResult.newBalance
+    const billing = await billInterviewMinutes(
+      { interviewId, throughMinutes: minutesElapsed, maxMinutes: maxDeductPerCall, descriptionPrefix },
+      supabase
+    )
 
-        await supabase
-          .from('interviews')
-          .update({
-            credits_deducted: alreadyDeducted + safeNeedsToDeduct,
-            last_active_at: now.toISOString(),
-          })
-          .eq('id', interviewId)
-      } else {
-        console.error('❌ Failed to deduct credits:', deductResult.error)
-        newBalance = deductResult.newBalance
-        creditWarning = 'exhausted'
-
-        await supabase
-          .from('interviews')
-          .update({ last_active_at: now.toISOString() })
-          .eq('id', interviewId)
-      }
+    if (billing.success) {
+      free = billing.free
+      creditsDeducted = billing.creditsCharged
+      newBalance = billing.newBalance
+    } else if (billing.reason === 'insufficient_credits') {
+      // Ends the interview; the balance is read again below so alerts reflect what the company has.
+      console.error('Failed to deduct credits:', billing.error)
+      creditWarning = 'exhausted'
     } else {
-      await supabase
-        .from('interviews')
-        .update({ last_active_at: now.toISOString() })
-        .eq('id', interviewId)
+      // Contention or a database hiccup: the minutes stay unbilled and the next heartbeat bills them.
+      console.warn('Skipping billing for this heartbeat:', billing.error)
+    }
+  }
 
-      const { data: company } = await supabase
-        .from('companies')
-        .select('credits_remaining')
-        .eq('id', companyId)
-        .single()
+  await supabase
+    .from('interviews')
+    .update({ last_active_at: now.toISOString() })
+    .eq('id', interviewId)
 
-      newBalance = (company as { credits_remaining: number | null } | null)?.credits_remaining ?? 0
-    }
-  } else {
+  if (newBalance === null) {
     const { data: company } = await supabase
       .from('companies')
       .select('credits_remaining')
@@ -123,13 +92,26 @@ export async function processHeartbeatBilling({
     newBalance = (company as { credits_remaining: number | null } | null)?.credits_remaining ?? 0
   }
 
-  if (!creditWarning) {
-    if (newBalance <= 0) {
-      creditWarning = 'exhausted'
-    } else if (newBalance <= 5) {
-      creditWarning = 'critical'
-    } else if (newBalance <= 10) {
-      creditWarning = 'low'
+  // Free interviews never run out of credits, whatever the company balance is.
+  if (!free) {
+    const balanceLevel = classifyCreditBalance(newBalance)
+    creditWarning ??= balanceLevel
+
+    // Alert emails must never slow down or fail the heartbeat.
+    void notifyCreditBalance(companyId, newBalance, supabase, balanceLevel).catch((error) => {
+      console.error('Failed to send credit balance notification:', error)
+    })
+  }
+
+  let budgetExceeded: HeartbeatBillingResult['budgetExceeded']
+  if (!free && creditsDeducted > 0) {
+    try {
+      const budget = await isInterviewOverBudget(interviewId, supabase, creditsDeducted)
+      if (!budget.allowed) {
+        budgetExceeded = { scope: budget.scope, scopeId: budget.scopeId, limit: budget.limit, spent: budget.spent }
+      }
+    } catch (error) {
+      console.error('Failed to check budget caps:', error)
     }
   }
 
@@ -138,6 +120,7 @@ export async function processHeartbeatBilling({
     newBalance,
     minutesElapsed,
     creditWarning,
+    ...(budgetExceeded ? { budgetExceeded } : {}),
     success: true,
   }
 }
@@ -159,7 +142,7 @@ export async function handleInterviewAutoEnd({
   statusFieldName?: string
   candidateId?: string
   supabase: SupabaseClient
-  reason: 'credits_exhausted' | 'duration_exceeded'
+  reason: 'credits_exhausted' | 'duration_exceeded' | 'budget_exceeded'
   livekitRoomName?: string
   livekitRegion?: LiveKitRegion | null
 }): Promise<{ autoEnded: boolean }> {
@@ -187,6 +170,12 @@ export async function handleInterviewAutoEnd({
       .eq('id', candidateId)
   }
 
+  try {
+    await settleEndedInterviewCredits(interviewId, supabase, 'Interview auto-ended')
+  } catch (error) {
+    console.error(`Failed to settle credits for auto-ended interview ${interviewId}:`, error)
+  }
+
   if (livekitRoomName) {
     try {
       const region = livekitRegion === 'self-hosted' || livekitRegion === 'cloud' ? livekitRegion : null
@@ -200,7 +189,7 @@ export async function handleInterviewAutoEnd({
         }
       }
     } catch (error) {
-      console.error(`❌ Failed to delete LiveKit room ${livekitRoomName}:`, error)
+      console.error(`Failed to delete LiveKit room ${livekitRoomName}:`, error)
     }
   }
 
@@ -211,7 +200,6 @@ export async function processHeartbeatBillingWithAutoEnd({
   interviewId,
   companyId,
   startedAt,
-  creditsDeducted,
   supabase,
   maxDeductPerCall,
   descriptionPrefix,
@@ -227,7 +215,6 @@ export async function processHeartbeatBillingWithAutoEnd({
     interviewId,
     companyId,
     startedAt,
-    creditsDeducted,
     supabase,
     maxDeductPerCall,
     descriptionPrefix,
@@ -268,5 +255,21 @@ export async function processHeartbeatBillingWithAutoEnd({
     return { ...billingResult, autoEnded: true, autoEndReason: 'credits_exhausted' }
   }
 
+  if (billingResult.budgetExceeded) {
+    await handleInterviewAutoEnd({
+      interviewId,
+      extendedTableName,
+      extendedTableId,
+      statusFieldName,
+      candidateId,
+      supabase,
+      reason: 'budget_exceeded',
+      livekitRoomName,
+      livekitRegion,
+    })
+
+    return { ...billingResult, autoEnded: true, autoEndReason: 'budget_exceeded' }
+  }
+
   return { ...billingResult, autoEnded: false }
 }
@@ -2,7 +2,7 @@ import { createAdminClient } from '../supabase/admin'
 import type { LiveKitRegion } from '../livekit/geo-routing'
 import { normalizeInterviewDurationMinutes } from './constants'
 import { handleInterviewAutoEnd, processHeartbeatBillingWithAutoEnd } from './heartbeat-billing'
-import { isTalentApplicantCandidate } from './talent'
+import { resolveInterviewPricing } from '../credits/pricing'
 
 export type HeartbeatResponse =
   | { status: 200; body: Record<string, unknown> }
@@ -66,9 +66,11 @@ export async function handleInterviewHeartbeat(interviewId: string): Promise<Hea
 
   const interviewDurationMinutes = normalizeInterviewDurationMinutes(record.interview_duration)
 
-  const isAiDialogue = record.interview_mode === 'ai_dialogue' || record.interview_mode === 'ai_qa'
-  const isFreeInterview = isAiDialogue || await isTalentApplicantCandidate(supabase, record.candidate_id)
-  if (isFreeInterview) {
+  const pricing = await resolveInterviewPricing(
+    { companyId: record.company_id, interviewMode: record.interview_mode, candidateId: record.candidate_id },
+    supabase
+  )
+  if (pricing.free) {
     const now = new Date()
     const minutesElapsed = effectiveStartedAt
       ? Math.ceil((now.getTime() - effectiveStartedAt.getTime()) / 1000 / 60)
@@ -131,7 +133,6 @@ export async function handleInterviewHeartbeat(interviewId: string): Promise<Hea
     interviewId,
     companyId: record.company_id,
     startedAt: effectiveStartedAt,
-    creditsDeducted: record.credits_deducted || 0,
     supabase,
     descriptionPrefix: 'AI Interview',
     candidateId: record.candidate_id ?? undefined,
@@ -144,7 +145,9 @@ export async function handleInterviewHeartbeat(interviewId: string): Promise<Hea
     const message =
       billingResult.autoEndReason === 'duration_exceeded'
         ? 'Interview ended automatically due to duration limit exceeded'
-        : 'Interview ended automatically due to insufficient credits'
+        : billingResult.autoEndReason === 'budget_exceeded'
+          ? 'Interview ended automatically because the monthly budget cap was reached'
+          : 'Interview ended automatically due to insufficient credits'
 
     return {
       status: 200,
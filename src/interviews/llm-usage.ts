@@ -0,0 +1,111 @@
+import { createAdminClient } from '../supabase/admin'
+import { LLM_USAGE_EVENTS_TABLE } from '../llm/usage'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'LLM Usage' })
+
+export interface LLMUsageEvent {
+  id: string
+  interview_id: string | null
+  company_id: string | null
+  interview_mode: string | null
+  task: string
+  provider: string
+  model: string
+  input_tokens: number | null
+  output_tokens: number | null
+  total_tokens: number | null
+  latency_ms: number
+  cost_usd: number | null
+  created_at: string
+}
+
+export interface LLMUsageTotals {
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+  costUsd: number
+  /** Calls whose model had no configured price; costUsd excludes them. */
+  unpricedCalls: number
+  latencyMs: number
+}
+
+export function emptyLLMUsageTotals(): LLMUsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, costUsd: 0, unpricedCalls: 0, latencyMs: 0 }
+}
+
+export function addLLMUsageEvent(totals: LLMUsageTotals, event: LLMUsageEvent): LLMUsageTotals {
+  totals.calls += 1
+  totals.inputTokens += event.input_tokens ?? 0
+  totals.outputTokens += event.output_tokens ?? 0
+  totals.totalTokens += event.total_tokens ?? 0
+  totals.latencyMs += event.latency_ms ?? 0
+  if (typeof event.cost_usd === 'number') {
+    totals.costUsd = Math.round((totals.costUsd + event.cost_usd) * 1_000_000) / 1_000_000
+  } else {
+    totals.unpricedCalls += 1
+  }
+  return totals
+}
+
+export function groupLLMUsage(
+  events: LLMUsageEvent[],
+  keyOf: (event: LLMUsageEvent) => string
+): Record<string, LLMUsageTotals> {
+  const groups: Record<string, LLMUsageTotals> = {}
+  for (const event of events) {
+    const key = keyOf(event)
+    groups[key] = addLLMUsageEvent(groups[key] ?? emptyLLMUsageTotals(), event)
+  }
+  return groups
+}
+
+export type GetInterviewLLMUsageResponse =
+  | {
+      status: 200
+      body: {
+        success: true
+        interviewId: string
+        totals: LLMUsageTotals
+        byTask: Record<string, LLMUsageTotals>
+        events: LLMUsageEvent[]
+      }
+    }
+  | { status: 400 | 500; body: { error: string } }
+
+export async function handleGetInterviewLLMUsage(interviewId: string): Promise<GetInterviewLLMUsageResponse> {
+  if (!interviewId) {
+    return { status: 400, body: { error: 'Missing interview ID' } }
+  }
+
+  try {
+    const supabase = createAdminClient()
+    const { data, error } = await supabase
+      .from(LLM_USAGE_EVENTS_TABLE)
+      .select('*')
+      .eq('interview_id', interviewId)
+      .order('created_at', { ascending: true })
+
+    if (error) {
+      log.error('Error fetching LLM usage', { err: error })
+      return { status: 500, body: { error: 'Failed to fetch LLM usage' } }
+    }
+
+    const events = (data || []) as LLMUsageEvent[]
+    return {
+      status: 200,
+      body: {
+        success: true,
+        interviewId,
+        totals: events.reduce(addLLMUsageEvent, emptyLLMUsageTotals()),
+        byTask: groupLLMUsage(events, (event) => event.task),
+        events,
+      },
+    }
+  } catch (error) {
+    log.error('Error fetching LLM usage', { err: error })
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return { status: 500, body: { error: message } }
+  }
+}
@@ -336,6 +336,7 @@ export async function generateQuestionsForInterview(request: InterviewQuestionsR
     presetQuestions: presetQuestionsForInterview,
     companyName,
     companyDescription,
+    usageContext: { interviewId, companyId: companyIdForContext },
   })
 
   const postProcessed = postProcessQuestionList({
@@ -0,0 +1,253 @@
+import type { AIAnalysis } from '../types'
+
+export interface RubricAnchor {
+  min: number
+  max: number
+  description: string
+}
+
+export interface RubricDimension {
+  key: string
+  label: string
+  description: string
+  weight: number // relative; normalized against the sum of all weights
+  anchors: RubricAnchor[]
+}
+
+export type ScoreCalibration =
+  | { type: 'none' }
+  | { type: 'linear'; multiplier: number; offset: number; passthroughBelow: number }
+  | { type: 'piecewise'; points: Array<{ raw: number; score: number }> }
+
+export interface ScoringRubric {
+  id: string | null
+  name: string | null
+  /** Null means the built-in relevance/depth/clarity/engagement prompt is used. */
+  dimensions: RubricDimension[] | null
+  calibration: ScoreCalibration
+}
+
+export interface RubricDimensionResult {
+  key: string
+  label: string
+  weight: number
+  score: number
+  notes: string
+  weighted_score: number
+}
+
+// Matches the historical global boost applied to every interview score.
+export const DEFAULT_SCORE_CALIBRATION: ScoreCalibration = {
+  type: 'linear',
+  multiplier: 1.12,
+  offset: 6,
+  passthroughBelow: 5,
+}
+
+export const DEFAULT_SCORING_RUBRIC: ScoringRubric = {
+  id: null,
+  name: null,
+  dimensions: null,
+  calibration: DEFAULT_SCORE_CALIBRATION,
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+}
+
+function readFiniteNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function readText(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const trimmed = value.trim()
+  return trimmed ? trimmed : null
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value))
+}
+
+function parseAnchors(value: unknown): RubricAnchor[] {
+  const anchors: RubricAnchor[] = []
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (!isRecord(item)) continue
+      const min = readFiniteNumber(item.min)
+      const max = readFiniteNumber(item.max)
+      const description = readText(item.description)
+      if (min === null || max === null || !description) continue
+      anchors.push({ min: Math.min(min, max), max: Math.max(min, max), description })
+    }
+  } else if (isRecord(value)) {
+    // Shorthand: { "9-10": "...", "7-8": "..." }
+    for (const [range, text] of Object.entries(value)) {
+      const description = readText(text)
+      const match = /^\s*(\d+(?:\.\d+)?)\s*(?:-\s*(\d+(?:\.\d+)?))?\s*$/.exec(range)
+      if (!description || !match) continue
+      const min = Number(match[1])
+      const max = match[2] !== undefined ? Number(match[2]) : min
+      anchors.push({ min: Math.min(min, max), max: Math.max(min, max), description })
+    }
+  }
+
+  return anchors.sort((a, b) => b.max - a.max)
+}
+
+function parseDimensions(value: unknown): RubricDimension[] | null {
+  if (!Array.isArray(value)) return null
+
+  const dimensions: RubricDimension[] = []
+  const seenKeys = new Set<string>()
+
+  for (const item of value) {
+    if (!isRecord(item)) continue
+    const label = readText(item.label) ?? readText(item.name)
+    const rawKey = readText(item.key) ?? label
+    const weight = readFiniteNumber(item.weight)
+    if (!rawKey || !label || weight === null || weight <= 0) continue
+
+    const key = rawKey
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '_')
+      .replace(/^_+|_+$/g, '')
+    if (!key || seenKeys.has(key)) continue
+    seenKeys.add(key)
+
+    dimensions.push({
+      key,
+      label,
+      description: readText(item.description) ?? '',
+      weight,
+      anchors: parseAnchors(item.anchors),
+    })
+  }
+
+  return dimensions.length > 0 ? dimensions : null
+}
+
+export function parseScoreCalibration(value: unknown): ScoreCalibration | null {
+  if (!isRecord(value)) return null
+
+  if (value.type === 'none') return { type: 'none' }
+
+  if (value.type === 'linear') {
+    const multiplier = readFiniteNumber(value.multiplier)
+    const offset = readFiniteNumber(value.offset)
+    if (multiplier === null || offset === null) return null
+    return {
+      type: 'linear',
+      multiplier,
+      offset,
+      passthroughBelow: readFiniteNumber(value.passthroughBelow) ?? readFiniteNumber(value.passthrough_below) ?? 0,
+    }
+  }
+
+  if (value.type === 'piecewise' && Array.isArray(value.points)) {
+    const points = value.points
+      .map((point) => {
+        if (Array.isArray(point)) {
+          const [raw, score] = point
+          return { raw: readFiniteNumber(raw), score: readFiniteNumber(score) }
+        }
+        if (isRecord(point)) {
+          return { raw: readFiniteNumber(point.raw), score: readFiniteNumber(point.score) }
+        }
+        return { raw: null, score: null }
+      })
+      .filter((point): point is { raw: number; score: number } => point.raw !== null && point.score !== null)
+      .sort((a, b) => a.raw - b.raw)
+
+    return points.length >= 2 ? { type: 'piecewise', points } : null
+  }
+
+  return null
+}
+
+/**
+ * Parses a job's `scoring_rubric` column. Missing or malformed parts fall back to the defaults
+ * so a bad rubric degrades to the standard evaluation instead of failing the analysis.
+ */
+export function parseScoringRubric(value: unknown): ScoringRubric {
+  if (!isRecord(value)) return DEFAULT_SCORING_RUBRIC
+
+  return {
+    id: readText(value.id),
+    name: readText(value.name),
+    dimensions: parseDimensions(value.dimensions),
+    calibration: parseScoreCalibration(value.calibration) ?? DEFAULT_SCORE_CALIBRATION,
+  }
+}
+
+export function calibrateScore(rawScore: number, calibration: ScoreCalibration): number {
+  if (!Number.isFinite(rawScore)) return 0
+  const clamped = clamp(rawScore, 0, 100)
+
+  switch (calibration.type) {
+    case 'none':
+      return Math.round(clamped)
+    case 'linear': {
+      if (clamped <= calibration.passthroughBelow) return Math.round(clamped)
+      return Math.round(clamp(clamped * calibration.multiplier + calibration.offset, 0, 100))
+    }
+    case 'piecewise': {
+      const { points } = calibration
+      if (clamped <= points[0].raw) return Math.round(clamp(points[0].score, 0, 100))
+      for (let i = 1; i < points.length; i++) {
+        const lower = points[i - 1]
+        const upper = points[i]
+        if (clamped <= upper.raw) {
+          const ratio = upper.raw === lower.raw ? 1 : (clamped - lower.raw) / (upper.raw - lower.raw)
+          return Math.round(clamp(lower.score + ratio * (upper.score - lower.score), 0, 100))
+        }
+      }
+      return Math.round(clamp(points[points.length - 1].score, 0, 100))
+    }
+  }
+}
+
+/** Whether the job configures its own dimensions or calibration instead of the built-in scoring. */
+export function hasCustomScoring(rubric: ScoringRubric): boolean {
+  return rubric.dimensions !== null || rubric.calibration !== DEFAULT_SCORE_CALIBRATION
+}
+
+export function recommendationForScore(score: number): AIAnalysis['recommendation'] {
+  if (score >= 80) return 'strong_yes'
+  if (score >= 65) return 'yes'
+  if (score >= 50) return 'maybe'
+  if (score >= 35) return 'no'
+  return 'strong_no'
+}
+
+/**
+ * Combines 1-10 dimension scores into a 0-100 raw score using the rubric weights. Dimensions the
+ * model did not score count as 0 so an incomplete evaluation can't inflate the result.
+ */
+export function computeRubricScore(
+  dimensions: RubricDimension[],
+  dimensionScores: unknown
+): { rawScore: number; results: RubricDimensionResult[] } {
+  const scores = isRecord(dimensionScores) ? dimensionScores : {}
+  const totalWeight = dimensions.reduce((sum, dimension) => sum + dimension.weight, 0)
+
+  const results = dimensions.map((dimension) => {
+    const entry = scores[dimension.key]
+    const score = isRecord(entry) ? clamp(readFiniteNumber(entry.score) ?? 0, 0, 10) : 0
+    const notes = isRecord(entry) ? readText(entry.notes) ?? '' : ''
+    const normalizedWeight = totalWeight > 0 ? dimension.weight / totalWeight : 0
+
+    return {
+      key: dimension.key,
+      label: dimension.label,
+      weight: Math.round(normalizedWeight * 1000) / 1000,
+      score,
+      notes,
+      weighted_score: Math.round(score * normalizedWeight * 10 * 100) / 100,
+    }
+  })
+
+  const rawScore = Math.round(results.reduce((sum, result) => sum + result.weighted_score, 0))
+  return { rawScore, results }
+}
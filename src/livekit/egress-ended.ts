@@ -0,0 +1,109 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '../supabase/admin'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Recording' })
+
+export type RecordingStatus = 'ready' | 'failed'
+
+/** What the `recording_postprocess` job needs from an `egress_ended` webhook. */
+export interface EgressEndedPayload {
+  egressId: string
+  roomName: string | null
+  recordingStatus: RecordingStatus
+  recordingError: string | null
+}
+
+export type EgressEndedResult =
+  | { handled: true; interviewId: string; copilotInterviewId?: string }
+  | { handled: false; reason: 'egress_not_tracked' }
+
+async function findInterviewIdForEgress(
+  egressId: string,
+  roomName: string | null,
+  supabase: SupabaseClient
+): Promise<{ interviewId: string; copilotInterviewId?: string } | null> {
+  // Lookup errors are thrown rather than read as "not tracked", so the job is retried.
+  const { data: copilot, error: copilotError } = await supabase
+    .from('copilot_interviews')
+    .select('id, interview_id')
+    .eq('livekit_egress_id', egressId)
+    .maybeSingle()
+  if (copilotError) throw new Error(copilotError.message)
+
+  if (copilot) {
+    const row = copilot as { id: string; interview_id: string }
+    return { interviewId: row.interview_id, copilotInterviewId: row.id }
+  }
+
+  const { data: interview, error: interviewError } = await supabase
+    .from('interviews')
+    .select('id')
+    .eq('livekit_egress_id', egressId)
+    .maybeSingle()
+  if (interviewError) throw new Error(interviewError.message)
+
+  if (interview) {
+    return { interviewId: (interview as { id: string }).id }
+  }
+
+  // Standard interviews clear livekit_egress_id on stop, so fall back to the room name.
+  if (roomName) {
+    const { data: byRoom, error: byRoomError } = await supabase
+      .from('interviews')
+      .select('id')
+      .eq('livekit_room_name', roomName)
+      .maybeSingle()
+    if (byRoomError) throw new Error(byRoomError.message)
+
+    if (byRoom) {
+      return { interviewId: (byRoom as { id: string }).id }
+    }
+  }
+
+  return null
+}
+
+/** Records the outcome of a finished recording on its interview. Throws so the job is retried. */
+export async function processEgressEnded(
+  payload: EgressEndedPayload,
+  supabaseClient?: SupabaseClient
+): Promise<EgressEndedResult> {
+  const supabase = supabaseClient || createAdminClient()
+
+  const target = await findInterviewIdForEgress(payload.egressId, payload.roomName, supabase)
+  if (!target) {
+    return { handled: false, reason: 'egress_not_tracked' }
+  }
+
+  const { error } = await supabase
+    .from('interviews')
+    .update({ recording_status: payload.recordingStatus, recording_error: payload.recordingError })
+    .eq('id', target.interviewId)
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  if (target.copilotInterviewId) {
+    const { error: copilotError } = await supabase
+      .from('copilot_interviews')
+      .update({ recording_status: payload.recordingStatus, recording_error: payload.recordingError })
+      .eq('id', target.copilotInterviewId)
+
+    // Older schemas only track the recording on interviews.
+    if (copilotError && copilotError.code !== '42703') {
+      throw new Error(copilotError.message)
+    }
+  }
+
+  if (payload.recordingStatus === 'failed') {
+    log.warn('Recording failed', {
+      interviewId: target.interviewId,
+      egressId: payload.egressId,
+      err: payload.recordingError,
+    })
+  }
+
+  return { handled: true, ...target }
+}
@@ -1,4 +1,5 @@
-import { EgressClient, RoomServiceClient } from 'livekit-server-sdk'
+import { EgressClient, EgressStatus, RoomServiceClient } from 'livekit-server-sdk'
+import { livekitEgressTotal } from '../metrics'
 
 export type LiveKitRegion = 'self-hosted' | 'cloud'
 
@@ -86,6 +87,10 @@ function getCloudConfig(): LiveKitConfig | null {
   return { apiUrl, wsUrl, apiKey, apiSecret, region: 'cloud' }
 }
 
+export function getConfiguredLiveKitRegions(): LiveKitConfig[] {
+  return [getSelfHostedConfig(), getCloudConfig()].filter((config): config is LiveKitConfig => config !== null)
+}
+
 export function getLiveKitConfigForRegion(region: LiveKitRegion): LiveKitConfig {
   const config = region === 'self-hosted' ? getSelfHostedConfig() : getCloudConfig()
   if (!config) {
@@ -103,7 +108,7 @@ export function getLiveKitConfigForRegionWithFallback(region: LiveKitRegion): Li
     throw new Error('No LiveKit configuration available')
   }
 
-  console.warn(`⚠️ Requested LiveKit region ${region} unavailable, using fallback ${fallback.region}`)
+  console.warn(`Requested LiveKit region ${region} unavailable, using fallback ${fallback.region}`)
   return fallback
 }
 
@@ -168,7 +173,39 @@ export function getRoomServiceClientForRegion(region: LiveKitRegion | null): Roo
   return new RoomServiceClient(config.apiUrl, config.apiKey, config.apiSecret)
 }
 
+function egressErrorOutcome(error: unknown): string {
+  const err = error as { code?: string; status?: number }
+  if (err?.code === 'failed_precondition' || err?.status === 412) return 'already_stopped'
+  if (err?.code === 'not_found' || err?.status === 404) return 'not_found'
+  return 'error'
+}
+
+/** Counts start/stop calls by outcome on every client handed out, whichever caller uses it. */
+function instrumentEgressClient(client: EgressClient, region: LiveKitRegion): EgressClient {
+  const track = async <T extends { status?: EgressStatus }>(operation: string, call: () => Promise<T>): Promise<T> => {
+    try {
+      const info = await call()
+      const outcome = info.status === EgressStatus.EGRESS_FAILED ? 'failed' : 'success'
+      livekitEgressTotal.inc({ operation, region, outcome })
+      return info
+    } catch (error) {
+      livekitEgressTotal.inc({ operation, region, outcome: egressErrorOutcome(error) })
+      throw error
+    }
+  }
+
+  // The SDK methods are overloaded, so they are wrapped through a loose signature.
+  const wrap = <K extends 'startRoomCompositeEgress' | 'startTrackCompositeEgress' | 'stopEgress'>(method: K, operation: string) => {
+    const original = client[method].bind(client) as (...args: unknown[]) => Promise<{ status?: EgressStatus }>
+    client[method] = ((...args: unknown[]) => track(operation, () => original(...args))) as EgressClient[K]
+  }
+  wrap('startRoomCompositeEgress', 'start')
+  wrap('startTrackCompositeEgress', 'start')
+  wrap('stopEgress', 'stop')
+  return client
+}
+
 export function getEgressClientForRegion(region: LiveKitRegion | null): EgressClient {
   const config = region ? getLiveKitConfigForRegion(region) : getLiveKitConfigForRegionWithFallback('self-hosted')
-  return new EgressClient(config.apiUrl, config.apiKey, config.apiSecret)
+  return instrumentEgressClient(new EgressClient(config.apiUrl, config.apiKey, config.apiSecret), config.region)
 }
@@ -21,7 +21,7 @@ export async function deleteRoomForRegion(roomName: string, region: LiveKitRegio
     } catch (error) {
       lastError = error
       if (region) {
-        console.error(`❌ Failed to list room ${roomName} in region ${candidateRegion}:`, error)
+        console.error(`Failed to list room ${roomName} in region ${candidateRegion}:`, error)
         return false
       }
       continue
@@ -33,13 +33,13 @@ export async function deleteRoomForRegion(roomName: string, region: LiveKitRegio
       await client.deleteRoom(roomName)
       return true
     } catch (error) {
-      console.error(`❌ Failed to delete room ${roomName} in region ${candidateRegion}:`, error)
+      console.error(`Failed to delete room ${roomName} in region ${candidateRegion}:`, error)
       return false
     }
   }
 
   if (lastError) {
-    console.error(`❌ Failed to delete room ${roomName}:`, lastError)
+    console.error(`Failed to delete room ${roomName}:`, lastError)
   }
 
   return false
@@ -69,7 +69,7 @@ export async function removeParticipantIfExistsForRegion(
     } catch (error) {
       lastError = error
       if (region) {
-        console.warn(`⚠️ Failed to list room ${roomName} in region ${candidateRegion}:`, error)
+        console.warn(`Failed to list room ${roomName} in region ${candidateRegion}:`, error)
         return false
       }
       continue
@@ -85,13 +85,13 @@ export async function removeParticipantIfExistsForRegion(
       await client.removeParticipant(roomName, identity)
       return true
     } catch (error) {
-      console.warn(`⚠️ Failed to remove participant ${identity} in region ${candidateRegion}:`, error)
+      console.warn(`Failed to remove participant ${identity} in region ${candidateRegion}:`, error)
       return false
     }
   }
 
   if (lastError) {
-    console.warn(`⚠️ Failed to remove participant ${identity}:`, lastError)
+    console.warn(`Failed to remove participant ${identity}:`, lastError)
   }
 
   return false
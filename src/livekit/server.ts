@@ -86,7 +86,7 @@ export async function deleteRoom(roomName: string): Promise<boolean> {
     await client.deleteRoom(roomName)
     return true
   } catch (error) {
-    console.error(`❌ Failed to delete room ${roomName}:`, error)
+    console.error(`Failed to delete room ${roomName}:`, error)
     return false
   }
 }
@@ -0,0 +1,170 @@
+import { EgressStatus, type WebhookEvent } from 'livekit-server-sdk'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '../supabase/admin'
+import { enqueueRecordingPostprocess } from '../workers/recording-postprocess'
+import { handleCompleteCopilotInterview } from '../copilot-interviews/complete'
+import {
+  candidateJoinRoom,
+  interviewerJoinRoom,
+  participantLeftRoom,
+  type RoomStatus,
+} from '../copilot-interviews/manager'
+import type { RecordingStatus } from './egress-ended'
+
+export type LiveKitWebhookEventResult = {
+  event: string
+  handled: boolean
+  reason?: string
+  copilotInterviewId?: string
+  interviewId?: string
+}
+
+type ParticipantRole = { role: 'interviewer'; userId: string } | { role: 'candidate' }
+
+type CopilotRoomRow = {
+  id: string
+  interview_id: string
+  room_status: RoomStatus
+}
+
+// Identities are issued by createInterviewerToken / createCandidateToken:
+// `interviewer_<index>-<userId>` and `candidate-<candidateId>`.
+export function parseParticipantIdentity(identity: string | undefined): ParticipantRole | null {
+  if (!identity) return null
+
+  const interviewerMatch = /^interviewer_\d+-(.+)$/.exec(identity)
+  if (interviewerMatch) return { role: 'interviewer', userId: interviewerMatch[1] }
+
+  if (identity.startsWith('candidate-') || identity === 'candidate') return { role: 'candidate' }
+
+  return null
+}
+
+async function findCopilotInterviewByRoomName(
+  roomName: string,
+  supabase: SupabaseClient
+): Promise<CopilotRoomRow | null> {
+  const { data, error } = await supabase
+    .from('copilot_interviews')
+    .select('id, interview_id, room_status')
+    .eq('livekit_room_name', roomName)
+    .maybeSingle()
+
+  // Thrown rather than treated as an untracked room, so the webhook fails and LiveKit retries it.
+  if (error) {
+    throw new Error(`Failed to look up copilot interview for room ${roomName}: ${error.message}`)
+  }
+
+  return (data as CopilotRoomRow | null) ?? null
+}
+
+async function handleParticipantJoined(event: WebhookEvent, supabase: SupabaseClient): Promise<LiveKitWebhookEventResult> {
+  const roomName = event.room?.name
+  const participant = parseParticipantIdentity(event.participant?.identity)
+  if (!roomName || !participant) {
+    return { event: event.event, handled: false, reason: 'unknown_participant' }
+  }
+
+  const copilot = await findCopilotInterviewByRoomName(roomName, supabase)
+  if (!copilot) {
+    return { event: event.event, handled: false, reason: 'room_not_tracked' }
+  }
+
+  const result =
+    participant.role === 'interviewer'
+      ? await interviewerJoinRoom(copilot.id, participant.userId, supabase)
+      : await candidateJoinRoom(copilot.id, supabase)
+
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to record participant join')
+  }
+
+  return { event: event.event, handled: true, copilotInterviewId: copilot.id, interviewId: copilot.interview_id }
+}
+
+async function handleParticipantLeft(event: WebhookEvent, supabase: SupabaseClient): Promise<LiveKitWebhookEventResult> {
+  const roomName = event.room?.name
+  const participant = parseParticipantIdentity(event.participant?.identity)
+  if (!roomName || !participant) {
+    return { event: event.event, handled: false, reason: 'unknown_participant' }
+  }
+
+  const copilot = await findCopilotInterviewByRoomName(roomName, supabase)
+  if (!copilot) {
+    return { event: event.event, handled: false, reason: 'room_not_tracked' }
+  }
+
+  const result = await participantLeftRoom(copilot.id, participant, supabase)
+  if (!result.success) {
+    throw new Error(result.error || 'Failed to record participant leave')
+  }
+
+  return { event: event.event, handled: true, copilotInterviewId: copilot.id, interviewId: copilot.interview_id }
+}
+
+async function handleRoomFinished(event: WebhookEvent, supabase: SupabaseClient): Promise<LiveKitWebhookEventResult> {
+  const roomName = event.room?.name
+  if (!roomName) {
+    return { event: event.event, handled: false, reason: 'missing_room' }
+  }
+
+  const copilot = await findCopilotInterviewByRoomName(roomName, supabase)
+  if (!copilot) {
+    return { event: event.event, handled: false, reason: 'room_not_tracked' }
+  }
+
+  // Waiting rooms are recreated on the next join; only a running interview is finished by an empty room.
+  if (copilot.room_status !== 'in_progress') {
+    return {
+      event: event.event,
+      handled: false,
+      reason: `room_status_${copilot.room_status}`,
+      copilotInterviewId: copilot.id,
+      interviewId: copilot.interview_id,
+    }
+  }
+
+  const response = await handleCompleteCopilotInterview(copilot.id)
+  if (response.status !== 200) {
+    throw new Error(response.body.error)
+  }
+
+  return { event: event.event, handled: true, copilotInterviewId: copilot.id, interviewId: copilot.interview_id }
+}
+
+async function handleEgressEnded(event: WebhookEvent): Promise<LiveKitWebhookEventResult> {
+  const egress = event.egressInfo
+  if (!egress?.egressId) {
+    return { event: event.event, handled: false, reason: 'missing_egress' }
+  }
+
+  const recordingStatus: RecordingStatus = egress.status === EgressStatus.EGRESS_COMPLETE ? 'ready' : 'failed'
+  await enqueueRecordingPostprocess({
+    egressId: egress.egressId,
+    roomName: egress.roomName || event.room?.name || null,
+    recordingStatus,
+    recordingError: recordingStatus === 'failed' ? egress.error || `egress status ${egress.status}` : null,
+  })
+
+  return { event: event.event, handled: true, reason: 'queued' }
+}
+
+export async function processLiveKitWebhookEvent(
+  event: WebhookEvent,
+  supabaseClient?: SupabaseClient
+): Promise<LiveKitWebhookEventResult> {
+  const supabase = supabaseClient || createAdminClient()
+
+  switch (event.event) {
+    case 'participant_joined':
+      return handleParticipantJoined(event, supabase)
+    case 'participant_left':
+      return handleParticipantLeft(event, supabase)
+    case 'room_finished':
+      return handleRoomFinished(event, supabase)
+    case 'egress_ended':
+      return handleEgressEnded(event)
+    default:
+      return { event: event.event, handled: false, reason: 'ignored' }
+  }
+}
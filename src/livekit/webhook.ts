@@ -1,4 +1,5 @@
-import { WebhookReceiver } from 'livekit-server-sdk'
+import { WebhookReceiver, type WebhookEvent } from 'livekit-server-sdk'
+import { processLiveKitWebhookEvent } from './webhook-events'
 
 export type LiveKitWebhookResponse =
   | { status: 200; body: Record<string, unknown> }
@@ -19,26 +20,31 @@ export async function handleLiveKitWebhook(params: {
 
     const receiver = new WebhookReceiver(apiKey, apiSecret)
 
-    let event: unknown
+    let webhookEvent: WebhookEvent
     try {
-      event = await receiver.receive(params.rawBody, params.authorization || '')
+      webhookEvent = await receiver.receive(params.rawBody, params.authorization || '')
     } catch (error) {
       console.error('Invalid webhook signature:', error)
       return { status: 401, body: { error: 'Invalid signature' } }
     }
 
-    const webhookEvent = typeof event === 'string' ? (JSON.parse(event) as Record<string, unknown>) : (event as Record<string, unknown>)
-
     console.log('[LiveKit Webhook] Received:', {
       event: webhookEvent.event,
-      room: (webhookEvent.room as { name?: string } | undefined)?.name,
-      participant: (webhookEvent.participant as { identity?: string } | undefined)?.identity,
+      room: webhookEvent.room?.name,
+      participant: webhookEvent.participant?.identity,
+      egressId: webhookEvent.egressInfo?.egressId,
     })
 
-    return { status: 200, body: { success: true } }
+    const result = await processLiveKitWebhookEvent(webhookEvent)
+    if (result.handled) {
+      console.log('[LiveKit Webhook] Processed:', result)
+    }
+
+    return { status: 200, body: { success: true, handled: result.handled } }
   } catch (error) {
+    // A 5xx makes LiveKit redeliver the event, so a failed room_finished or egress_ended is not lost.
     console.error('Error handling LiveKit webhook:', error)
-    return { status: 200, body: { success: false, error: 'Internal error' } }
+    return { status: 500, body: { success: false, error: 'Internal error' } }
   }
 }
 
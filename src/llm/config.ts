@@ -0,0 +1,27 @@
+import type { LLMProviderName, LLMTask } from './types'
+
+const DEFAULT_MODEL = 'gpt-5.2'
+
+export function getLLMProviderName(): LLMProviderName {
+  const value = (process.env.LLM_PROVIDER || '').trim().toLowerCase()
+  if (value === 'azure-openai' || value === 'azure') return 'azure-openai'
+  if (value === 'openai-compatible' || value === 'compatible') return 'openai-compatible'
+  if (value === 'fixture' || value === 'stub') return 'fixture'
+  return 'openai'
+}
+
+function getTaskModelEnvName(task: LLMTask): string {
+  return `LLM_MODEL_${task.toUpperCase()}`
+}
+
+/**
+ * Resolves the model for a task: `LLM_MODEL_<TASK>` (e.g. LLM_MODEL_INTERVIEW_ANALYSIS), then
+ * `LLM_MODEL`, then the built-in default. For Azure OpenAI the model is the deployment name.
+ */
+export function getLLMModelForTask(task: LLMTask): string {
+  const taskModel = process.env[getTaskModelEnvName(task)]?.trim()
+  if (taskModel) return taskModel
+
+  const defaultModel = process.env.LLM_MODEL?.trim()
+  return defaultModel || DEFAULT_MODEL
+}
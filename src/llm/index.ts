@@ -0,0 +1,68 @@
+import { llmRequestDuration, llmRequestsTotal } from '../metrics'
+import { getLLMModelForTask, getLLMProviderName } from './config'
+import { createFixtureProvider } from './fixture-provider'
+import { createAzureOpenAIProvider, createOpenAICompatibleProvider, createOpenAIProvider } from './openai-provider'
+import type { LLMProvider, LLMProviderResult, LLMRequest, LLMResponse } from './types'
+import { recordLLMUsage } from './usage'
+
+export type { LLMMessage, LLMProvider, LLMRequest, LLMResponse, LLMTask, LLMUsage, LLMUsageContext } from './types'
+export { getLLMModelForTask } from './config'
+
+let provider: LLMProvider | null = null
+
+function createProvider(): LLMProvider {
+  switch (getLLMProviderName()) {
+    case 'azure-openai':
+      return createAzureOpenAIProvider()
+    case 'openai-compatible':
+      return createOpenAICompatibleProvider()
+    case 'fixture':
+      return createFixtureProvider()
+    case 'openai':
+      return createOpenAIProvider()
+  }
+}
+
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProvider()
+  }
+  return provider
+}
+
+/** Overrides the configured provider, e.g. with a FixtureProvider in tests. Pass null to reset. */
+export function setLLMProvider(override: LLMProvider | null): void {
+  provider = override
+}
+
+export async function generateText(request: LLMRequest): Promise<LLMResponse> {
+  const activeProvider = getLLMProvider()
+  const model = getLLMModelForTask(request.task)
+  const startedAt = Date.now()
+
+  let result: LLMProviderResult
+  try {
+    result = await activeProvider.generate({ ...request, model })
+  } catch (error) {
+    const labels = { task: request.task, provider: activeProvider.name, outcome: 'error' }
+    llmRequestsTotal.inc(labels)
+    llmRequestDuration.observe(labels, (Date.now() - startedAt) / 1000)
+    throw error
+  }
+
+  const labels = { task: request.task, provider: activeProvider.name, outcome: 'success' }
+  llmRequestsTotal.inc(labels)
+  llmRequestDuration.observe(labels, (Date.now() - startedAt) / 1000)
+
+  const response: LLMResponse = {
+    ...result,
+    provider: activeProvider.name,
+    task: request.task,
+    latencyMs: Date.now() - startedAt,
+  }
+
+  // Recorded in the background so accounting never adds latency to a live interview.
+  void recordLLMUsage(response, request.usageContext)
+
+  return response
+}
@@ -0,0 +1,112 @@
+import OpenAI, { AzureOpenAI } from 'openai'
+import type { LLMProvider, LLMProviderName, LLMProviderResult, LLMRequest, LLMUsage } from './types'
+
+const REQUEST_TIMEOUT_MS = 60000
+
+type OpenAIApiStyle = 'responses' | 'chat'
+
+/**
+ * Talks to anything that speaks the OpenAI API. OpenAI and Azure OpenAI use the Responses API;
+ * generic OpenAI-compatible servers usually only implement Chat Completions.
+ */
+export class OpenAIProvider implements LLMProvider {
+  constructor(
+    readonly name: LLMProviderName,
+    private readonly client: OpenAI,
+    private readonly apiStyle: OpenAIApiStyle
+  ) {}
+
+  async generate(request: LLMRequest & { model: string }): Promise<LLMProviderResult> {
+    return this.apiStyle === 'responses' ? this.generateWithResponses(request) : this.generateWithChat(request)
+  }
+
+  private async generateWithResponses(request: LLMRequest & { model: string }): Promise<LLMProviderResult> {
+    const input =
+      typeof request.input === 'string'
+        ? request.input
+        : request.input.map((message) => ({ role: message.role, content: message.content }))
+
+    const response = await this.client.responses.create({
+      model: request.model,
+      instructions: request.instructions,
+      input,
+      ...(request.responseFormat === 'json' ? { text: { format: { type: 'json_object' as const } } } : {}),
+      ...(request.maxOutputTokens ? { max_output_tokens: request.maxOutputTokens } : {}),
+    })
+
+    const usage: LLMUsage | null = response.usage
+      ? {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+          totalTokens: response.usage.total_tokens,
+        }
+      : null
+
+    return { text: response.output_text || '', model: response.model || request.model, usage }
+  }
+
+  private async generateWithChat(request: LLMRequest & { model: string }): Promise<LLMProviderResult> {
+    const messages = [
+      { role: 'system' as const, content: request.instructions },
+      ...(typeof request.input === 'string'
+        ? [{ role: 'user' as const, content: request.input }]
+        : request.input.map((message) => ({ role: message.role, content: message.content }))),
+    ]
+
+    const completion = await this.client.chat.completions.create({
+      model: request.model,
+      messages,
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+      ...(request.maxOutputTokens ? { max_tokens: request.maxOutputTokens } : {}),
+    })
+
+    const usage: LLMUsage | null = completion.usage
+      ? {
+          inputTokens: completion.usage.prompt_tokens,
+          outputTokens: completion.usage.completion_tokens,
+          totalTokens: completion.usage.total_tokens,
+        }
+      : null
+
+    return { text: completion.choices[0]?.message?.content || '', model: completion.model || request.model, usage }
+  }
+}
+
+export function createOpenAIProvider(): OpenAIProvider {
+  const client = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+    timeout: REQUEST_TIMEOUT_MS,
+  })
+  return new OpenAIProvider('openai', client, 'responses')
+}
+
+export function createAzureOpenAIProvider(): OpenAIProvider {
+  const endpoint = process.env.AZURE_OPENAI_ENDPOINT
+  const apiKey = process.env.AZURE_OPENAI_API_KEY
+  if (!endpoint || !apiKey) {
+    throw new Error('Azure OpenAI is not configured. Please set AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY.')
+  }
+
+  const client = new AzureOpenAI({
+    endpoint,
+    apiKey,
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2025-04-01-preview',
+    timeout: REQUEST_TIMEOUT_MS,
+  })
+  return new OpenAIProvider('azure-openai', client, 'responses')
+}
+
+export function createOpenAICompatibleProvider(): OpenAIProvider {
+  const baseURL = process.env.LLM_BASE_URL
+  if (!baseURL) {
+    throw new Error('LLM_BASE_URL is not configured.')
+  }
+
+  const client = new OpenAI({
+    baseURL,
+    apiKey: process.env.LLM_API_KEY || 'not-needed',
+    timeout: REQUEST_TIMEOUT_MS,
+  })
+  const apiStyle: OpenAIApiStyle = process.env.LLM_API_STYLE === 'responses' ? 'responses' : 'chat'
+  return new OpenAIProvider('openai-compatible', client, apiStyle)
+}
@@ -0,0 +1,52 @@
+export type LLMTask =
+  | 'interview_analysis'
+  | 'interview_questions'
+  | 'conversation_turn'
+  | 'conversation_analysis'
+  | 'topic_evaluation'
+  | 'message_analysis'
+
+export type LLMProviderName = 'openai' | 'azure-openai' | 'openai-compatible' | 'fixture'
+
+export interface LLMMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+/** Identifies the interview a call is made for so its token usage can be attributed. */
+export interface LLMUsageContext {
+  interviewId: string
+  companyId?: string | null
+}
+
+export interface LLMRequest {
+  task: LLMTask
+  instructions: string
+  input: string | LLMMessage[]
+  responseFormat?: 'text' | 'json'
+  maxOutputTokens?: number
+  usageContext?: LLMUsageContext
+}
+
+export interface LLMUsage {
+  inputTokens: number
+  outputTokens: number
+  totalTokens: number
+}
+
+export interface LLMProviderResult {
+  text: string
+  model: string
+  usage: LLMUsage | null
+}
+
+export interface LLMResponse extends LLMProviderResult {
+  provider: LLMProviderName
+  task: LLMTask
+  latencyMs: number
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName
+  generate(request: LLMRequest & { model: string }): Promise<LLMProviderResult>
+}
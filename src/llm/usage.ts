@@ -0,0 +1,120 @@
+import { createAdminClient } from '../supabase/admin'
+import type { LLMResponse, LLMUsage, LLMUsageContext } from './types'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'LLM Usage' })
+
+export const LLM_USAGE_EVENTS_TABLE = 'llm_usage_events'
+
+type ModelPrice = { input: number; output: number }
+
+type InterviewAttribution = { companyId: string | null; interviewMode: string | null }
+
+const ATTRIBUTION_CACHE_LIMIT = 500
+const attributionCache = new Map<string, InterviewAttribution>()
+
+let cachedPricing: { raw: string; prices: Record<string, ModelPrice> } | null = null
+
+/**
+ * Prices come from `LLM_PRICING`: JSON of USD per 1M tokens keyed by model, e.g.
+ * `{"gpt-5.2":{"input":1.75,"output":14}}`. Models without a price are recorded with a null cost.
+ */
+function getModelPricing(): Record<string, ModelPrice> {
+  const raw = process.env.LLM_PRICING || ''
+  if (cachedPricing && cachedPricing.raw === raw) return cachedPricing.prices
+
+  const prices: Record<string, ModelPrice> = {}
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as Record<string, unknown>
+      for (const [model, value] of Object.entries(parsed)) {
+        const price = value as Partial<ModelPrice> | null
+        if (price && typeof price.input === 'number' && typeof price.output === 'number') {
+          prices[model] = { input: price.input, output: price.output }
+        }
+      }
+    } catch (error) {
+      log.error('Invalid LLM_PRICING JSON', { err: error })
+    }
+  }
+
+  cachedPricing = { raw, prices }
+  return prices
+}
+
+export function estimateLLMCostUsd(model: string, usage: LLMUsage): number | null {
+  const pricing = getModelPricing()
+  // Providers often return dated model ids (gpt-5.2-2025-12-11); fall back to the longest priced prefix.
+  const price =
+    pricing[model] ??
+    Object.entries(pricing)
+      .filter(([key]) => model.startsWith(key))
+      .sort(([a], [b]) => b.length - a.length)[0]?.[1]
+  if (!price) return null
+
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+async function resolveInterviewAttribution(interviewId: string): Promise<InterviewAttribution> {
+  const cached = attributionCache.get(interviewId)
+  if (cached) return cached
+
+  const supabase = createAdminClient()
+  const { data, error } = await supabase
+    .from('interviews')
+    .select('company_id, interview_mode')
+    .eq('id', interviewId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  const record = data as { company_id?: string | null; interview_mode?: string | null } | null
+  const attribution = { companyId: record?.company_id ?? null, interviewMode: record?.interview_mode ?? null }
+
+  if (attributionCache.size >= ATTRIBUTION_CACHE_LIMIT) {
+    const oldestKey = attributionCache.keys().next().value
+    if (oldestKey !== undefined) attributionCache.delete(oldestKey)
+  }
+  attributionCache.set(interviewId, attribution)
+  return attribution
+}
+
+/**
+ * Persists token usage for one model call. Never throws: accounting must not break the
+ * interview flow that triggered the call.
+ */
+export async function recordLLMUsage(response: LLMResponse, context: LLMUsageContext | undefined): Promise<void> {
+  // Fixture responses cost nothing and usually run without a database.
+  if (response.provider === 'fixture') return
+
+  try {
+    const attribution = context?.interviewId
+      ? await resolveInterviewAttribution(context.interviewId)
+      : { companyId: null, interviewMode: null }
+
+    const usage = response.usage
+    const supabase = createAdminClient()
+    const { error } = await supabase.from(LLM_USAGE_EVENTS_TABLE).insert({
+      interview_id: context?.interviewId ?? null,
+      company_id: context?.companyId ?? attribution.companyId,
+      interview_mode: attribution.interviewMode,
+      task: response.task,
+      provider: response.provider,
+      model: response.model,
+      input_tokens: usage?.inputTokens ?? null,
+      output_tokens: usage?.outputTokens ?? null,
+      total_tokens: usage?.totalTokens ?? null,
+      latency_ms: response.latencyMs,
+      cost_usd: usage ? estimateLLMCostUsd(response.model, usage) : null,
+    })
+
+    if (error) {
+      log.error('Failed to record usage', { task: response.task, err: error })
+    }
+  } catch (error) {
+    log.error('Failed to record usage', { task: response.task, err: error })
+  }
+}
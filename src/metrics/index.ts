@@ -0,0 +1,170 @@
+import { collectDefaultMetrics, Counter, Gauge, Histogram, Registry } from 'prom-client'
+import { INTERVIEW_MODES, LEGACY_MODE_MAP, type InterviewMode } from '../interview/modes'
+import { QUEUE_NAMES } from '../queue/queues'
+import { getQueueBackend } from '../queue'
+import { getOutboxSize } from '../queue/rabbitmq'
+import { createAdminClient } from '../supabase/admin'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Metrics' })
+
+export const metricsRegistry = new Registry()
+collectDefaultMetrics({ register: metricsRegistry })
+
+const LATENCY_BUCKETS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+const LLM_LATENCY_BUCKETS = [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120]
+const ANALYZE_BUCKETS = [1, 5, 10, 30, 60, 120, 300, 600]
+// Gauges backed by queries are refreshed at most this often, however often Prometheus scrapes.
+const COLLECT_CACHE_MS = 15_000
+
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by route and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  registers: [metricsRegistry],
+})
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request latency by route',
+  labelNames: ['method', 'route'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+})
+
+export const analyzeTasksTotal = new Counter({
+  name: 'interview_analyze_tasks_total',
+  help: 'Processed interview_analyze messages by outcome (completed, skipped, not_found, failed)',
+  labelNames: ['outcome'] as const,
+  registers: [metricsRegistry],
+})
+
+export const analyzeTaskDuration = new Histogram({
+  name: 'interview_analyze_task_duration_seconds',
+  help: 'Time to process one interview_analyze message',
+  labelNames: ['outcome'] as const,
+  buckets: ANALYZE_BUCKETS,
+  registers: [metricsRegistry],
+})
+
+export const analyzeRetriesTotal = new Counter({
+  name: 'interview_analyze_retries_total',
+  help: 'Failed analyses handed to the retry queue (retried) or the dead-letter queue (dead_lettered)',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry],
+})
+
+export const jobsTotal = new Counter({
+  name: 'jobs_total',
+  help: 'Processed background jobs by queue and outcome (completed, retried, dead_lettered, invalid)',
+  labelNames: ['queue', 'outcome'] as const,
+  registers: [metricsRegistry],
+})
+
+export const llmRequestDuration = new Histogram({
+  name: 'llm_request_duration_seconds',
+  help: 'LLM call latency by task',
+  labelNames: ['task', 'provider', 'outcome'] as const,
+  buckets: LLM_LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+})
+
+export const llmRequestsTotal = new Counter({
+  name: 'llm_requests_total',
+  help: 'LLM calls by task and outcome (success, error)',
+  labelNames: ['task', 'provider', 'outcome'] as const,
+  registers: [metricsRegistry],
+})
+
+export const livekitEgressTotal = new Counter({
+  name: 'livekit_egress_requests_total',
+  help: 'LiveKit egress start/stop calls by outcome',
+  labelNames: ['operation', 'region', 'outcome'] as const,
+  registers: [metricsRegistry],
+})
+
+export const creditsDeductedTotal = new Counter({
+  name: 'credits_deducted_total',
+  help: 'Credits charged by interview mode and charge type',
+  labelNames: ['mode', 'type'] as const,
+  registers: [metricsRegistry],
+})
+
+export const emailsTotal = new Counter({
+  name: 'emails_sent_total',
+  help: 'Emails by kind and outcome (success, failure)',
+  labelNames: ['kind', 'outcome'] as const,
+  registers: [metricsRegistry],
+})
+
+let queueDepthCache: { at: number; depths: Array<[string, number]> } | null = null
+
+async function readQueueDepths(): Promise<Array<[string, number]>> {
+  if (queueDepthCache && Date.now() - queueDepthCache.at < COLLECT_CACHE_MS) return queueDepthCache.depths
+
+  const depths: Array<[string, number]> = []
+  for (const queue of Object.values(QUEUE_NAMES)) {
+    depths.push([queue, await getQueueBackend().depth(queue)])
+  }
+  queueDepthCache = { at: Date.now(), depths }
+  return depths
+}
+
+new Gauge({
+  name: 'job_queue_messages',
+  help: 'Messages waiting in each work queue, by queue backend (rabbitmq, memory, postgres)',
+  labelNames: ['queue', 'backend'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    const backend = getQueueBackend().kind
+    try {
+      for (const [queue, depth] of await readQueueDepths()) this.set({ queue, backend }, depth)
+    } catch (error) {
+      log.warn('Failed to read queue depth', { err: error })
+    }
+  },
+})
+
+new Gauge({
+  name: 'rabbitmq_outbox_messages',
+  help: 'Publishes buffered locally while RabbitMQ is unavailable',
+  registers: [metricsRegistry],
+  collect() {
+    this.set(getOutboxSize())
+  },
+})
+
+let activeInterviewsCache: { at: number; counts: Array<[InterviewMode, number]> } | null = null
+
+async function countActiveInterviews(): Promise<Array<[InterviewMode, number]>> {
+  if (activeInterviewsCache && Date.now() - activeInterviewsCache.at < COLLECT_CACHE_MS) return activeInterviewsCache.counts
+
+  const supabase = createAdminClient()
+  const counts: Array<[InterviewMode, number]> = []
+  for (const mode of Object.values(INTERVIEW_MODES)) {
+    const storedValues = [mode, ...Object.keys(LEGACY_MODE_MAP).filter((legacy) => LEGACY_MODE_MAP[legacy] === mode)]
+    const { count, error } = await supabase
+      .from('interviews')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', 'in-progress')
+      .in('interview_mode', storedValues)
+    if (error) throw new Error(error.message)
+    counts.push([mode, count ?? 0])
+  }
+  activeInterviewsCache = { at: Date.now(), counts }
+  return counts
+}
+
+new Gauge({
+  name: 'interviews_active',
+  help: 'Interviews currently in progress by interview mode',
+  labelNames: ['mode'] as const,
+  registers: [metricsRegistry],
+  async collect() {
+    try {
+      for (const [mode, count] of await countActiveInterviews()) this.set({ mode }, count)
+    } catch (error) {
+      log.warn('Failed to count active interviews', { err: error })
+    }
+  },
+})
@@ -1,4 +1,4 @@
-import { openai } from './core'
+import { generateText, type LLMUsageContext } from '../llm'
 
 export interface AnalyzeMessageResult {
   isQuestion: boolean
@@ -12,8 +12,9 @@ export async function analyzeCandidateMessage(params: {
   message: string
   currentTopic: string
   language?: string
+  usageContext?: LLMUsageContext
 }): Promise<AnalyzeMessageResult> {
-  const { message, currentTopic, language = 'en' } = params
+  const { message, currentTopic, language = 'en', usageContext } = params
 
   const systemPrompts: Record<string, string> = {
     zh: `你是一个智能面试助手，负责分析候选人的消息。
@@ -120,17 +121,16 @@ Examples:
 
   const systemPrompt = systemPrompts[language] || systemPrompts.en
 
-  const response = await openai.responses.create({
-    model: 'gpt-5.2',
+  const response = await generateText({
+    task: 'message_analysis',
     instructions: systemPrompt,
     input: `Analyze this message:\n\n"${message}"\n\nPlease respond in JSON format.`,
-    text: {
-      format: { type: 'json_object' },
-    },
-    max_output_tokens: 300,
+    responseFormat: 'json',
+    maxOutputTokens: 300,
+    usageContext,
   })
 
-  const analysisText = response.output_text
+  const analysisText = response.text
   if (!analysisText) {
     throw new Error('Empty response from GPT')
   }
@@ -1,15 +1,93 @@
-import { openai } from './core'
+import { generateText, type LLMUsageContext } from '../llm'
 import { COMMON_I18N, normalizeLocale } from './i18n'
 import { INTERVIEW_ANALYSIS_I18N } from './prompts'
 import { isConversationalTranscript, type AIAnalysis, type InterviewTranscriptData, type QATranscriptEntry } from '../types'
+import {
+  computeRubricScore,
+  recommendationForScore,
+  type RubricDimension,
+  type RubricDimensionResult,
+} from '../interviews/scoring-rubric'
+
+// Bump whenever INTERVIEW_ANALYSIS_I18N or the prompt below changes so re-scored versions can be told apart.
+export const INTERVIEW_ANALYSIS_PROMPT_VERSION = '2026-10-19'
+
+export type InterviewAnalysisResult = AIAnalysis & { score: number; rubric_results?: RubricDimensionResult[] }
+
+type RubricStrings = (typeof INTERVIEW_ANALYSIS_I18N)[keyof typeof INTERVIEW_ANALYSIS_I18N]['rubric']
+
+function formatWeight(weight: number, totalWeight: number, strings: RubricStrings): string {
+  return strings.weight.replace('{percent}', String(Math.round((weight / totalWeight) * 100)))
+}
+
+const CITATION_INSTRUCTION = `EVIDENCE: Every strength, weakness and red flag must be backed by the transcript. Add an "evidence" object to the JSON:
+"evidence": {
+  "strengths": [{"claim": "exact text of the strength", "citations": [{"entry": <number from [#n]>, "quote": "verbatim span copied from that entry"}]}],
+  "weaknesses": [same shape, one item per weakness],
+  "red_flags": [same shape, one item per red flag]
+}
+Quote only the candidate's own words (their turns or answers, never the interviewer's or the questions) and copy them word for word from the cited entry (a full phrase of a few words, under 200 characters). Do not paraphrase quotes and do not cite entries that do not support the claim; citations are verified against the transcript and unsupported ones are discarded.`
+
+function buildRubricGuidelines(dimensions: RubricDimension[], strings: RubricStrings): string {
+  const totalWeight = dimensions.reduce((sum, dimension) => sum + dimension.weight, 0)
+  const dimensionBlocks = dimensions
+    .map((dimension, index) => {
+      const header = `${index + 1}. ${dimension.label.toUpperCase()} [key: ${dimension.key}] (${formatWeight(dimension.weight, totalWeight, strings)})${
+        dimension.description ? `: ${dimension.description}` : ''
+      }`
+      const anchors = dimension.anchors.map((anchor) => {
+        const range = anchor.min === anchor.max ? `${anchor.min}` : `${anchor.min}-${anchor.max}`
+        return `   - ${range}: ${anchor.description}`
+      })
+      return [header, ...anchors].join('\n')
+    })
+    .join('\n\n')
+
+  return `${strings.guidelinesIntro}
+
+${dimensionBlocks}
+
+${strings.guidelinesOutro}`
+}
+
+function buildRubricJsonInstruction(dimensions: RubricDimension[], strings: RubricStrings): string {
+  const dimensionLines = dimensions
+    .map((dimension) => `    "${dimension.key}": {"score": 1-10, "notes": "${strings.notesPlaceholder}"}`)
+    .join(',\n')
+
+  return `${strings.jsonIntro}
+{
+  "dimension_scores": {
+${dimensionLines}
+  },
+  "overall_assessment": "string",
+  "strengths": ["string"],
+  "weaknesses": ["string"],
+  "red_flags": ["string"] (optional),
+  "preset_question_evaluations": [
+    {
+      "question": "string",
+      "expected_answer": "string",
+      "candidate_answer_summary": "string",
+      "alignment_score": 1-5,
+      "notes": "string"
+    }
+  ] (optional; include only when expected answers are provided),
+  "technical_skills": [{"skill": "string", "level": "beginner|intermediate|advanced|expert", "notes": "string"}],
+  "soft_skills": [{"skill": "string", "rating": 1-5, "notes": "string"}],
+  "cultural_fit": {"rating": 1-10, "notes": "string"}
+}`
+}
 
 export async function analyzeInterview(
   jobDescription: string,
   jobRequirements: string,
   transcript: InterviewTranscriptData,
   locale: string = 'en',
-  presetQuestionExpectations: Array<{ question: string; expectedAnswer: string }> = []
-): Promise<AIAnalysis & { score: number }> {
+  presetQuestionExpectations: Array<{ question: string; expectedAnswer: string }> = [],
+  rubricDimensions: RubricDimension[] | null = null,
+  usageContext?: LLMUsageContext
+): Promise<InterviewAnalysisResult> {
   const normalizedLocale = normalizeLocale(locale)
   const i18n = INTERVIEW_ANALYSIS_I18N[normalizedLocale]
   const common = COMMON_I18N[normalizedLocale]
@@ -33,7 +111,7 @@ export async function analyzeInterview(
     completionRate = -1
 
     formattedTranscript = transcript
-      .map((entry) => {
+      .map((entry, idx) => {
         let speaker: string
         if (entry.speaker === 'candidate') {
           speaker = common.candidate
@@ -43,7 +121,7 @@ export async function analyzeInterview(
           speaker = common.aiInterviewer
         }
         const topicInfo = entry.topicTag ? ` [${common.topic}: ${entry.topicTag}]` : ''
-        return `${speaker}${topicInfo}: ${entry.text}`
+        return `[#${idx + 1}] ${speaker}${topicInfo}: ${entry.text}`
       })
       .join('\n\n')
   } else {
@@ -56,7 +134,7 @@ export async function analyzeInterview(
     formattedTranscript = qaTranscript
       .map(
         (t, idx) =>
-          `${common.question}${idx + 1}: ${t.question}\n${common.answer}${idx + 1}: ${t.answer || i18n.labels.notAnswered}`
+          `[#${idx + 1}] ${common.question}${idx + 1}: ${t.question}\n${common.answer}${idx + 1}: ${t.answer || i18n.labels.notAnswered}`
       )
       .join('\n\n')
   }
@@ -68,7 +146,9 @@ export async function analyzeInterview(
   const interviewTypeLabel = isHumanInterviewer ? i18n.interviewTypes.humanAssisted : i18n.interviewTypes.digitalHuman
 
   const typeExplanation = isHumanInterviewer ? i18n.interviewTypeExplanation.humanAssisted : i18n.interviewTypeExplanation.digitalHuman
-  const guidelines = completionRate === -1 ? i18n.conversationalGuidelines : i18n.qaGuidelines
+  const defaultGuidelines = completionRate === -1 ? i18n.conversationalGuidelines : i18n.qaGuidelines
+  const guidelines = rubricDimensions ? buildRubricGuidelines(rubricDimensions, i18n.rubric) : defaultGuidelines
+  const jsonInstruction = rubricDimensions ? buildRubricJsonInstruction(rubricDimensions, i18n.rubric) : i18n.jsonInstruction
 
   const transcriptHeader =
     completionRate === -1
@@ -108,14 +188,27 @@ ${formattedTranscript}
 ${completionRateSection}
 ${presetQuestionsSection}
 
-${i18n.jsonInstruction}`
+${jsonInstruction}
+
+${CITATION_INSTRUCTION}`
 
-  const response = await openai.responses.create({
-    model: 'gpt-5.2',
+  const response = await generateText({
+    task: 'interview_analysis',
     instructions: i18n.systemMessage,
     input: prompt + '\n\nPlease respond in JSON format.',
-    text: { format: { type: 'json_object' } },
+    responseFormat: 'json',
+    usageContext,
   })
 
-  return JSON.parse(response.output_text || '{}') as AIAnalysis & { score: number }
+  const analysis = JSON.parse(response.text || '{}') as InterviewAnalysisResult
+  if (!rubricDimensions) return analysis
+
+  // With a custom rubric the score and recommendation are derived here rather than trusted from the model.
+  const { rawScore, results } = computeRubricScore(rubricDimensions, analysis.dimension_scores)
+  return {
+    ...analysis,
+    score: rawScore,
+    recommendation: recommendationForScore(rawScore),
+    rubric_results: results,
+  }
 }
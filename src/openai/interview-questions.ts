@@ -1,4 +1,4 @@
-import { openai } from './core'
+import { generateText, type LLMUsageContext } from '../llm'
 import { COMMON_I18N, normalizeLocale } from './i18n'
 import { INTERVIEW_QUESTIONS_I18N } from './question-prompts'
 
@@ -12,6 +12,7 @@ export async function generateInterviewQuestions(params: {
   presetQuestions?: string[]
   companyName?: string
   companyDescription?: string | null
+  usageContext?: LLMUsageContext
 }): Promise<{ questions: string[]; hasPresetQuestions: boolean }> {
   const {
     jobTitle,
@@ -23,6 +24,7 @@ export async function generateInterviewQuestions(params: {
     presetQuestions = [],
     companyName,
     companyDescription = null,
+    usageContext,
   } = params
 
   const locale = normalizeLocale(language)
@@ -78,16 +80,15 @@ ${guidelines}
 
 ${i18n.jsonInstruction} ${languageInstruction}`
 
-  const response = await openai.responses.create({
-    model: 'gpt-5.2',
+  const response = await generateText({
+    task: 'interview_questions',
     instructions: systemMessage,
     input: userPrompt + '\n\nPlease respond in JSON format.',
-    text: {
-      format: { type: 'json_object' },
-    },
+    responseFormat: 'json',
+    usageContext,
   })
 
-  const result = JSON.parse(response.output_text || '{}') as { questions?: unknown }
+  const result = JSON.parse(response.text || '{}') as { questions?: unknown }
   const questions = Array.isArray(result.questions)
     ? result.questions.filter((q): q is string => typeof q === 'string').map((q) => q.trim()).filter(Boolean)
     : []
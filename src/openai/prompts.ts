@@ -30,6 +30,15 @@ export const INTERVIEW_ANALYSIS_I18N: Record<
     conversationalGuidelines: string
     qaGuidelines: string
     jsonInstruction: string
+    /** Wraps a job's own scoring rubric, which replaces the default guidelines and JSON schema. */
+    rubric: {
+      guidelinesIntro: string
+      guidelinesOutro: string
+      /** `{percent}` is replaced with the dimension's share of the total weight. */
+      weight: string
+      jsonIntro: string
+      notesPlaceholder: string
+    }
   }
 > = {
   en: {
@@ -187,6 +196,24 @@ Note: Layer 2 is for visualization only. It does NOT affect the score or recomme
   "soft_skills": [{"skill": "string", "rating": 1-5, "notes": "string"}],
   "cultural_fit": {"rating": 1-10, "notes": "string"}
 }`,
+    rubric: {
+      guidelinesIntro: `TWO-LAYER SCORING SYSTEM:
+
+=== LAYER 1: INTERVIEW PERFORMANCE (determines score & recommendation) ===
+This job uses its own scoring rubric. Score each dimension below from 1-10:`,
+      guidelinesOutro: `The total score is computed from the weighted dimension scores, so score every dimension listed above and nothing else.
+
+=== LAYER 2: ABILITY PROFILE (for radar chart visualization) ===
+Assess candidate's overall abilities (independent of Layer 1):
+- technical_skills: Rate each skill mentioned (beginner/intermediate/advanced/expert)
+- soft_skills: Rate communication, problem-solving, teamwork, professionalism (1-5 each)
+- cultural_fit: Rate overall cultural fit (1-10)
+
+Note: Layer 2 is for visualization only. It does NOT affect the score or recommendation.`,
+      weight: '{percent}% weight',
+      jsonIntro: 'Provide analysis in JSON format:',
+      notesPlaceholder: 'specific observations',
+    },
   },
   zh: {
     systemMessage:
@@ -287,6 +314,19 @@ Note: Layer 2 is for visualization only. It does NOT affect the score or recomme
   "soft_skills": [{"skill": "string", "rating": 1-5, "notes": "string"}],
   "cultural_fit": {"rating": 1-10, "notes": "string"}
 }`,
+    rubric: {
+      guidelinesIntro: `双层评分体系：
+
+=== 第一层：面试表现（决定总分与推荐）===
+该岗位使用自定义评分标准。请对以下每个维度按 1-10 分打分：`,
+      guidelinesOutro: `总分由各维度的加权得分计算得出，请为上面列出的每个维度打分，不要增加其他维度。
+
+=== 第二层：能力画像（用于雷达图，不影响总分）===
+评估 technical_skills / soft_skills / cultural_fit。`,
+      weight: '权重 {percent}%',
+      jsonIntro: '请按 JSON 格式输出：',
+      notesPlaceholder: '具体观察',
+    },
   },
   es: {
     systemMessage:
@@ -320,6 +360,19 @@ Note: Layer 2 is for visualization only. It does NOT affect the score or recomme
     conversationalGuidelines: 'Usa el mismo sistema de puntuación de dos capas descrito en inglés.',
     qaGuidelines: 'Usa el mismo sistema de puntuación de dos capas descrito en inglés.',
     jsonInstruction: 'Responde en formato JSON siguiendo el esquema indicado en inglés.',
+    rubric: {
+      guidelinesIntro: `SISTEMA DE PUNTUACIÓN DE DOS CAPAS:
+
+=== CAPA 1: DESEMPEÑO EN LA ENTREVISTA (determina la puntuación y la recomendación) ===
+Este puesto usa su propia rúbrica. Puntúa cada dimensión de 1 a 10:`,
+      guidelinesOutro: `La puntuación total se calcula con las puntuaciones ponderadas de las dimensiones; puntúa todas las dimensiones indicadas y ninguna otra.
+
+=== CAPA 2: PERFIL DE HABILIDADES (solo para el gráfico de radar, no afecta la puntuación) ===
+Evalúa technical_skills / soft_skills / cultural_fit.`,
+      weight: 'peso {percent}%',
+      jsonIntro: 'Responde con el análisis en formato JSON:',
+      notesPlaceholder: 'observaciones concretas',
+    },
   },
   fr: {
     systemMessage:
@@ -353,5 +406,18 @@ Note: Layer 2 is for visualization only. It does NOT affect the score or recomme
     conversationalGuidelines: "Utilisez le même système de notation à deux couches décrit en anglais.",
     qaGuidelines: "Utilisez le même système de notation à deux couches décrit en anglais.",
     jsonInstruction: "Répondez en JSON en suivant le schéma indiqué en anglais.",
+    rubric: {
+      guidelinesIntro: `SYSTÈME DE NOTATION À DEUX COUCHES :
+
+=== COUCHE 1 : PERFORMANCE EN ENTRETIEN (détermine la note et la recommandation) ===
+Ce poste utilise sa propre grille d'évaluation. Notez chaque dimension ci-dessous de 1 à 10 :`,
+      guidelinesOutro: `La note globale est calculée à partir des notes pondérées des dimensions ; notez toutes les dimensions listées et aucune autre.
+
+=== COUCHE 2 : PROFIL DE COMPÉTENCES (graphique radar uniquement, sans effet sur la note) ===
+Évaluez technical_skills / soft_skills / cultural_fit.`,
+      weight: 'poids {percent}%',
+      jsonIntro: "Fournissez l'analyse au format JSON :",
+      notesPlaceholder: 'observations précises',
+    },
   },
 }
@@ -1,4 +1,4 @@
-import { openai } from './core'
+import { generateText, type LLMUsageContext } from '../llm'
 import { normalizeLocale, type SupportedLocale } from './i18n'
 
 export interface ConversationMessage {
@@ -143,8 +143,9 @@ export async function evaluateTopicPerformance(params: {
   topic: string
   conversation: ConversationMessage[]
   language?: string
+  usageContext?: LLMUsageContext
 }): Promise<TopicEvaluation> {
-  const { topic, conversation, language = 'en' } = params
+  const { topic, conversation, language = 'en', usageContext } = params
 
   if (!topic) {
     throw new Error('Topic is required for evaluation')
@@ -166,16 +167,15 @@ export async function evaluateTopicPerformance(params: {
     })
     .join('\n\n')
 
-  const response = await openai.responses.create({
-    model: 'gpt-5.2',
+  const response = await generateText({
+    task: 'topic_evaluation',
     instructions: i18n.systemPrompt,
     input: i18n.userPrompt(topic, conversationText) + '\n\nPlease respond in JSON format.',
-    text: {
-      format: { type: 'json_object' },
-    },
+    responseFormat: 'json',
+    usageContext,
   })
 
-  const evaluationText = response.output_text
+  const evaluationText = response.text
   if (!evaluationText) {
     throw new Error('No evaluation response from GPT')
   }
@@ -0,0 +1,34 @@
+import { memoryQueueBackend } from './memory'
+import { postgresQueueBackend } from './postgres'
+import { rabbitMQQueueBackend } from './rabbitmq'
+import type { QueueBackend, QueueBackendKind } from './types'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Queue' })
+
+const BACKENDS: Record<QueueBackendKind, QueueBackend> = {
+  rabbitmq: rabbitMQQueueBackend,
+  memory: memoryQueueBackend,
+  postgres: postgresQueueBackend,
+}
+
+let warnedUnknownBackend = false
+
+/**
+ * `QUEUE_BACKEND` picks the backend explicitly; otherwise RabbitMQ is used when `RABBITMQ_URL` is
+ * set and the in-process queue when it is not.
+ */
+export function getQueueBackendKind(): QueueBackendKind {
+  const configured = process.env.QUEUE_BACKEND?.trim().toLowerCase()
+  if (configured && configured in BACKENDS) return configured as QueueBackendKind
+
+  if (configured && !warnedUnknownBackend) {
+    log.warn('Unknown QUEUE_BACKEND, falling back to the default', { configured })
+    warnedUnknownBackend = true
+  }
+  return process.env.RABBITMQ_URL ? 'rabbitmq' : 'memory'
+}
+
+export function getQueueBackend(): QueueBackend {
+  return BACKENDS[getQueueBackendKind()]
+}
@@ -0,0 +1,129 @@
+import { randomUUID } from 'node:crypto'
+import { createLogger, getLogContext } from '../utils/logger'
+import type { MessageHandler, QueueBackend, QueueMessage, Settlement } from './types'
+
+const log = createLogger({ component: 'Memory Queue' })
+
+interface MemoryConsumer {
+  prefetch: number
+  handler: MessageHandler
+  active: number
+  cancelled: boolean
+}
+
+const queues = new Map<string, QueueMessage[]>()
+const consumers = new Map<string, MemoryConsumer>()
+const delayTimers = new Set<NodeJS.Timeout>()
+
+function getQueue(queueName: string): QueueMessage[] {
+  let messages = queues.get(queueName)
+  if (!messages) {
+    messages = []
+    queues.set(queueName, messages)
+  }
+  return messages
+}
+
+function dispatch(queueName: string): void {
+  const consumer = consumers.get(queueName)
+  if (!consumer || consumer.cancelled) return
+
+  const messages = getQueue(queueName)
+  while (consumer.active < consumer.prefetch && messages.length > 0) {
+    const message = messages.shift() as QueueMessage
+    consumer.active += 1
+    void deliver(queueName, consumer, message)
+  }
+}
+
+async function deliver(queueName: string, consumer: MemoryConsumer, message: QueueMessage): Promise<void> {
+  let settlement: Settlement = 'requeue'
+  try {
+    settlement = await consumer.handler(message)
+  } catch (error) {
+    log.error(`Consumer for ${queueName} failed, requeueing`, { err: error })
+  }
+
+  consumer.active -= 1
+  if (settlement === 'requeue') getQueue(queueName).unshift(message)
+  // Next turn of the event loop, so a message that keeps being requeued cannot starve I/O.
+  setImmediate(() => dispatch(queueName))
+}
+
+function enqueue(queueName: string, message: QueueMessage): void {
+  getQueue(queueName).push(message)
+  dispatch(queueName)
+}
+
+/**
+ * In-process queue for single-instance deployments and local development. Messages, including
+ * dead letters and pending retries, live only in this process and are lost on restart.
+ */
+export const memoryQueueBackend: QueueBackend = {
+  kind: 'memory',
+
+  async publish(queueName, payload, options = {}) {
+    const message: QueueMessage = {
+      messageId: options.messageId ?? randomUUID(),
+      correlationId: getLogContext().requestId ?? null,
+      timestamp: Math.floor(Date.now() / 1000),
+      headers: {},
+      // Round-trip through JSON like the other backends, so consumers never share the caller's objects.
+      content: JSON.parse(JSON.stringify(payload ?? null)) as unknown,
+    }
+
+    if (options.delayMs && options.delayMs > 0) {
+      const timer = setTimeout(() => {
+        delayTimers.delete(timer)
+        enqueue(queueName, message)
+      }, options.delayMs)
+      timer.unref()
+      delayTimers.add(timer)
+    } else {
+      enqueue(queueName, message)
+    }
+    return 'published'
+  },
+
+  async consume(queueName, { prefetch }, handler) {
+    consumers.set(queueName, { prefetch: Math.max(1, prefetch), handler, active: 0, cancelled: false })
+    dispatch(queueName)
+  },
+
+  async cancelConsumers() {
+    for (const consumer of consumers.values()) consumer.cancelled = true
+    consumers.clear()
+  },
+
+  async peek(queueName, limit) {
+    return getQueue(queueName).slice(0, limit)
+  },
+
+  async take(queueName, messageId, scanLimit, handler) {
+    const messages = getQueue(queueName)
+    const index = messages.slice(0, scanLimit).findIndex((message) => message.messageId === messageId)
+    if (index === -1) return null
+
+    const [message] = messages.splice(index, 1)
+    try {
+      await handler(message)
+    } catch (error) {
+      messages.splice(Math.min(index, messages.length), 0, message)
+      throw error
+    }
+    return message
+  },
+
+  async depth(queueName) {
+    return getQueue(queueName).length
+  },
+
+  async healthCheck() {},
+
+  async close() {
+    const pending = [...queues.values()].reduce((total, messages) => total + messages.length, 0) + delayTimers.size
+    for (const timer of delayTimers) clearTimeout(timer)
+    delayTimers.clear()
+    if (pending > 0) log.warn(`Dropping ${pending} queued message(s) on shutdown`)
+  },
+}
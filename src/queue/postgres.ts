@@ -0,0 +1,253 @@
+import { randomUUID } from 'node:crypto'
+import { createAdminClient } from '../supabase/admin'
+import { toJson } from '../supabase/json'
+import { createLogger, getLogContext } from '../utils/logger'
+import type { MessageHandler, QueueBackend, QueueMessage, Settlement } from './types'
+
+export const QUEUE_MESSAGES_TABLE = 'queue_messages'
+
+const DEFAULT_POLL_INTERVAL_MS = 1000
+// A claimed message whose consumer died (crash, deploy) becomes available again after this long.
+const DEFAULT_LOCK_TIMEOUT_MS = 15 * 60 * 1000
+const CLAIM_CANDIDATES = 5
+
+const log = createLogger({ component: 'Postgres Queue' })
+
+interface QueueMessageRow {
+  id: string
+  payload: unknown
+  correlation_id: string | null
+  created_at: string
+  lock_token: string | null
+}
+
+interface PostgresConsumer {
+  queueName: string
+  prefetch: number
+  handler: MessageHandler
+  active: number
+  polling: boolean
+  cancelled: boolean
+  timer: NodeJS.Timeout
+}
+
+const consumers = new Map<string, PostgresConsumer>()
+
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
+function toQueueError(error: { code?: string; message: string }): Error {
+  if (error.code === '42P01') {
+    return new Error(`${QUEUE_MESSAGES_TABLE} table is missing; create it or set QUEUE_BACKEND=memory`)
+  }
+  return new Error(error.message)
+}
+
+function toQueueMessage(row: QueueMessageRow): QueueMessage {
+  return {
+    messageId: row.id,
+    correlationId: row.correlation_id,
+    timestamp: Math.floor(new Date(row.created_at).getTime() / 1000),
+    headers: {},
+    content: row.payload,
+  }
+}
+
+const ROW_COLUMNS = 'id, payload, correlation_id, created_at, lock_token'
+
+/**
+ * Locks one message for this process. The update only matches while the row still carries the
+ * lock token we read, so two replicas racing for the same row cannot both win.
+ */
+async function claimRow(row: QueueMessageRow): Promise<{ row: QueueMessageRow; lockToken: string } | null> {
+  const lockToken = randomUUID()
+  const lockedUntil = new Date(Date.now() + readPositiveIntEnv('QUEUE_LOCK_TIMEOUT_MS', DEFAULT_LOCK_TIMEOUT_MS))
+
+  const update = createAdminClient()
+    .from(QUEUE_MESSAGES_TABLE)
+    .update({ lock_token: lockToken, locked_until: lockedUntil.toISOString() })
+    .eq('id', row.id)
+  const { data, error } = await (row.lock_token ? update.eq('lock_token', row.lock_token) : update.is('lock_token', null))
+    .select(ROW_COLUMNS)
+    .maybeSingle()
+
+  if (error) throw toQueueError(error)
+  return data ? { row: data as QueueMessageRow, lockToken } : null
+}
+
+async function claimNext(queueName: string): Promise<{ row: QueueMessageRow; lockToken: string } | null> {
+  const now = new Date().toISOString()
+  const { data, error } = await createAdminClient()
+    .from(QUEUE_MESSAGES_TABLE)
+    .select(ROW_COLUMNS)
+    .eq('queue', queueName)
+    .lte('available_at', now)
+    .or(`locked_until.is.null,locked_until.lt.${now}`)
+    .order('available_at', { ascending: true })
+    .limit(CLAIM_CANDIDATES)
+
+  if (error) throw toQueueError(error)
+
+  for (const row of (data ?? []) as QueueMessageRow[]) {
+    const claimed = await claimRow(row)
+    if (claimed) return claimed
+  }
+  return null
+}
+
+async function deleteRow(id: string, lockToken: string): Promise<void> {
+  const { error } = await createAdminClient().from(QUEUE_MESSAGES_TABLE).delete().eq('id', id).eq('lock_token', lockToken)
+  if (error) throw toQueueError(error)
+}
+
+async function unlockRow(id: string, lockToken: string): Promise<void> {
+  const { error } = await createAdminClient()
+    .from(QUEUE_MESSAGES_TABLE)
+    .update({ lock_token: null, locked_until: null, available_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('lock_token', lockToken)
+  if (error) throw toQueueError(error)
+}
+
+async function deliver(consumer: PostgresConsumer, row: QueueMessageRow, lockToken: string): Promise<void> {
+  let settlement: Settlement = 'requeue'
+  try {
+    settlement = await consumer.handler(toQueueMessage(row))
+  } catch (error) {
+    log.error(`Consumer for ${consumer.queueName} failed, requeueing`, { err: error })
+  }
+
+  try {
+    if (settlement === 'ack') await deleteRow(row.id, lockToken)
+    else await unlockRow(row.id, lockToken)
+  } catch (error) {
+    // The lock expires on its own, after which the message is delivered again.
+    log.error(`Failed to settle message ${row.id}`, { err: error })
+  } finally {
+    consumer.active -= 1
+    void poll(consumer)
+  }
+}
+
+async function poll(consumer: PostgresConsumer): Promise<void> {
+  if (consumer.polling || consumer.cancelled) return
+  consumer.polling = true
+  try {
+    while (!consumer.cancelled && consumer.active < consumer.prefetch) {
+      const claimed = await claimNext(consumer.queueName)
+      if (!claimed) break
+      consumer.active += 1
+      void deliver(consumer, claimed.row, claimed.lockToken)
+    }
+  } catch (error) {
+    log.warn(`Polling ${consumer.queueName} failed`, { err: error })
+  } finally {
+    consumer.polling = false
+  }
+}
+
+/**
+ * Queue stored in the `queue_messages` table, for deployments without a broker that still need
+ * messages to survive restarts or to be shared between replicas. Consumers poll every
+ * `QUEUE_POLL_INTERVAL_MS`; a message published by this process is picked up immediately.
+ */
+export const postgresQueueBackend: QueueBackend = {
+  kind: 'postgres',
+
+  async publish(queueName, payload, options = {}) {
+    const now = Date.now()
+    const { error } = await createAdminClient()
+      .from(QUEUE_MESSAGES_TABLE)
+      .insert({
+        id: options.messageId ?? randomUUID(),
+        queue: queueName,
+        payload: toJson(payload),
+        correlation_id: getLogContext().requestId ?? null,
+        available_at: new Date(now + (options.delayMs ?? 0)).toISOString(),
+        created_at: new Date(now).toISOString(),
+      })
+    if (error) throw toQueueError(error)
+
+    const consumer = consumers.get(queueName)
+    if (consumer && !options.delayMs) void poll(consumer)
+    return 'published'
+  },
+
+  async consume(queueName, { prefetch }, handler) {
+    const consumer: PostgresConsumer = {
+      queueName,
+      prefetch: Math.max(1, prefetch),
+      handler,
+      active: 0,
+      polling: false,
+      cancelled: false,
+      timer: setInterval(() => void poll(consumer), readPositiveIntEnv('QUEUE_POLL_INTERVAL_MS', DEFAULT_POLL_INTERVAL_MS)),
+    }
+    consumer.timer.unref()
+    consumers.set(queueName, consumer)
+    await poll(consumer)
+  },
+
+  async cancelConsumers() {
+    for (const consumer of consumers.values()) {
+      consumer.cancelled = true
+      clearInterval(consumer.timer)
+    }
+    consumers.clear()
+  },
+
+  async peek(queueName, limit) {
+    const { data, error } = await createAdminClient()
+      .from(QUEUE_MESSAGES_TABLE)
+      .select(ROW_COLUMNS)
+      .eq('queue', queueName)
+      .order('available_at', { ascending: true })
+      .limit(limit)
+    if (error) throw toQueueError(error)
+    return ((data ?? []) as QueueMessageRow[]).map(toQueueMessage)
+  },
+
+  // Looked up by id, so there is nothing to scan.
+  async take(queueName, messageId, _scanLimit, handler) {
+    const { data, error } = await createAdminClient()
+      .from(QUEUE_MESSAGES_TABLE)
+      .select(ROW_COLUMNS)
+      .eq('queue', queueName)
+      .eq('id', messageId)
+      .maybeSingle()
+    if (error) throw toQueueError(error)
+    if (!data) return null
+
+    const claimed = await claimRow(data as QueueMessageRow)
+    if (!claimed) return null
+
+    const message = toQueueMessage(claimed.row)
+    try {
+      await handler(message)
+    } catch (handlerError) {
+      await unlockRow(claimed.row.id, claimed.lockToken)
+      throw handlerError
+    }
+    await deleteRow(claimed.row.id, claimed.lockToken)
+    return message
+  },
+
+  async depth(queueName) {
+    const { count, error } = await createAdminClient()
+      .from(QUEUE_MESSAGES_TABLE)
+      .select('id', { count: 'exact', head: true })
+      .eq('queue', queueName)
+    if (error) throw toQueueError(error)
+    return count ?? 0
+  },
+
+  async healthCheck(queueName) {
+    await postgresQueueBackend.depth(queueName)
+  },
+
+  async close() {
+    await postgresQueueBackend.cancelConsumers()
+  },
+}
@@ -1,4 +1,12 @@
 export const QUEUE_NAMES = {
   interviewAnalyze: 'interview_analyze',
+  interviewAnalyzeDeadLetter: 'interview_analyze.dlq',
+  emailSend: 'email_send',
+  emailSendDeadLetter: 'email_send.dlq',
+  recordingPostprocess: 'recording_postprocess',
+  recordingPostprocessDeadLetter: 'recording_postprocess.dlq',
 } as const
 
+export function getRetryQueueName(queueName: string, delayMs: number): string {
+  return `${queueName}.retry.${delayMs}`
+}
@@ -1,7 +1,35 @@
-import amqp, { type Channel, type ChannelModel, type Options } from 'amqplib'
+import amqp, { type ChannelModel, type ConfirmChannel, type ConsumeMessage, type GetMessage, type Options } from 'amqplib'
+import { createLogger, getLogContext } from '../utils/logger'
+import { getRetryQueueName } from './queues'
+import type { QueueBackend, QueueMessage, Settlement } from './types'
+
+const RECONNECT_BASE_DELAY_MS = 1000
+const DEFAULT_RECONNECT_MAX_DELAY_MS = 30_000
+const DEFAULT_OUTBOX_MAX_MESSAGES = 1000
+
+const log = createLogger({ component: 'RabbitMQ' })
+
+/** Sets up a consumer on a fresh channel; called again after every reconnect. */
+export type ConsumerSetup = (channel: ConfirmChannel) => Promise<void>
+
+interface OutboxEntry {
+  queueName: string
+  content: Buffer
+  options: Options.Publish
+  delayMs: number | null
+}
 
 let connectionPromise: Promise<ChannelModel> | null = null
-let channelPromise: Promise<Channel> | null = null
+let channelPromise: Promise<ConfirmChannel> | null = null
+let closing = false
+let reconnectTimer: NodeJS.Timeout | null = null
+let reconnectAttempt = 0
+
+const consumers = new Map<string, ConsumerSetup>()
+// Which consumers are already subscribed on a channel, so a reconnect and a concurrent
+// registerConsumer() cannot subscribe the same consumer twice.
+const subscribedConsumers = new WeakMap<ConfirmChannel, Set<string>>()
+const outbox: OutboxEntry[] = []
 
 function getRabbitMQUrl(): string {
   const url = process.env.RABBITMQ_URL
@@ -11,55 +39,472 @@ function getRabbitMQUrl(): string {
   return url
 }
 
+function readPositiveIntEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return Number.isInteger(value) && value > 0 ? value : fallback
+}
+
 async function getConnection(): Promise<ChannelModel> {
   if (!connectionPromise) {
-    connectionPromise = amqp.connect(getRabbitMQUrl())
+    const pending = amqp.connect(getRabbitMQUrl())
+    connectionPromise = pending
+
+    pending.then(
+      (conn) => {
+        conn.on('error', (error: unknown) => log.warn('Connection error', { err: error }))
+        conn.on('close', () => {
+          if (connectionPromise === pending) connectionPromise = null
+          handleDisconnect('connection closed')
+        })
+      },
+      () => {
+        if (connectionPromise === pending) connectionPromise = null
+      }
+    )
   }
   return connectionPromise
 }
 
-export async function getRabbitMQChannel(): Promise<Channel> {
+function handleDisconnect(reason: string): void {
+  channelPromise = null
+  if (closing) return
+  log.warn(`Lost broker channel (${reason})`)
+  scheduleReconnect()
+}
+
+/**
+ * Reconnects with exponential backoff while anything needs a live channel: a registered consumer
+ * or buffered publishes. Otherwise the next publish reconnects on demand.
+ */
+function scheduleReconnect(): void {
+  if (closing || reconnectTimer) return
+  if (consumers.size === 0 && outbox.length === 0) return
+
+  const maxDelayMs = readPositiveIntEnv('RABBITMQ_RECONNECT_MAX_MS', DEFAULT_RECONNECT_MAX_DELAY_MS)
+  const delayMs = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempt, maxDelayMs)
+  reconnectAttempt += 1
+  log.info(`Reconnecting in ${delayMs}ms`, { reconnectAttempt })
+
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null
+    getRabbitMQChannel().catch((error) => {
+      log.error('Reconnect failed', { err: error })
+      scheduleReconnect()
+    })
+  }, delayMs)
+  reconnectTimer.unref()
+}
+
+async function subscribe(channel: ConfirmChannel, name: string, setup: ConsumerSetup): Promise<void> {
+  let subscribed = subscribedConsumers.get(channel)
+  if (!subscribed) {
+    subscribed = new Set()
+    subscribedConsumers.set(channel, subscribed)
+  }
+  if (subscribed.has(name)) return
+
+  subscribed.add(name)
+  try {
+    await setup(channel)
+  } catch (error) {
+    subscribed.delete(name)
+    throw error
+  }
+}
+
+async function onChannelOpen(channel: ConfirmChannel): Promise<void> {
+  reconnectAttempt = 0
+
+  for (const [name, setup] of consumers) {
+    try {
+      await subscribe(channel, name, setup)
+    } catch (error) {
+      log.error(`Failed to subscribe consumer ${name}`, { err: error })
+    }
+  }
+
+  await flushOutbox()
+}
+
+/** The shared confirm channel; publishes on it resolve only once the broker has accepted them. */
+export async function getRabbitMQChannel(): Promise<ConfirmChannel> {
   if (!channelPromise) {
-    channelPromise = (async () => {
+    const pending = (async () => {
       const conn = await getConnection()
-      const channel = await conn.createChannel()
-
-      conn.on('close', () => {
-        connectionPromise = null
-        channelPromise = null
-      })
-      conn.on('error', () => {
-        connectionPromise = null
-        channelPromise = null
-      })
+      const channel = await conn.createConfirmChannel()
 
+      channel.on('error', (error: unknown) => log.warn('Channel error', { err: error }))
       channel.on('close', () => {
-        channelPromise = null
-      })
-      channel.on('error', () => {
-        channelPromise = null
+        if (channelPromise === pending) handleDisconnect('channel closed')
       })
 
       return channel
     })()
+    channelPromise = pending
+
+    pending.then(
+      (channel) => void onChannelOpen(channel),
+      () => {
+        if (channelPromise === pending) channelPromise = null
+        scheduleReconnect()
+      }
+    )
   }
 
   return channelPromise
 }
 
-export async function assertDurableQueue(queueName: string): Promise<Channel> {
+/**
+ * Keeps a consumer subscribed across broker restarts: `setup` runs now if the broker is
+ * reachable, and again on every new channel. A broker that is down at startup is retried in the
+ * background instead of failing the caller.
+ */
+export async function registerConsumer(name: string, setup: ConsumerSetup): Promise<void> {
+  consumers.set(name, setup)
+  try {
+    await subscribe(await getRabbitMQChannel(), name, setup)
+  } catch (error) {
+    log.error(`Consumer ${name} not subscribed yet, will retry`, { err: error })
+    scheduleReconnect()
+  }
+}
+
+export function getOutboxSize(): number {
+  return outbox.length
+}
+
+/** Flushes what it can from the outbox, then closes the channel and connection and stops reconnecting. */
+export async function closeRabbitMQ(): Promise<void> {
+  if (outbox.length > 0 && channelPromise) {
+    await flushOutbox()
+  }
+
+  closing = true
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer)
+    reconnectTimer = null
+  }
+  if (outbox.length > 0) {
+    log.error(`Dropping ${outbox.length} buffered message(s) on shutdown`)
+    outbox.length = 0
+  }
+
+  const connection = connectionPromise
+  const channel = channelPromise
+  connectionPromise = null
+  channelPromise = null
+  if (!connection) return
+
+  try {
+    if (channel) await (await channel).close()
+  } catch {
+    // Already closed by the broker or by a connection error.
+  }
+  try {
+    await (await connection).close()
+  } catch {
+    // Same as above.
+  }
+}
+
+export async function assertDurableQueue(queueName: string): Promise<ConfirmChannel> {
   const channel = await getRabbitMQChannel()
   await channel.assertQueue(queueName, { durable: true })
   return channel
 }
 
-export async function publishJson(queueName: string, payload: unknown, options?: Options.Publish): Promise<boolean> {
-  const channel = await assertDurableQueue(queueName)
-  const content = Buffer.from(JSON.stringify(payload), 'utf8')
-  return channel.sendToQueue(queueName, content, {
+// Delay queues have no consumers: messages sit there until their TTL expires and are then
+// dead-lettered back onto the target queue through the default exchange.
+export async function assertDelayQueue(
+  targetQueue: string,
+  delayMs: number
+): Promise<{ channel: ConfirmChannel; queueName: string }> {
+  const channel = await getRabbitMQChannel()
+  const queueName = getRetryQueueName(targetQueue, delayMs)
+  await channel.assertQueue(queueName, {
+    durable: true,
+    arguments: {
+      'x-message-ttl': delayMs,
+      'x-dead-letter-exchange': '',
+      'x-dead-letter-routing-key': targetQueue,
+    },
+  })
+  return { channel, queueName }
+}
+
+/** Carries the publishing request's id as the AMQP correlation id so consumers log under it too. */
+function toPublishOptions(options?: Options.Publish): Options.Publish {
+  const requestId = getLogContext().requestId
+  return {
     contentType: 'application/json',
     deliveryMode: 2, // persistent
+    ...(requestId ? { correlationId: requestId } : {}),
     ...options,
+  }
+}
+
+function sendConfirmed(channel: ConfirmChannel, queueName: string, content: Buffer, options: Options.Publish): Promise<void> {
+  return new Promise((resolve, reject) => {
+    channel.sendToQueue(queueName, content, options, (error) => (error ? reject(error) : resolve()))
   })
 }
 
+async function publishEntry(entry: OutboxEntry): Promise<void> {
+  if (entry.delayMs === null) {
+    const channel = await assertDurableQueue(entry.queueName)
+    await sendConfirmed(channel, entry.queueName, entry.content, entry.options)
+    return
+  }
+
+  await assertDurableQueue(entry.queueName)
+  const { channel, queueName } = await assertDelayQueue(entry.queueName, entry.delayMs)
+  await sendConfirmed(channel, queueName, entry.content, entry.options)
+}
+
+let flushing: Promise<void> | null = null
+
+function flushOutbox(): Promise<void> {
+  if (!flushing) {
+    flushing = (async () => {
+      const total = outbox.length
+      while (outbox.length > 0) {
+        try {
+          await publishEntry(outbox[0])
+          outbox.shift()
+        } catch (error) {
+          log.warn(`Outbox flush stopped with ${outbox.length} message(s) left`, { err: error })
+          scheduleReconnect()
+          return
+        }
+      }
+      if (total > 0) log.info(`Flushed ${total} buffered message(s)`)
+    })().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
+
+/** Publishes and waits for the broker's confirm; throws if the broker is unreachable or rejects it. */
+export async function publishJson(queueName: string, payload: unknown, options?: Options.Publish): Promise<void> {
+  const content = Buffer.from(JSON.stringify(payload), 'utf8')
+  await publishEntry({ queueName, content, options: toPublishOptions(options), delayMs: null })
+}
+
+export async function publishDelayedJson(
+  targetQueue: string,
+  payload: unknown,
+  delayMs: number,
+  options?: Options.Publish
+): Promise<void> {
+  const content = Buffer.from(JSON.stringify(payload), 'utf8')
+  await publishEntry({ queueName: targetQueue, content, options: toPublishOptions(options), delayMs })
+}
+
+/**
+ * Like `publishJson`, but while the broker is unavailable the message is kept in a bounded
+ * in-memory outbox (`RABBITMQ_OUTBOX_MAX`) and published after reconnecting. Only for callers
+ * that have nothing to roll back: buffered messages are lost if the process dies first.
+ */
+export async function publishJsonOrBuffer(
+  queueName: string,
+  payload: unknown,
+  options?: Options.Publish
+): Promise<'published' | 'buffered'> {
+  const entry: OutboxEntry = {
+    queueName,
+    content: Buffer.from(JSON.stringify(payload), 'utf8'),
+    options: toPublishOptions(options),
+    delayMs: null,
+  }
+
+  if (outbox.length === 0) {
+    try {
+      await publishEntry(entry)
+      return 'published'
+    } catch (error) {
+      log.warn(`Publish to ${queueName} failed, buffering`, { err: error })
+    }
+  }
+
+  // Once anything is buffered, later messages queue behind it to keep publish order.
+  if (outbox.length >= readPositiveIntEnv('RABBITMQ_OUTBOX_MAX', DEFAULT_OUTBOX_MAX_MESSAGES)) {
+    throw new Error(`RabbitMQ is unavailable and the outbox is full (${outbox.length} messages)`)
+  }
+  outbox.push(entry)
+  scheduleReconnect()
+  return 'buffered'
+}
+
+function toQueueMessage(msg: GetMessage | ConsumeMessage): QueueMessage {
+  let content: unknown = null
+  try {
+    content = JSON.parse(msg.content.toString('utf8')) as unknown
+  } catch {
+    content = msg.content.toString('utf8')
+  }
+
+  return {
+    messageId: typeof msg.properties.messageId === 'string' ? msg.properties.messageId : null,
+    correlationId: typeof msg.properties.correlationId === 'string' ? msg.properties.correlationId : null,
+    timestamp: typeof msg.properties.timestamp === 'number' ? msg.properties.timestamp : null,
+    headers: (msg.properties.headers as Record<string, unknown> | undefined) ?? {},
+    content,
+  }
+}
+
+/**
+ * Reads up to `limit` messages without consuming them: every message is nacked back onto the
+ * queue once the batch has been collected.
+ */
+export async function peekJsonMessages(queueName: string, limit: number): Promise<QueueMessage[]> {
+  const channel = await assertDurableQueue(queueName)
+  const fetched: GetMessage[] = []
+
+  try {
+    while (fetched.length < limit) {
+      const msg = await channel.get(queueName, { noAck: false })
+      if (!msg) break
+      fetched.push(msg)
+    }
+  } finally {
+    for (const msg of fetched) {
+      channel.nack(msg, false, true)
+    }
+  }
+
+  return fetched.map(toQueueMessage)
+}
+
+/**
+ * Finds the message with the given messageId and hands it to `handler`; the message is removed
+ * from the queue only if the handler succeeds. Messages read while searching are put back.
+ * Returns null when no such message is found within `scanLimit`.
+ */
+export async function takeJsonMessage(
+  queueName: string,
+  messageId: string,
+  scanLimit: number,
+  handler: (message: QueueMessage) => Promise<void>
+): Promise<QueueMessage | null> {
+  const channel = await assertDurableQueue(queueName)
+  const skipped: GetMessage[] = []
+  let found: GetMessage | null = null
+
+  try {
+    while (skipped.length < scanLimit) {
+      const msg = await channel.get(queueName, { noAck: false })
+      if (!msg) break
+      if (msg.properties.messageId === messageId) {
+        found = msg
+        break
+      }
+      skipped.push(msg)
+    }
+  } finally {
+    for (const msg of skipped) {
+      channel.nack(msg, false, true)
+    }
+  }
+
+  if (!found) return null
+
+  const message = toQueueMessage(found)
+  try {
+    await handler(message)
+  } catch (error) {
+    channel.nack(found, false, true)
+    throw error
+  }
+
+  channel.ack(found)
+  return message
+}
+
+// After a broker restart the message is redelivered on the new channel, so an ack or nack on the
+// dead one is dropped rather than thrown out of the consumer.
+function settle(channel: ConfirmChannel, msg: ConsumeMessage, settlement: Settlement): void {
+  try {
+    if (settlement === 'ack') channel.ack(msg)
+    else channel.nack(msg, false, true)
+  } catch (error) {
+    log.warn('Channel closed before the message was settled; it will be redelivered', { err: error })
+  }
+}
+
+const activeConsumers = new Map<string, { channel: ConfirmChannel; consumerTag: string }>()
+
+export const rabbitMQQueueBackend: QueueBackend = {
+  kind: 'rabbitmq',
+
+  async publish(queueName, payload, options = {}) {
+    const publishOptions: Options.Publish = {
+      timestamp: Math.floor(Date.now() / 1000),
+      ...(options.messageId ? { messageId: options.messageId } : {}),
+    }
+
+    if (options.delayMs) {
+      await publishDelayedJson(queueName, payload, options.delayMs, publishOptions)
+      return 'published'
+    }
+    if (options.bufferIfUnavailable) {
+      return publishJsonOrBuffer(queueName, payload, publishOptions)
+    }
+    await publishJson(queueName, payload, publishOptions)
+    return 'published'
+  },
+
+  async consume(queueName, { prefetch }, handler) {
+    await registerConsumer(queueName, async (channel) => {
+      await channel.assertQueue(queueName, { durable: true })
+      // Applies to consumers started after this call, so every queue keeps its own prefetch.
+      await channel.prefetch(prefetch)
+
+      const { consumerTag } = await channel.consume(
+        queueName,
+        async (msg) => {
+          if (!msg) return
+
+          let settlement: Settlement = 'requeue'
+          try {
+            settlement = await handler(toQueueMessage(msg))
+          } catch (error) {
+            log.error(`Consumer for ${queueName} failed, requeueing`, { err: error })
+          }
+          settle(channel, msg, settlement)
+        },
+        { noAck: false }
+      )
+      activeConsumers.set(queueName, { channel, consumerTag })
+    })
+  },
+
+  async cancelConsumers() {
+    // Also drops consumers still waiting for the broker, so a reconnect does not bring them back.
+    consumers.clear()
+    for (const [queueName, { channel, consumerTag }] of activeConsumers) {
+      activeConsumers.delete(queueName)
+      try {
+        await channel.cancel(consumerTag)
+      } catch (error) {
+        log.warn(`Failed to cancel consumer for ${queueName}`, { err: error })
+      }
+    }
+  },
+
+  peek: peekJsonMessages,
+  take: takeJsonMessage,
+
+  async depth(queueName) {
+    const channel = await assertDurableQueue(queueName)
+    const { messageCount } = await channel.checkQueue(queueName)
+    return messageCount
+  },
+
+  async healthCheck(queueName) {
+    // assertQueue rather than checkQueue: a missing queue would make checkQueue close the shared channel.
+    await assertDurableQueue(queueName)
+  },
+
+  close: closeRabbitMQ,
+}
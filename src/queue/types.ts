@@ -0,0 +1,60 @@
+export type QueueBackendKind = 'rabbitmq' | 'memory' | 'postgres'
+
+export interface QueueMessage {
+  messageId: string | null
+  /** Request id of the publisher, so consumers can log under it. */
+  correlationId: string | null
+  /** Unix seconds at publish time, when known. */
+  timestamp: number | null
+  headers: Record<string, unknown>
+  /** Parsed JSON payload; the raw string if it was not valid JSON. */
+  content: unknown
+}
+
+export interface PublishOptions {
+  messageId?: string
+  /** Deliver no earlier than this many ms from now. */
+  delayMs?: number
+  /** Keep the message locally instead of throwing while the backend is unreachable. */
+  bufferIfUnavailable?: boolean
+}
+
+export type PublishResult = 'published' | 'buffered'
+
+/** `ack` removes a delivered message; `requeue` puts it back for redelivery. */
+export type Settlement = 'ack' | 'requeue'
+
+export type MessageHandler = (message: QueueMessage) => Promise<Settlement>
+
+export interface ConsumeOptions {
+  /** Messages handed to this consumer at once. */
+  prefetch: number
+}
+
+/**
+ * Where queued work lives. Retries and dead-lettering are built on top by the workers
+ * (delayed publish, dead-letter queue), so every backend behaves the same way.
+ */
+export interface QueueBackend {
+  readonly kind: QueueBackendKind
+  publish(queueName: string, payload: unknown, options?: PublishOptions): Promise<PublishResult>
+  consume(queueName: string, options: ConsumeOptions, handler: MessageHandler): Promise<void>
+  /** Stops handing out new messages; deliveries already in progress keep running. */
+  cancelConsumers(): Promise<void>
+  /** Reads up to `limit` waiting messages without removing them. */
+  peek(queueName: string, limit: number): Promise<QueueMessage[]>
+  /**
+   * Removes the message with the given id once `handler` succeeds; on failure it stays queued.
+   * Returns null when no such message is found within `scanLimit`.
+   */
+  take(
+    queueName: string,
+    messageId: string,
+    scanLimit: number,
+    handler: (message: QueueMessage) => Promise<void>
+  ): Promise<QueueMessage | null>
+  depth(queueName: string): Promise<number>
+  /** Throws if `queueName` cannot be used right now. */
+  healthCheck(queueName: string): Promise<void>
+  close(): Promise<void>
+}
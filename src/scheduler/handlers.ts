@@ -0,0 +1,41 @@
+import { createAdminClient } from '../supabase/admin'
+import { getSchedulerStatus, SCHEDULER_JOBS, type SchedulerJobState } from './index'
+import { listSchedulerRuns, type SchedulerRunRecord } from './runs'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Scheduler' })
+
+const DEFAULT_RUNS_LIMIT = 50
+const MAX_RUNS_LIMIT = 200
+
+export type GetSchedulerStatusResponse = {
+  status: 200
+  body: { success: true; enabled: boolean; instanceId: string; jobs: SchedulerJobState[] }
+}
+
+export function handleGetSchedulerStatus(): GetSchedulerStatusResponse {
+  return { status: 200, body: { success: true, ...getSchedulerStatus() } }
+}
+
+export type ListSchedulerRunsResponse =
+  | { status: 200; body: { success: true; runs: SchedulerRunRecord[] } }
+  | { status: 400 | 500; body: { error: string } }
+
+export async function handleListSchedulerRuns(searchParams: URLSearchParams): Promise<ListSchedulerRunsResponse> {
+  const jobName = searchParams.get('job')
+  if (jobName && !SCHEDULER_JOBS.some((job) => job.name === jobName)) {
+    return { status: 400, body: { error: `job must be one of: ${SCHEDULER_JOBS.map((job) => job.name).join(', ')}` } }
+  }
+
+  const limitRaw = Number(searchParams.get('limit') || DEFAULT_RUNS_LIMIT)
+  const limit = Number.isInteger(limitRaw) && limitRaw > 0 ? Math.min(limitRaw, MAX_RUNS_LIMIT) : DEFAULT_RUNS_LIMIT
+
+  try {
+    const runs = await listSchedulerRuns(createAdminClient(), { jobName, limit })
+    return { status: 200, body: { success: true, runs } }
+  } catch (error) {
+    log.error('Error listing scheduler runs', { err: error })
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return { status: 500, body: { error: message } }
+  }
+}
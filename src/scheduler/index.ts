@@ -0,0 +1,230 @@
+import { createAdminClient } from '../supabase/admin'
+import { handleCleanupAllInterviews } from '../interviews/cleanup-all'
+import { handleCheckMissedInterviews, handleSendInterviewReminders } from '../copilot-interviews/reminders'
+import { createLogger, withLogContext } from '../utils/logger'
+import { acquireSchedulerLease, releaseSchedulerLease, SCHEDULER_INSTANCE_ID } from './lease'
+import { recordSchedulerRunFinish, recordSchedulerRunStart, type SchedulerRunStatus } from './runs'
+
+const log = createLogger({ component: 'Scheduler' })
+
+export interface SchedulerJobDefinition {
+  name: string
+  /** Env var holding the interval in milliseconds; 0 disables the job. */
+  intervalEnv: string
+  defaultIntervalMs: number
+  run: () => Promise<{ status: number; body: unknown }>
+}
+
+export interface SchedulerJobState {
+  name: string
+  intervalMs: number
+  enabled: boolean
+  running: boolean
+  isLeader: boolean
+  lastRun: {
+    status: Exclude<SchedulerRunStatus, 'running'>
+    startedAt: string
+    durationMs: number
+    error?: string
+  } | null
+}
+
+export const SCHEDULER_JOBS: SchedulerJobDefinition[] = [
+  {
+    name: 'interview_cleanup',
+    intervalEnv: 'SCHEDULER_CLEANUP_INTERVAL_MS',
+    defaultIntervalMs: 60_000,
+    run: handleCleanupAllInterviews,
+  },
+  {
+    // The 1h reminder window is 10 minutes wide, so this must run at least that often.
+    name: 'copilot_reminders',
+    intervalEnv: 'SCHEDULER_REMINDERS_INTERVAL_MS',
+    defaultIntervalMs: 5 * 60_000,
+    run: handleSendInterviewReminders,
+  },
+  {
+    name: 'copilot_check_missed',
+    intervalEnv: 'SCHEDULER_CHECK_MISSED_INTERVAL_MS',
+    defaultIntervalMs: 5 * 60_000,
+    run: handleCheckMissedInterviews,
+  },
+]
+
+const MIN_LEASE_TTL_MS = 60_000
+const START_JITTER_MS = 5_000
+
+const jobStates = new Map<string, SchedulerJobState>()
+const timers = new Map<string, NodeJS.Timeout>()
+const inFlightRuns = new Set<Promise<void>>()
+
+function readIntervalMs(job: SchedulerJobDefinition): number {
+  const raw = process.env[job.intervalEnv]
+  if (!raw) return job.defaultIntervalMs
+  const value = Number(raw)
+  return Number.isInteger(value) && value >= 0 ? value : job.defaultIntervalMs
+}
+
+export function isSchedulerEnabled(): boolean {
+  return process.env.SCHEDULER_ENABLED !== 'false'
+}
+
+/** Keeps run history small: scalar fields as-is and arrays as their length. */
+function summarizeResult(body: unknown): Record<string, unknown> | null {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) return null
+
+  const summary: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(body as Record<string, unknown>)) {
+    if (Array.isArray(value)) summary[key] = value.length
+    else if (value === null || typeof value !== 'object') summary[key] = value
+  }
+  return summary
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (typeof error === 'string') return error
+  return 'Unknown error'
+}
+
+async function runScheduledJob(job: SchedulerJobDefinition, state: SchedulerJobState): Promise<void> {
+  const run = executeScheduledJob(job, state)
+  inFlightRuns.add(run)
+  try {
+    await run
+  } finally {
+    inFlightRuns.delete(run)
+  }
+}
+
+async function executeScheduledJob(job: SchedulerJobDefinition, state: SchedulerJobState): Promise<void> {
+  if (state.running) return
+
+  const supabase = createAdminClient()
+  const leaseTtlMs = Math.max(state.intervalMs * 2, MIN_LEASE_TTL_MS)
+  state.isLeader = await acquireSchedulerLease(job.name, leaseTtlMs, supabase)
+  if (!state.isLeader) return
+
+  // A run can outlast the lease; keep renewing it so another replica does not start the same job.
+  const renewal = setInterval(() => {
+    acquireSchedulerLease(job.name, leaseTtlMs, supabase)
+      .then((held) => {
+        if (!held) log.warn('Lost the lease while the job was running', { job: job.name })
+        state.isLeader = held
+      })
+      .catch((error) => log.warn('Failed to renew lease', { job: job.name, err: error }))
+  }, Math.floor(leaseTtlMs / 3))
+  renewal.unref()
+
+  state.running = true
+  const startedAt = new Date()
+  const runId = await recordSchedulerRunStart(job.name, supabase)
+
+  let status: Exclude<SchedulerRunStatus, 'running'> = 'succeeded'
+  let result: Record<string, unknown> | null = null
+  let errorMessage: string | undefined
+
+  try {
+    const response = await job.run()
+    result = summarizeResult(response.body)
+    if (response.status >= 400) {
+      status = 'failed'
+      const error = result?.error
+      errorMessage = typeof error === 'string' ? error : `Job returned status ${response.status}`
+    }
+  } catch (error) {
+    status = 'failed'
+    errorMessage = getErrorMessage(error)
+  } finally {
+    clearInterval(renewal)
+    state.running = false
+  }
+
+  const durationMs = Date.now() - startedAt.getTime()
+  state.lastRun = {
+    status,
+    startedAt: startedAt.toISOString(),
+    durationMs,
+    ...(errorMessage ? { error: errorMessage } : {}),
+  }
+
+  if (status === 'failed') {
+    log.error(`${job.name} failed after ${durationMs}ms`, { job: job.name, durationMs, err: errorMessage })
+  }
+
+  await recordSchedulerRunFinish(runId, { status, result, error: errorMessage, durationMs }, supabase)
+}
+
+export function startScheduler(): void {
+  if (timers.size > 0) return
+
+  if (!isSchedulerEnabled()) {
+    log.info('Disabled by SCHEDULER_ENABLED=false')
+    return
+  }
+
+  for (const job of SCHEDULER_JOBS) {
+    const intervalMs = readIntervalMs(job)
+    const state: SchedulerJobState = {
+      name: job.name,
+      intervalMs,
+      enabled: intervalMs > 0,
+      running: false,
+      isLeader: false,
+      lastRun: null,
+    }
+    jobStates.set(job.name, state)
+    if (!state.enabled) continue
+
+    const tick = () => {
+      void withLogContext({ job: job.name }, () => runScheduledJob(job, state)).catch((error) => {
+        log.error('Unexpected scheduler error', { job: job.name, err: error })
+      })
+    }
+
+    // Stagger the first run so replicas that start together do not all race for the lease.
+    const initial = setTimeout(() => {
+      tick()
+      const timer = setInterval(tick, intervalMs)
+      timer.unref()
+      timers.set(job.name, timer)
+    }, Math.floor(Math.random() * START_JITTER_MS))
+    initial.unref()
+    timers.set(job.name, initial)
+  }
+
+  const enabled = Array.from(jobStates.values()).filter((state) => state.enabled)
+  log.info(`Started on ${SCHEDULER_INSTANCE_ID}`, {
+    instanceId: SCHEDULER_INSTANCE_ID,
+    jobs: enabled.map((state) => ({ name: state.name, intervalMs: state.intervalMs })),
+  })
+}
+
+/** Stops scheduling new runs, waits for the runs in progress and then releases held leases. */
+export async function stopScheduler(): Promise<void> {
+  for (const timer of timers.values()) {
+    clearTimeout(timer)
+    clearInterval(timer)
+  }
+  timers.clear()
+
+  if (inFlightRuns.size > 0) {
+    log.info(`Waiting for ${inFlightRuns.size} running job(s) to finish`)
+    await Promise.allSettled(inFlightRuns)
+  }
+
+  const supabase = createAdminClient()
+  await Promise.all(
+    Array.from(jobStates.values())
+      .filter((state) => state.isLeader)
+      .map((state) => releaseSchedulerLease(state.name, supabase))
+  )
+}
+
+export function getSchedulerStatus(): { enabled: boolean; instanceId: string; jobs: SchedulerJobState[] } {
+  return {
+    enabled: isSchedulerEnabled(),
+    instanceId: SCHEDULER_INSTANCE_ID,
+    jobs: Array.from(jobStates.values()).map((state) => ({ ...state })),
+  }
+}
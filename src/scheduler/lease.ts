@@ -0,0 +1,84 @@
+import { hostname } from 'node:os'
+import { randomUUID } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Scheduler' })
+
+const SCHEDULER_LEASES_TABLE = 'scheduler_leases'
+
+export const SCHEDULER_INSTANCE_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`
+
+let warnedMissingTable = false
+
+/** Without the lease table every replica would run every job, so that needs an explicit opt-in. */
+function allowsRunningWithoutLeases(): boolean {
+  return process.env.SCHEDULER_ALLOW_WITHOUT_LEASES === 'true'
+}
+
+/**
+ * Takes or renews the lease for a job. A replica keeps the lease by renewing it on every tick;
+ * the others can only take it over once it has expired, so each job runs on one replica at a time.
+ */
+export async function acquireSchedulerLease(
+  jobName: string,
+  ttlMs: number,
+  supabase: SupabaseClient
+): Promise<boolean> {
+  const now = new Date()
+  const expiresAt = new Date(now.getTime() + ttlMs).toISOString()
+
+  const { data: renewed, error: renewError } = await supabase
+    .from(SCHEDULER_LEASES_TABLE)
+    .update({ holder: SCHEDULER_INSTANCE_ID, expires_at: expiresAt, updated_at: now.toISOString() })
+    .eq('job_name', jobName)
+    .or(`holder.eq.${SCHEDULER_INSTANCE_ID},expires_at.lt.${now.toISOString()}`)
+    .select('job_name')
+
+  if (renewError) {
+    if (renewError.code === '42P01') {
+      const allowed = allowsRunningWithoutLeases()
+      if (!warnedMissingTable) {
+        if (allowed) {
+          log.warn(`${SCHEDULER_LEASES_TABLE} table missing; running jobs without leader election`)
+        } else {
+          log.error(
+            `${SCHEDULER_LEASES_TABLE} table missing; not running jobs (set SCHEDULER_ALLOW_WITHOUT_LEASES=true on a single replica)`
+          )
+        }
+        warnedMissingTable = true
+      }
+      return allowed
+    }
+    log.error('Failed to renew lease', { job: jobName, err: renewError })
+    return false
+  }
+
+  if (Array.isArray(renewed) && renewed.length > 0) return true
+
+  const { error: insertError } = await supabase.from(SCHEDULER_LEASES_TABLE).insert({
+    job_name: jobName,
+    holder: SCHEDULER_INSTANCE_ID,
+    expires_at: expiresAt,
+    updated_at: now.toISOString(),
+  })
+
+  if (!insertError) return true
+  if (insertError.code !== '23505') {
+    log.error('Failed to create lease', { job: jobName, err: insertError })
+  }
+  return false
+}
+
+/** Gives the lease up on shutdown so another replica can take over without waiting for expiry. */
+export async function releaseSchedulerLease(jobName: string, supabase: SupabaseClient): Promise<void> {
+  const { error } = await supabase
+    .from(SCHEDULER_LEASES_TABLE)
+    .update({ expires_at: new Date().toISOString() })
+    .eq('job_name', jobName)
+    .eq('holder', SCHEDULER_INSTANCE_ID)
+
+  if (error && error.code !== '42P01') {
+    log.warn('Failed to release lease', { job: jobName, err: error })
+  }
+}
@@ -0,0 +1,97 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { toJson } from '../supabase/json'
+import { SCHEDULER_INSTANCE_ID } from './lease'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Scheduler' })
+
+export type SchedulerRunStatus = 'running' | 'succeeded' | 'failed'
+
+export interface SchedulerRunRecord {
+  id: string
+  job_name: string
+  instance_id: string
+  status: SchedulerRunStatus
+  result: unknown
+  error: string | null
+  started_at: string
+  finished_at: string | null
+  duration_ms: number | null
+}
+
+export const SCHEDULER_RUNS_TABLE = 'scheduler_runs'
+
+// Run history must never stop a job from running, so every write here is best-effort.
+export async function recordSchedulerRunStart(jobName: string, supabase: SupabaseClient): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from(SCHEDULER_RUNS_TABLE)
+      .insert({
+        job_name: jobName,
+        instance_id: SCHEDULER_INSTANCE_ID,
+        status: 'running',
+        started_at: new Date().toISOString(),
+      })
+      .select('id')
+      .single()
+
+    if (error || !data) {
+      if (error?.code !== '42P01') log.warn('Failed to record run start', { job: jobName, err: error })
+      return null
+    }
+
+    return (data as { id: string }).id
+  } catch (error) {
+    log.warn('Unexpected error recording run start', { job: jobName, err: error })
+    return null
+  }
+}
+
+export async function recordSchedulerRunFinish(
+  runId: string | null,
+  outcome: { status: Exclude<SchedulerRunStatus, 'running'>; result?: unknown; error?: string; durationMs: number },
+  supabase: SupabaseClient
+): Promise<void> {
+  if (!runId) return
+
+  try {
+    const { error } = await supabase
+      .from(SCHEDULER_RUNS_TABLE)
+      .update({
+        status: outcome.status,
+        result: outcome.result === undefined ? null : toJson(outcome.result),
+        error: outcome.error ?? null,
+        finished_at: new Date().toISOString(),
+        duration_ms: outcome.durationMs,
+      })
+      .eq('id', runId)
+
+    if (error) {
+      log.warn('Failed to record run result', { runId, err: error })
+    }
+  } catch (error) {
+    log.warn('Unexpected error recording run result', { runId, err: error })
+  }
+}
+
+export async function listSchedulerRuns(
+  supabase: SupabaseClient,
+  params: { jobName?: string | null; limit: number }
+): Promise<SchedulerRunRecord[]> {
+  let query = supabase
+    .from(SCHEDULER_RUNS_TABLE)
+    .select('id, job_name, instance_id, status, result, error, started_at, finished_at, duration_ms')
+    .order('started_at', { ascending: false })
+    .limit(params.limit)
+
+  if (params.jobName) {
+    query = query.eq('job_name', params.jobName)
+  }
+
+  const { data, error } = await query
+  if (error) {
+    throw new Error(error.message)
+  }
+
+  return (data || []) as SchedulerRunRecord[]
+}
@@ -0,0 +1,186 @@
+import { createAdminClient } from '../supabase/admin'
+import { loadInternalTokens, type InternalCaller } from './auth'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Auth' })
+
+export const INTERNAL_API_AUDIT_TABLE = 'internal_api_audit'
+
+const FLUSH_INTERVAL_MS = 60_000
+const MAX_PENDING_ENTRIES = 5000
+const DEFAULT_AUDIT_LIMIT = 100
+const MAX_AUDIT_LIMIT = 500
+
+export interface InternalApiAuditEntry {
+  token_name: string | null
+  token_id: string | null
+  method: string
+  route: string
+  status: number
+  request_count: number
+  first_seen_at: string
+  last_seen_at: string
+}
+
+// Calls are aggregated per token/route/status and written once a minute, so the audit costs
+// one insert per interval instead of one per request.
+const pending = new Map<string, InternalApiAuditEntry>()
+const usageSinceStart = new Map<string, { requests: number; lastSeenAt: string; routes: Record<string, number> }>()
+let flushTimer: NodeJS.Timeout | null = null
+let auditTableMissing = false
+
+function ensureFlushTimer(): void {
+  if (flushTimer) return
+  flushTimer = setInterval(() => void flushInternalApiAudit(), FLUSH_INTERVAL_MS)
+  flushTimer.unref()
+}
+
+function mergeEntry(entry: InternalApiAuditEntry): void {
+  const key = `${entry.token_id ?? '-'} ${entry.method} ${entry.route} ${entry.status}`
+  const existing = pending.get(key)
+  if (existing) {
+    existing.request_count += entry.request_count
+    if (entry.first_seen_at < existing.first_seen_at) existing.first_seen_at = entry.first_seen_at
+    if (entry.last_seen_at > existing.last_seen_at) existing.last_seen_at = entry.last_seen_at
+  } else if (pending.size < MAX_PENDING_ENTRIES) {
+    pending.set(key, { ...entry })
+  }
+}
+
+/** Counts one internal API call. `caller` is null when the request had no valid token. */
+export function recordInternalApiCall(caller: InternalCaller | null, method: string, route: string, status: number): void {
+  const now = new Date().toISOString()
+  mergeEntry({
+    token_name: caller?.name ?? null,
+    token_id: caller?.tokenId ?? null,
+    method,
+    route,
+    status,
+    request_count: 1,
+    first_seen_at: now,
+    last_seen_at: now,
+  })
+
+  if (caller) {
+    const usage = usageSinceStart.get(caller.tokenId) ?? { requests: 0, lastSeenAt: now, routes: {} }
+    const routeKey = `${method} ${route}`
+    usage.requests += 1
+    usage.lastSeenAt = now
+    usage.routes[routeKey] = (usage.routes[routeKey] ?? 0) + 1
+    usageSinceStart.set(caller.tokenId, usage)
+  }
+
+  ensureFlushTimer()
+}
+
+/** Writes the aggregated calls to `internal_api_audit`; without the table they are only logged. */
+export async function flushInternalApiAudit(): Promise<void> {
+  if (pending.size === 0) return
+  const entries = Array.from(pending.values())
+  pending.clear()
+
+  if (auditTableMissing) {
+    logEntries(entries)
+    return
+  }
+
+  try {
+    const { error } = await createAdminClient().from(INTERNAL_API_AUDIT_TABLE).insert(entries)
+    if (!error) return
+
+    if (error.code === '42P01') {
+      auditTableMissing = true
+      log.warn(`${INTERNAL_API_AUDIT_TABLE} table is missing; internal API audit falls back to logs`)
+      logEntries(entries)
+      return
+    }
+
+    log.warn('Failed to write internal API audit, will retry', { err: error })
+    entries.forEach(mergeEntry)
+  } catch (error) {
+    log.warn('Unexpected error writing internal API audit, will retry', { err: error })
+    entries.forEach(mergeEntry)
+  }
+}
+
+function logEntries(entries: InternalApiAuditEntry[]): void {
+  for (const entry of entries) {
+    log.info('Internal API audit', {
+      tokenName: entry.token_name ?? 'unauthenticated',
+      tokenId: entry.token_id,
+      method: entry.method,
+      route: entry.route,
+      status: entry.status,
+      requestCount: entry.request_count,
+    })
+  }
+}
+
+export type ListInternalTokensResponse = {
+  status: 200
+  body: {
+    success: true
+    tokens: Array<{
+      name: string
+      id: string
+      scopes: string[]
+      expiresAt: string | null
+      expired: boolean
+      usage: { requests: number; lastSeenAt: string | null; routes: Record<string, number> }
+    }>
+  }
+}
+
+/** Configured tokens (never the secrets) with their usage on this instance since it started. */
+export function handleListInternalTokens(): ListInternalTokensResponse {
+  const now = Date.now()
+  const tokens = loadInternalTokens().map((token) => {
+    const usage = usageSinceStart.get(token.id)
+    return {
+      name: token.name,
+      id: token.id,
+      scopes: token.scopes,
+      expiresAt: token.expiresAt?.toISOString() ?? null,
+      expired: token.expiresAt ? token.expiresAt.getTime() <= now : false,
+      usage: { requests: usage?.requests ?? 0, lastSeenAt: usage?.lastSeenAt ?? null, routes: usage?.routes ?? {} },
+    }
+  })
+
+  return { status: 200, body: { success: true, tokens } }
+}
+
+export type ListInternalApiAuditResponse =
+  | { status: 200; body: { success: true; entries: InternalApiAuditEntry[] } }
+  | { status: 500; body: { error: string } }
+
+export async function handleListInternalApiAudit(searchParams: URLSearchParams): Promise<ListInternalApiAuditResponse> {
+  const limitRaw = Number(searchParams.get('limit') || DEFAULT_AUDIT_LIMIT)
+  const limit = Number.isInteger(limitRaw) && limitRaw > 0 ? Math.min(limitRaw, MAX_AUDIT_LIMIT) : DEFAULT_AUDIT_LIMIT
+  const tokenName = searchParams.get('token')
+  const route = searchParams.get('route')
+  const since = searchParams.get('since')
+
+  try {
+    let query = createAdminClient()
+      .from(INTERNAL_API_AUDIT_TABLE)
+      .select('token_name, token_id, method, route, status, request_count, first_seen_at, last_seen_at')
+      .order('last_seen_at', { ascending: false })
+      .limit(limit)
+
+    if (tokenName) query = query.eq('token_name', tokenName)
+    if (route) query = query.eq('route', route)
+    if (since) query = query.gte('last_seen_at', since)
+
+    const { data, error } = await query
+    if (error) {
+      if (error.code === '42P01') return { status: 200, body: { success: true, entries: [] } }
+      throw new Error(error.message)
+    }
+
+    return { status: 200, body: { success: true, entries: (data || []) as InternalApiAuditEntry[] } }
+  } catch (error) {
+    log.error('Error listing internal API audit', { err: error })
+    const message = error instanceof Error ? error.message : 'Internal server error'
+    return { status: 500, body: { error: message } }
+  }
+}
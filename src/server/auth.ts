@@ -1,23 +1,167 @@
-import http from 'node:http'
-import { sendJson } from './http'
+import type http from 'node:http'
+import { createHash, timingSafeEqual } from 'node:crypto'
+import { createLogger } from '../utils/logger'
 
-export function isAuthorized(authHeader: string | null): boolean {
-  const token = process.env.INTERNAL_API_TOKEN
-  if (!token) return false
-  return authHeader === `Bearer ${token}`
+const log = createLogger({ component: 'Auth' })
+
+export const INTERNAL_SCOPES = [
+  'interviews:read',
+  'interviews:write',
+  'copilot:read',
+  'copilot:write',
+  'coseat:read',
+  'coseat:write',
+  'media:read',
+  'media:write',
+  'webhooks:livekit',
+  'billing:read',
+  'billing:write',
+  'ops:read',
+  'ops:write',
+  'auth:read',
+] as const
+
+export interface InternalToken {
+  name: string
+  /** First characters of the token's SHA-256; safe to log and show in audits. */
+  id: string
+  hash: Buffer
+  scopes: string[]
+  expiresAt: Date | null
+}
+
+export interface InternalCaller {
+  name: string
+  tokenId: string
+  scopes: string[]
+}
+
+const LEGACY_TOKEN_NAME = 'legacy'
+const TOKEN_ID_LENGTH = 12
+
+function sha256(value: string): Buffer {
+  return createHash('sha256').update(value).digest()
+}
+
+function toToken(name: string, hash: Buffer, scopes: string[], expiresAt: Date | null): InternalToken {
+  return { name, id: hash.toString('hex').slice(0, TOKEN_ID_LENGTH), hash, scopes, expiresAt }
+}
+
+function parseTokenEntry(entry: unknown, index: number): InternalToken | null {
+  const record = entry && typeof entry === 'object' && !Array.isArray(entry) ? (entry as Record<string, unknown>) : null
+  const name = typeof record?.name === 'string' ? record.name.trim() : ''
+  const scopes = Array.isArray(record?.scopes) ? record.scopes.filter((s): s is string => typeof s === 'string') : []
+
+  let hash: Buffer | null = null
+  if (typeof record?.token === 'string' && record.token) {
+    hash = sha256(record.token)
+  } else if (typeof record?.sha256 === 'string' && /^[0-9a-f]{64}$/i.test(record.sha256)) {
+    hash = Buffer.from(record.sha256, 'hex')
+  }
+
+  if (!name || !hash || scopes.length === 0) {
+    log.error(`INTERNAL_API_TOKENS[${index}] needs a name, a token or sha256, and at least one scope; ignoring it`)
+    return null
+  }
+
+  const unknown = scopes.filter((scope) => !isKnownScopePattern(scope))
+  if (unknown.length > 0) {
+    log.warn('Token has unknown scopes', { tokenName: name, scopes: unknown })
+  }
+
+  let expiresAt: Date | null = null
+  if (typeof record?.expiresAt === 'string') {
+    expiresAt = new Date(record.expiresAt)
+    if (Number.isNaN(expiresAt.getTime())) {
+      log.error('Token has an invalid expiresAt; ignoring it', { tokenName: name })
+      return null
+    }
+  }
+
+  return toToken(name, hash, scopes, expiresAt)
 }
 
-export function requireInternalAuth(req: http.IncomingMessage, res: http.ServerResponse): boolean {
-  const token = process.env.INTERNAL_API_TOKEN
-  if (!token) {
-    sendJson(res, 500, { error: 'INTERNAL_API_TOKEN is not configured' })
-    return false
+function isKnownScopePattern(scope: string): boolean {
+  if (scope === '*') return true
+  if (scope.endsWith(':*')) return INTERNAL_SCOPES.some((known) => known.startsWith(scope.slice(0, -1)))
+  return (INTERNAL_SCOPES as readonly string[]).includes(scope)
+}
+
+let cachedTokens: { source: string; tokens: InternalToken[] } | null = null
+
+/**
+ * Tokens from `INTERNAL_API_TOKENS` (a JSON array of `{ name, token | sha256, scopes, expiresAt? }`)
+ * plus the legacy `INTERNAL_API_TOKEN`, which keeps every scope. Several tokens may share a name
+ * so an old and a new secret both work while callers rotate.
+ */
+export function loadInternalTokens(): InternalToken[] {
+  const source = `${process.env.INTERNAL_API_TOKENS ?? ''}\n${process.env.INTERNAL_API_TOKEN ?? ''}`
+  if (cachedTokens?.source === source) return cachedTokens.tokens
+
+  const tokens: InternalToken[] = []
+  const raw = process.env.INTERNAL_API_TOKENS?.trim()
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as unknown
+      if (!Array.isArray(parsed)) throw new Error('expected a JSON array')
+      parsed.forEach((entry, index) => {
+        const token = parseTokenEntry(entry, index)
+        if (token) tokens.push(token)
+      })
+    } catch (error) {
+      log.error('Failed to parse INTERNAL_API_TOKENS', { err: error })
+    }
+  }
+
+  const legacy = process.env.INTERNAL_API_TOKEN
+  if (legacy) {
+    tokens.push(toToken(LEGACY_TOKEN_NAME, sha256(legacy), ['*'], null))
+  }
+
+  cachedTokens = { source, tokens }
+  return tokens
+}
+
+export function hasScope(scopes: string[], required: string): boolean {
+  return scopes.some(
+    (scope) => scope === '*' || scope === required || (scope.endsWith(':*') && required.startsWith(scope.slice(0, -1)))
+  )
+}
+
+export function authenticateInternalToken(authHeader: string | null, now = new Date()): InternalCaller | null {
+  if (!authHeader?.startsWith('Bearer ')) return null
+  const presented = sha256(authHeader.slice('Bearer '.length).trim())
+
+  for (const token of loadInternalTokens()) {
+    if (!timingSafeEqual(token.hash, presented)) continue
+    if (token.expiresAt && token.expiresAt.getTime() <= now.getTime()) return null
+    return { name: token.name, tokenId: token.id, scopes: token.scopes }
+  }
+
+  return null
+}
+
+export type InternalAuthResult =
+  | { ok: true; caller: InternalCaller }
+  | { ok: false; caller: InternalCaller | null; status: number; body: Record<string, unknown> }
+
+/** Authenticates the bearer token and checks it grants `requiredScope` (null means any valid token). */
+export function authorizeInternalRequest(
+  req: http.IncomingMessage,
+  requiredScope: string | null = null
+): InternalAuthResult {
+  if (loadInternalTokens().length === 0) {
+    return { ok: false, caller: null, status: 500, body: { error: 'INTERNAL_API_TOKENS is not configured' } }
+  }
+
+  const caller = authenticateInternalToken(req.headers.authorization ?? null)
+  if (!caller) {
+    return { ok: false, caller: null, status: 401, body: { error: 'Unauthorized' } }
   }
 
-  if (!isAuthorized(req.headers.authorization ?? null)) {
-    sendJson(res, 401, { error: 'Unauthorized' })
-    return false
+  if (requiredScope && !hasScope(caller.scopes, requiredScope)) {
+    return { ok: false, caller, status: 403, body: { error: 'Forbidden', requiredScope } }
   }
 
-  return true
+  return { ok: true, caller }
 }
@@ -0,0 +1,27 @@
+import { s } from '../schema'
+import type { EndpointSpec } from '../types'
+
+const TAG = 'Auth'
+
+export const authEndpoints: EndpointSpec[] = [
+  {
+    method: 'GET',
+    path: '/internal/auth/tokens',
+    summary: 'Configured API tokens and their usage on this instance',
+    tag: TAG,
+    scope: 'auth:read',
+  },
+  {
+    method: 'GET',
+    path: '/internal/auth/audit',
+    summary: 'Per-token internal API call audit',
+    tag: TAG,
+    scope: 'auth:read',
+    query: s.object({
+      token: s.string({ description: 'Token name' }),
+      route: s.string({ description: 'Route path as declared, e.g. `/internal/interviews/:id`' }),
+      since: s.dateTime(),
+      limit: s.integer({ minimum: 1 }),
+    }),
+  },
+]
@@ -0,0 +1,7 @@
+import { ALLOWED_INTERVIEW_DURATIONS_MINUTES } from '../../interviews/constants'
+import { s } from '../schema'
+
+// Handlers also accept numeric strings here, so the value is checked by the handler, not the schema.
+export const interviewDuration = s.any(`Minutes: ${ALLOWED_INTERVIEW_DURATIONS_MINUTES.join(', ')}`)
+
+export const userIdBody = s.object({ userId: s.uuid() })
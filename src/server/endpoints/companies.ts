@@ -0,0 +1,30 @@
+import { INTERVIEW_MODES } from '../../interview/modes'
+import { s } from '../schema'
+import type { EndpointSpec } from '../types'
+
+const TAG = 'Companies'
+
+export const companyEndpoints: EndpointSpec[] = [
+  {
+    method: 'GET',
+    path: '/internal/companies/:id/llm-usage',
+    summary: 'Monthly model cost compared with credits charged',
+    tag: TAG,
+    query: s.object({ month: s.string({ pattern: '^\\d{4}-\\d{2}$', description: 'YYYY-MM, defaults to this month' }) }),
+  },
+  {
+    method: 'GET',
+    path: '/internal/companies/:id/usage',
+    summary: 'Usage and billing report',
+    tag: TAG,
+    query: s.object({
+      from: s.dateTime({ description: 'Date or date-time, inclusive' }),
+      to: s.dateTime({ description: 'Date (inclusive) or date-time (exclusive)' }),
+      jobId: s.uuid(),
+      interviewerId: s.uuid(),
+      mode: s.string({ description: Object.values(INTERVIEW_MODES).join(', ') }),
+      granularity: s.enum(['day', 'week', 'month']),
+      format: s.enum(['json', 'csv']),
+    }),
+  },
+]
@@ -0,0 +1,211 @@
+import { s } from '../schema'
+import { interviewDuration, userIdBody } from './common'
+import type { EndpointSpec } from '../types'
+
+const TAG = 'Copilot interviews'
+
+const timeSlot = s.object({ start: s.dateTime(), end: s.dateTime() }, ['start', 'end'])
+
+const schedulingFields = {
+  schedulingMode: s.enum(['instant', 'scheduled', 'candidate_choice']),
+  scheduledAt: s.dateTime({ description: 'Required when schedulingMode is scheduled' }),
+  availableSlots: s.array(timeSlot, {
+    minItems: 2,
+    maxItems: 5,
+    description: 'Required when schedulingMode is candidate_choice',
+  }),
+  interviewerTimezone: s.string(),
+  interviewDuration,
+  recordingEnabled: s.boolean(),
+}
+
+export const copilotInterviewEndpoints: EndpointSpec[] = [
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/create',
+    summary: 'Create a copilot interview room',
+    tag: TAG,
+    body: s.object(
+      { interviewId: s.uuid(), candidateId: s.uuid(), userId: s.uuid(), recordingEnabled: s.boolean() },
+      ['interviewId', 'candidateId']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/schedule',
+    summary: 'Schedule a copilot interview and invite the candidate',
+    tag: TAG,
+    idempotent: true,
+    body: s.object(
+      {
+        candidateId: s.uuid(),
+        jobId: s.uuid(),
+        candidateEmail: s.email(),
+        userId: s.uuid(),
+        interviewerIds: s.array(s.uuid(), { maxItems: 2, description: 'Additional interviewers' }),
+        ...schedulingFields,
+      },
+      ['candidateId', 'jobId', 'candidateEmail']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/reschedule',
+    summary: 'Reschedule a copilot interview',
+    tag: TAG,
+    body: s.object(
+      {
+        copilotInterviewId: s.uuid(),
+        candidateId: s.uuid(),
+        jobId: s.uuid(),
+        candidateEmail: s.email(),
+        userId: s.uuid(),
+        ...schedulingFields,
+      },
+      ['copilotInterviewId', 'candidateId', 'jobId']
+    ),
+  },
+  {
+    method: 'GET',
+    path: '/internal/copilot-interviews/schedule',
+    summary: 'Active copilot interview for a candidate',
+    tag: TAG,
+    query: s.object({ candidateId: s.uuid(), include_all: s.boolean() }, ['candidateId']),
+  },
+  { method: 'GET', path: '/internal/copilot-interviews/confirm/:token', summary: 'Look up an invitation', tag: TAG },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/confirm/:token',
+    summary: 'Confirm an invitation',
+    tag: TAG,
+    body: s.object({
+      selectedSlotIndex: s.integer({ minimum: 0, description: 'Required for candidate_choice invitations' }),
+      candidateTimezone: s.string(),
+      candidateLocale: s.string(),
+    }),
+  },
+  { method: 'POST', path: '/internal/copilot-interviews/decline/:token', summary: 'Decline an invitation', tag: TAG },
+  { method: 'POST', path: '/internal/copilot-interviews/reminders', summary: 'Send upcoming interview reminders', tag: TAG, scope: 'ops:write' },
+  { method: 'POST', path: '/internal/copilot-interviews/check-missed', summary: 'Mark missed interviews', tag: TAG, scope: 'ops:write' },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/consent',
+    summary: 'Record candidate recording consent',
+    tag: TAG,
+    body: s.object({ consent: s.boolean() }, ['consent']),
+  },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/join',
+    summary: 'Join the interview room',
+    tag: TAG,
+    body: s.object(
+      { role: s.enum(['interviewer', 'candidate']), userId: s.uuid(), countryCode: s.string() },
+      ['role']
+    ),
+  },
+  { method: 'GET', path: '/internal/copilot-interviews/:id/status', summary: 'Room status', tag: TAG },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/heartbeat',
+    summary: 'Record room liveness and bill elapsed minutes',
+    tag: TAG,
+    body: userIdBody,
+  },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/extend',
+    summary: 'Extend the interview',
+    tag: TAG,
+    idempotent: true,
+    body: userIdBody,
+  },
+  {
+    method: 'PATCH',
+    path: '/internal/copilot-interviews/:id/ai',
+    summary: 'Turn AI suggestions on or off',
+    tag: TAG,
+    body: s.object({ enabled: s.boolean(), userId: s.uuid() }, ['enabled']),
+  },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/participants',
+    summary: 'Invite additional interviewers',
+    tag: TAG,
+    body: s.object(
+      { userId: s.uuid(), interviewerIds: s.array(s.string(), { minItems: 1 }), inviterName: s.string() },
+      ['interviewerIds']
+    ),
+  },
+  {
+    method: 'GET',
+    path: '/internal/copilot-interviews/:id/participants',
+    summary: 'List interviewers',
+    tag: TAG,
+    query: s.object({ userId: s.uuid() }),
+  },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/suggest',
+    summary: 'Generate AI suggestions',
+    tag: TAG,
+    body: s.object({ locale: s.string() }),
+  },
+  { method: 'GET', path: '/internal/copilot-interviews/:id/suggest', summary: 'List AI suggestions', tag: TAG },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/transcript',
+    summary: 'Append a transcript entry',
+    tag: TAG,
+    body: s.object(
+      {
+        speaker: s.enum(['candidate', 'interviewer', 'interviewer_0', 'interviewer_1', 'interviewer_2']),
+        text: s.string({ minLength: 1 }),
+        speaker_name: s.string(),
+        userId: s.uuid(),
+      },
+      ['speaker', 'text']
+    ),
+  },
+  {
+    method: 'GET',
+    path: '/internal/copilot-interviews/:id/transcript',
+    summary: 'Get the transcript',
+    tag: TAG,
+    query: s.object({ userId: s.uuid() }),
+  },
+  { method: 'GET', path: '/internal/copilot-interviews/:id/transcript-count', summary: 'Transcript entry count', tag: TAG },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/start',
+    summary: 'Start the interview',
+    tag: TAG,
+    body: userIdBody,
+  },
+  { method: 'POST', path: '/internal/copilot-interviews/:id/complete', summary: 'Complete the interview', tag: TAG },
+  { method: 'POST', path: '/internal/copilot-interviews/:id/recording/start', summary: 'Start recording', tag: TAG },
+  { method: 'POST', path: '/internal/copilot-interviews/:id/recording/stop', summary: 'Stop recording', tag: TAG },
+  { method: 'GET', path: '/internal/copilot-interviews/:id/recording/status', summary: 'Recording status', tag: TAG },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/send-invitation',
+    summary: 'Resend the invitation email (queued for the email_send worker)',
+    tag: TAG,
+    idempotent: true,
+    body: s.object({ candidateEmail: s.email(), locale: s.string(), acceptLanguage: s.string() }),
+  },
+  {
+    method: 'POST',
+    path: '/internal/copilot-interviews/:id/cancel',
+    summary: 'Cancel the interview',
+    tag: TAG,
+    body: s.object({
+      userId: s.uuid(),
+      reason: s.string(),
+      cancelledBy: s.enum(['interviewer', 'candidate']),
+      sendEmail: s.boolean(),
+      locale: s.string(),
+      acceptLanguage: s.string(),
+    }),
+  },
+]
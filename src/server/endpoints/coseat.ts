@@ -0,0 +1,140 @@
+import { s } from '../schema'
+import { interviewDuration, userIdBody } from './common'
+import type { EndpointSpec } from '../types'
+
+const TAG = 'Coseat'
+
+export const coseatEndpoints: EndpointSpec[] = [
+  {
+    method: 'POST',
+    path: '/internal/coseat/schedule',
+    summary: 'Schedule a coseat interview',
+    tag: TAG,
+    body: s.object(
+      { candidateId: s.uuid(), jobId: s.uuid(), userId: s.uuid(), interviewDuration, recordingEnabled: s.boolean() },
+      ['candidateId', 'jobId']
+    ),
+  },
+  {
+    method: 'GET',
+    path: '/internal/coseat/schedule',
+    summary: 'Active coseat interview for a candidate',
+    tag: TAG,
+    query: s.object({ candidateId: s.uuid(), userId: s.uuid(), include_all: s.boolean() }, ['candidateId']),
+  },
+  {
+    method: 'GET',
+    path: '/internal/coseat/profile',
+    summary: 'Get the interviewer voice profile',
+    tag: TAG,
+    query: s.object({ userId: s.uuid(), companyId: s.uuid() }),
+  },
+  {
+    method: 'POST',
+    path: '/internal/coseat/profile',
+    summary: 'Enroll an interviewer voice profile',
+    tag: TAG,
+    bodyContentType: 'multipart/form-data',
+  },
+  {
+    method: 'DELETE',
+    path: '/internal/coseat/profile',
+    summary: 'Delete the interviewer voice profile',
+    tag: TAG,
+    body: s.object({ userId: s.uuid(), companyId: s.uuid() }),
+  },
+  {
+    method: 'POST',
+    path: '/internal/coseat/session/start',
+    summary: 'Start a coseat session',
+    tag: TAG,
+    idempotent: true,
+    body: s.object({ userId: s.uuid(), candidateId: s.uuid(), jobId: s.uuid(), interviewDuration }, [
+      'candidateId',
+      'jobId',
+    ]),
+  },
+  {
+    method: 'POST',
+    path: '/internal/coseat/session/end',
+    summary: 'End a coseat session',
+    tag: TAG,
+    body: s.object({ coseatInterviewId: s.uuid(), userId: s.uuid() }, ['coseatInterviewId']),
+  },
+  {
+    method: 'POST',
+    path: '/internal/coseat/session/upload-recording',
+    summary: 'Upload the session recording',
+    tag: TAG,
+    bodyContentType: 'multipart/form-data',
+  },
+  {
+    method: 'GET',
+    path: '/internal/coseat/:id',
+    summary: 'Get a coseat interview',
+    tag: TAG,
+    query: s.object({ userId: s.uuid() }),
+  },
+  {
+    method: 'POST',
+    path: '/internal/coseat/:id/cancel',
+    summary: 'Cancel a coseat interview',
+    tag: TAG,
+    body: s.object({ userId: s.uuid(), reason: s.string() }),
+  },
+  {
+    method: 'PATCH',
+    path: '/internal/coseat/:id/ai',
+    summary: 'Turn AI suggestions on or off',
+    tag: TAG,
+    body: s.object({ enabled: s.boolean(), userId: s.uuid() }, ['enabled']),
+  },
+  { method: 'POST', path: '/internal/coseat/:id/heartbeat', summary: 'Record session liveness', tag: TAG },
+  {
+    method: 'POST',
+    path: '/internal/coseat/:id/extend',
+    summary: 'Extend the session',
+    tag: TAG,
+    body: userIdBody,
+  },
+  {
+    method: 'POST',
+    path: '/internal/coseat/:id/transcript',
+    summary: 'Append a transcript entry',
+    tag: TAG,
+    body: s.object(
+      {
+        speaker: s.enum(['interviewer', 'candidate']),
+        text: s.string({ minLength: 1 }),
+        userId: s.uuid(),
+        confidence: s.number(),
+        durationMs: s.number(),
+        offsetSeconds: s.number(),
+        merge: s.boolean(),
+      },
+      ['speaker', 'text']
+    ),
+  },
+  {
+    method: 'GET',
+    path: '/internal/coseat/:id/transcript',
+    summary: 'Get the transcript',
+    tag: TAG,
+    query: s.object({ userId: s.uuid() }),
+  },
+  { method: 'GET', path: '/internal/coseat/:id/suggestions', summary: 'List AI suggestions', tag: TAG },
+  {
+    method: 'POST',
+    path: '/internal/coseat/:id/suggestions',
+    summary: 'Generate AI suggestions',
+    tag: TAG,
+    body: s.object({ userId: s.uuid(), locale: s.string() }),
+  },
+  {
+    method: 'GET',
+    path: '/internal/coseat/:id/audio',
+    summary: 'Signed URL for the session recording',
+    tag: TAG,
+    query: s.object({ userId: s.uuid() }),
+  },
+]
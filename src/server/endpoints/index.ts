@@ -0,0 +1,49 @@
+import type { EndpointSpec, HttpMethod } from '../types'
+import { authEndpoints } from './auth'
+import { companyEndpoints } from './companies'
+import { copilotInterviewEndpoints } from './copilot-interviews'
+import { coseatEndpoints } from './coseat'
+import { infrastructureEndpoints } from './infrastructure'
+import { interviewCodeEndpoints } from './interview-codes'
+import { interviewEndpoints } from './interviews'
+import { schedulerEndpoints } from './scheduler'
+
+/** Gives specs without an explicit scope `<group>:read` for GETs and `<group>:write` otherwise. */
+function withScopes(group: string, specs: EndpointSpec[]): EndpointSpec[] {
+  return specs.map((spec) =>
+    spec.scope !== undefined ? spec : { ...spec, scope: `${group}:${spec.method === 'GET' ? 'read' : 'write'}` }
+  )
+}
+
+export const ENDPOINTS: EndpointSpec[] = [
+  { method: 'GET', path: '/health', summary: 'Liveness probe', tag: 'Service', public: true },
+  {
+    method: 'GET',
+    path: '/ready',
+    summary: 'Readiness probe: 503 when Supabase or the queue backend is unreachable or the instance is shutting down',
+    tag: 'Service',
+    public: true,
+  },
+  {
+    method: 'GET',
+    path: '/metrics',
+    summary: 'Prometheus metrics (bearer METRICS_TOKEN when set)',
+    tag: 'Service',
+    public: true,
+  },
+  { method: 'GET', path: '/internal/openapi.json', summary: 'OpenAPI document for this API', tag: 'Service', scope: null },
+  ...withScopes('interviews', interviewCodeEndpoints),
+  ...withScopes('interviews', interviewEndpoints),
+  ...withScopes('copilot', copilotInterviewEndpoints),
+  ...withScopes('coseat', coseatEndpoints),
+  ...withScopes('media', infrastructureEndpoints),
+  ...withScopes('billing', companyEndpoints),
+  ...withScopes('ops', schedulerEndpoints),
+  ...authEndpoints,
+]
+
+const specsByRoute = new Map(ENDPOINTS.map((spec) => [`${spec.method} ${spec.path}`, spec]))
+
+export function getEndpointSpec(method: HttpMethod, path: string): EndpointSpec | null {
+  return specsByRoute.get(`${method} ${path}`) ?? null
+}
@@ -0,0 +1,133 @@
+import { s } from '../schema'
+import type { EndpointSpec } from '../types'
+
+export const infrastructureEndpoints: EndpointSpec[] = [
+  {
+    method: 'POST',
+    path: '/internal/livekit/token',
+    summary: 'LiveKit access token for a standard interview',
+    tag: 'LiveKit',
+    body: s.object(
+      {
+        interviewId: s.uuid(),
+        candidateId: s.uuid(),
+        identity: s.string(),
+        name: s.string(),
+        metadata: s.string(),
+        countryCode: s.string(),
+      },
+      ['interviewId', 'candidateId']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/livekit/webhook',
+    summary: 'LiveKit webhook receiver',
+    tag: 'LiveKit',
+    bodyContentType: 'text/plain',
+    scope: 'webhooks:livekit',
+  },
+  { method: 'GET', path: '/internal/livekit/webhook', summary: 'LiveKit webhook probe', tag: 'LiveKit', scope: 'webhooks:livekit' },
+  {
+    method: 'GET',
+    path: '/internal/azure-speech/token',
+    summary: 'Azure Speech token',
+    tag: 'Speech',
+    query: s.object({ userId: s.uuid(), candidateId: s.uuid(), copilotInterviewId: s.uuid() }),
+  },
+  {
+    method: 'POST',
+    path: '/internal/azure-speech/token',
+    summary: 'Azure Speech token',
+    tag: 'Speech',
+    body: s.object({ userId: s.uuid(), candidateId: s.uuid(), copilotInterviewId: s.uuid() }),
+  },
+  {
+    method: 'POST',
+    path: '/internal/azure-speech/recognize',
+    summary: 'Recognize speech in an audio file',
+    tag: 'Speech',
+    bodyContentType: 'multipart/form-data',
+  },
+  {
+    method: 'POST',
+    path: '/internal/azure-tts',
+    summary: 'Synthesize speech',
+    tag: 'Speech',
+    body: s.object(
+      { text: s.string({ minLength: 1 }), voice: s.string(), language: s.string(), rate: s.string(), pitch: s.string() },
+      ['text']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/liveavatar/create-custom-session',
+    summary: 'Create a LiveAvatar session',
+    tag: 'Digital human',
+    body: s.object(
+      { interviewId: s.uuid(), avatarId: s.string({ minLength: 1 }), language: s.string({ minLength: 1 }) },
+      ['interviewId', 'avatarId', 'language']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/liveavatar/keep-alive',
+    summary: 'Keep a LiveAvatar session alive',
+    tag: 'Digital human',
+    body: s.object({ sessionId: s.string({ minLength: 1 }) }, ['sessionId']),
+  },
+  {
+    method: 'POST',
+    path: '/internal/liveavatar/end-session',
+    summary: 'End a LiveAvatar session',
+    tag: 'Digital human',
+    body: s.object({ sessionId: s.string() }),
+  },
+  {
+    method: 'GET',
+    path: '/internal/digital-human/config',
+    summary: 'Digital human provider configuration',
+    tag: 'Digital human',
+    query: s.object({
+      language: s.string(),
+      interviewId: s.uuid(),
+      candidateName: s.string(),
+      interviewMode: s.string(),
+    }),
+  },
+  { method: 'GET', path: '/internal/did/agent', summary: 'D-ID client configuration', tag: 'Digital human' },
+  {
+    method: 'POST',
+    path: '/internal/did/stream',
+    summary: 'Create a D-ID stream',
+    tag: 'Digital human',
+    body: s.object({ presenterUrl: s.string() }),
+  },
+  {
+    method: 'DELETE',
+    path: '/internal/did/stream',
+    summary: 'Close a D-ID stream',
+    tag: 'Digital human',
+    query: s.object({ sessionId: s.string() }, ['sessionId']),
+  },
+  {
+    method: 'POST',
+    path: '/internal/did/sdp',
+    summary: 'Send the WebRTC answer for a D-ID stream',
+    tag: 'Digital human',
+    body: s.object(
+      { sessionId: s.string({ minLength: 1 }), session_id: s.string({ minLength: 1 }), answer: s.any('SDP answer') },
+      ['sessionId', 'session_id', 'answer']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/did/talk',
+    summary: 'Make the D-ID presenter speak',
+    tag: 'Digital human',
+    body: s.object(
+      { sessionId: s.string({ minLength: 1 }), text: s.string({ minLength: 1 }), streamId: s.string() },
+      ['sessionId', 'text']
+    ),
+  },
+]
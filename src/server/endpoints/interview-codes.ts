@@ -0,0 +1,33 @@
+import { s } from '../schema'
+import type { EndpointSpec } from '../types'
+
+const TAG = 'Interview codes'
+
+export const interviewCodeEndpoints: EndpointSpec[] = [
+  {
+    method: 'POST',
+    path: '/internal/interview-codes/verify',
+    summary: 'Check an interview code for a job',
+    tag: TAG,
+    body: s.object({ code: s.string({ minLength: 1 }), jobId: s.uuid() }, ['code', 'jobId']),
+  },
+  {
+    method: 'POST',
+    path: '/internal/interview-codes/use',
+    summary: 'Record use of an interview code',
+    tag: TAG,
+    body: s.object(
+      {
+        codeId: s.uuid(),
+        candidateId: s.uuid(),
+        candidateEmail: s.string(),
+        candidateName: s.string(),
+        success: s.boolean(),
+        errorMessage: s.string(),
+        ipAddress: s.string(),
+        userAgent: s.string(),
+      },
+      ['codeId']
+    ),
+  },
+]
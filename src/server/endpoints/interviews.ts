@@ -0,0 +1,220 @@
+import { REFUND_REASONS } from '../../credits/refunds'
+import { INTERVIEW_MODES, LEGACY_MODE_MAP } from '../../interview/modes'
+import { s } from '../schema'
+import type { EndpointSpec } from '../types'
+
+const TAG = 'Interviews'
+
+const interviewModes = [...Object.values(INTERVIEW_MODES), ...Object.keys(LEGACY_MODE_MAP)]
+
+export const interviewEndpoints: EndpointSpec[] = [
+  {
+    method: 'POST',
+    path: '/internal/interviews/create',
+    summary: 'Create an interview for a candidate',
+    tag: TAG,
+    idempotent: true,
+    body: s.object(
+      {
+        candidateId: s.uuid(),
+        jobId: s.uuid(),
+        codeId: s.uuid({ description: 'Interview code the candidate used, if any' }),
+        interviewMode: s.enum(interviewModes),
+      },
+      ['candidateId', 'jobId']
+    ),
+  },
+  { method: 'POST', path: '/internal/interviews/cleanup', summary: 'End stale standard interviews', tag: TAG, scope: 'ops:write' },
+  { method: 'POST', path: '/internal/interviews/cleanup-all', summary: 'End stale interviews of every kind', tag: TAG, scope: 'ops:write' },
+  {
+    method: 'POST',
+    path: '/internal/interviews/analyze',
+    summary: 'Queue interview analysis',
+    tag: TAG,
+    body: s.object(
+      {
+        interviewId: s.uuid(),
+        locale: s.string(),
+        sendEmail: s.boolean({ description: 'Defaults to true, or false when `force` is set' }),
+        force: s.boolean({ description: 'Re-analyze; the previous result is kept as a version' }),
+      },
+      ['interviewId']
+    ),
+  },
+  {
+    method: 'GET',
+    path: '/internal/interviews/analyze/dead-letters',
+    summary: 'List dead-lettered analysis messages',
+    tag: TAG,
+    scope: 'ops:read',
+    query: s.object({ limit: s.integer({ minimum: 1 }) }),
+  },
+  {
+    method: 'GET',
+    path: '/internal/interviews/analyze/dead-letters/:messageId',
+    summary: 'Get a dead-lettered analysis message',
+    tag: TAG,
+    scope: 'ops:read',
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/analyze/dead-letters/:messageId/requeue',
+    summary: 'Requeue a dead-lettered analysis message',
+    tag: TAG,
+    scope: 'ops:write',
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/questions',
+    summary: 'Generate interview questions',
+    tag: TAG,
+    body: s.object(
+      {
+        interviewId: s.uuid(),
+        jobTitle: s.string({ minLength: 1 }),
+        jobId: s.uuid(),
+        jobDescription: s.string(),
+        requirements: s.any('String or list of requirements'),
+        candidateId: s.uuid(),
+        interviewDuration: s.any('Minutes, as a number or numeric string'),
+        language: s.string(),
+      },
+      ['interviewId', 'jobTitle']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/conversation',
+    summary: 'Next turn of a conversational interview',
+    tag: TAG,
+    body: s.object(
+      {
+        interviewId: s.uuid(),
+        userMessage: s.string({ minLength: 1 }),
+        currentTopic: s.string({ minLength: 1 }),
+        topicsCovered: s.array(s.any()),
+        conversationHistory: s.array(s.any()),
+        isScreenSharing: s.boolean(),
+        remainingMinutes: s.any('Minutes left, as a number or numeric string'),
+        language: s.string(),
+        allTopics: s.array(s.string()),
+      },
+      ['interviewId', 'userMessage', 'currentTopic']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/analyze-message',
+    summary: 'Analyze a single candidate message',
+    tag: TAG,
+    body: s.object(
+      {
+        message: s.string({ minLength: 1 }),
+        currentTopic: s.string({ minLength: 1 }),
+        language: s.string(),
+        interviewId: s.uuid(),
+      },
+      ['message', 'currentTopic']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/evaluate-topic',
+    summary: 'Evaluate the candidate on one topic',
+    tag: TAG,
+    body: s.object(
+      {
+        topic: s.string({ minLength: 1 }),
+        conversation: s.array(
+          s.object({ speaker: s.string(), text: s.string(), timestamp: s.string() }, ['speaker', 'text']),
+          { minItems: 1 }
+        ),
+        language: s.string(),
+        interviewId: s.uuid(),
+      },
+      ['topic', 'conversation']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/heartbeat',
+    summary: 'Record interview liveness and bill elapsed minutes',
+    tag: TAG,
+    body: s.object({ interviewId: s.uuid() }, ['interviewId']),
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/transcript',
+    summary: 'Save an interview transcript entry',
+    tag: TAG,
+    body: s.object(
+      {
+        interviewId: s.uuid(),
+        question: s.string(),
+        answer: s.string(),
+        message: s.object({ speaker: s.string(), text: s.string() }),
+      },
+      ['interviewId']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/livekit/start',
+    summary: 'Start LiveKit recording',
+    tag: TAG,
+    body: s.object(
+      { interviewId: s.uuid(), videoTrackSid: s.string({ minLength: 1 }), audioTrackSid: s.string() },
+      ['interviewId', 'videoTrackSid']
+    ),
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/livekit/stop',
+    summary: 'Stop LiveKit recording',
+    tag: TAG,
+    body: s.object({ interviewId: s.uuid() }, ['interviewId']),
+  },
+  { method: 'GET', path: '/internal/interviews/:id/recording/status', summary: 'Recording status', tag: TAG },
+  { method: 'GET', path: '/internal/interviews/:id', summary: 'Get an interview', tag: TAG },
+  { method: 'GET', path: '/internal/interviews/:id/analysis-jobs', summary: 'List analysis jobs', tag: TAG },
+  { method: 'GET', path: '/internal/interviews/:id/llm-usage', summary: 'Model usage and cost', tag: TAG, scope: 'billing:read' },
+  {
+    method: 'POST',
+    path: '/internal/interviews/:id/credits/refund',
+    summary: 'Refund credits charged for an interview',
+    tag: TAG,
+    scope: 'billing:write',
+    body: s.object(
+      {
+        reason: s.enum(REFUND_REASONS),
+        amount: s.integer({ minimum: 1, description: 'Defaults to the unrefunded balance' }),
+        note: s.string({ maxLength: 500 }),
+        userId: s.uuid(),
+      },
+      ['reason']
+    ),
+  },
+  { method: 'GET', path: '/internal/interviews/:id/analysis-versions', summary: 'List analysis versions', tag: TAG },
+  {
+    method: 'GET',
+    path: '/internal/interviews/:id/analysis-versions/diff',
+    summary: 'Diff two analysis versions',
+    tag: TAG,
+    query: s.object({ from: s.integer({ minimum: 1 }), to: s.integer({ minimum: 1 }) }),
+  },
+  {
+    method: 'POST',
+    path: '/internal/interviews/:id/consent',
+    summary: 'Record candidate recording consent',
+    tag: TAG,
+    body: s.object({ consent: s.boolean() }, ['consent']),
+  },
+  { method: 'GET', path: '/internal/interviews/:id/state', summary: 'Get conversation state', tag: TAG },
+  {
+    method: 'PUT',
+    path: '/internal/interviews/:id/state',
+    summary: 'Replace conversation state',
+    tag: TAG,
+    body: s.object({ conversation_state: s.any('Conversation state object') }, ['conversation_state']),
+  },
+]
@@ -0,0 +1,15 @@
+import { s } from '../schema'
+import type { EndpointSpec } from '../types'
+
+const TAG = 'Scheduler'
+
+export const schedulerEndpoints: EndpointSpec[] = [
+  { method: 'GET', path: '/internal/scheduler/jobs', summary: 'Scheduled job state on this instance', tag: TAG },
+  {
+    method: 'GET',
+    path: '/internal/scheduler/runs',
+    summary: 'Scheduled job run history',
+    tag: TAG,
+    query: s.object({ job: s.string(), limit: s.integer({ minimum: 1 }) }),
+  },
+]
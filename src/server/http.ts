@@ -1,10 +1,23 @@
 import http from 'node:http'
 
+// Node's own default for `server.requestTimeout`.
+const DEFAULT_REQUEST_TIMEOUT_MS = 5 * 60 * 1000
+
+/** How long a request may take before its connection is dropped (`HTTP_REQUEST_TIMEOUT_MS`). */
+export function getRequestTimeoutMs(): number {
+  const value = Number(process.env.HTTP_REQUEST_TIMEOUT_MS)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_REQUEST_TIMEOUT_MS
+}
+
 export function sendJson(res: http.ServerResponse, status: number, body: unknown) {
   res.writeHead(status, { 'content-type': 'application/json' })
   res.end(JSON.stringify(body))
 }
 
+export function sendResponse(res: http.ServerResponse, response: { status: number; body: unknown }) {
+  sendJson(res, response.status, response.body)
+}
+
 export function sendJsonWithHeaders(
   res: http.ServerResponse,
   status: number,
@@ -15,28 +28,40 @@ export function sendJsonWithHeaders(
   res.end(JSON.stringify(body))
 }
 
-export async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+// Request validation reads the body before the route handler does, so the bytes are kept per request.
+const rawBodies = new WeakMap<http.IncomingMessage, Promise<Buffer>>()
+
+async function collectBody(req: http.IncomingMessage): Promise<Buffer> {
   const chunks: Buffer[] = []
   for await (const chunk of req) {
     chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
   }
-  if (chunks.length === 0) return null
+  return Buffer.concat(chunks)
+}
+
+export function readRawBody(req: http.IncomingMessage): Promise<Buffer> {
+  let pending = rawBodies.get(req)
+  if (!pending) {
+    pending = collectBody(req)
+    rawBodies.set(req, pending)
+  }
+  return pending
+}
+
+export async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const raw = await readRawBody(req)
+  if (raw.length === 0) return null
 
-  const raw = Buffer.concat(chunks).toString('utf8')
   try {
-    return JSON.parse(raw) as unknown
+    return JSON.parse(raw.toString('utf8')) as unknown
   } catch {
     return null
   }
 }
 
 export async function readTextBody(req: http.IncomingMessage): Promise<string> {
-  const chunks: Buffer[] = []
-  for await (const chunk of req) {
-    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
-  }
-
-  return Buffer.concat(chunks).toString('utf8')
+  const raw = await readRawBody(req)
+  return raw.toString('utf8')
 }
 
 export async function readFormDataBody(req: http.IncomingMessage, url: URL): Promise<FormData | null> {
@@ -58,3 +83,11 @@ export function asRecord(value: unknown): Record<string, unknown> | null {
   if (!value || typeof value !== 'object' || Array.isArray(value)) return null
   return value as Record<string, unknown>
 }
+
+export function sendCsv(res: http.ServerResponse, status: number, csv: string, filename: string) {
+  res.writeHead(status, {
+    'content-type': 'text/csv; charset=utf-8',
+    'content-disposition': `attachment; filename="${filename.replace(/"/g, '')}"`,
+  })
+  res.end(csv)
+}
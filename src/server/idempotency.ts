@@ -0,0 +1,245 @@
+import { createHash } from 'node:crypto'
+import { createAdminClient } from '../supabase/admin'
+import { toJson } from '../supabase/json'
+import { getRequestTimeoutMs, sendJson, sendJsonWithHeaders } from './http'
+import type { Middleware, RouteContext } from './types'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Idempotency' })
+
+export const IDEMPOTENCY_TABLE = 'idempotency_keys'
+
+const DEFAULT_IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000
+// A claim whose request never finished (crash, deploy) stops blocking retries this long after the
+// request itself would have timed out.
+const IN_PROGRESS_GRACE_MS = 30_000
+const MAX_MEMORY_RECORDS = 10_000
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/
+
+interface IdempotencyRecord {
+  id: string
+  request_hash: string
+  state: 'in_progress' | 'completed'
+  response_status: number | null
+  response_body: unknown
+  expires_at: string
+}
+
+type ClaimResult = { claimed: true } | { claimed: false; existing: IdempotencyRecord }
+
+function getIdempotencyTtlMs(): number {
+  const value = Number(process.env.IDEMPOTENCY_TTL_MS)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_IDEMPOTENCY_TTL_MS
+}
+
+function sha256Hex(value: string): string {
+  return createHash('sha256').update(value).digest('hex')
+}
+
+/** JSON with sorted object keys, so `{a,b}` and `{b,a}` count as the same request body. */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+// Used when the idempotency table has not been migrated yet; only protects retries that land on
+// the same instance.
+const memoryRecords = new Map<string, IdempotencyRecord>()
+let tableMissing = false
+
+function markTableMissing(): void {
+  if (tableMissing) return
+  tableMissing = true
+  log.warn(`${IDEMPOTENCY_TABLE} table is missing; keys are kept in memory on this instance only`)
+}
+
+/** Drops expired keys and, if the map is still full, the oldest claims. */
+function pruneMemoryRecords(now: number): void {
+  for (const [id, record] of memoryRecords) {
+    if (new Date(record.expires_at).getTime() <= now) memoryRecords.delete(id)
+  }
+  for (const id of memoryRecords.keys()) {
+    if (memoryRecords.size < MAX_MEMORY_RECORDS) break
+    memoryRecords.delete(id)
+  }
+}
+
+function claimInMemory(record: IdempotencyRecord): ClaimResult {
+  const now = Date.now()
+  const existing = memoryRecords.get(record.id)
+  if (existing && new Date(existing.expires_at).getTime() > now) {
+    return { claimed: false, existing }
+  }
+  if (memoryRecords.size >= MAX_MEMORY_RECORDS) pruneMemoryRecords(now)
+  memoryRecords.set(record.id, record)
+  return { claimed: true }
+}
+
+async function claimKey(record: IdempotencyRecord, meta: { key: string; route: string; caller: string | null }): Promise<ClaimResult> {
+  if (tableMissing) return claimInMemory(record)
+
+  const supabase = createAdminClient()
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { error } = await supabase.from(IDEMPOTENCY_TABLE).insert({
+      ...record,
+      idempotency_key: meta.key,
+      route: meta.route,
+      caller: meta.caller,
+      response_body: null,
+    })
+    if (!error) return { claimed: true }
+
+    if (error.code === '42P01') {
+      markTableMissing()
+      return claimInMemory(record)
+    }
+    if (error.code !== '23505') throw new Error(error.message)
+
+    const { data, error: fetchError } = await supabase
+      .from(IDEMPOTENCY_TABLE)
+      .select('id, request_hash, state, response_status, response_body, expires_at')
+      .eq('id', record.id)
+      .maybeSingle()
+    if (fetchError) throw new Error(fetchError.message)
+
+    const existing = data as IdempotencyRecord | null
+    if (existing && new Date(existing.expires_at).getTime() > Date.now()) {
+      return { claimed: false, existing }
+    }
+
+    // Expired (or deleted between the insert and the read): clear it and claim once more.
+    await supabase.from(IDEMPOTENCY_TABLE).delete().eq('id', record.id).lt('expires_at', new Date().toISOString())
+  }
+
+  throw new Error('Could not claim idempotency key')
+}
+
+async function completeKey(id: string, status: number, body: unknown): Promise<void> {
+  const update = {
+    state: 'completed' as const,
+    response_status: status,
+    response_body: toJson(body),
+    expires_at: new Date(Date.now() + getIdempotencyTtlMs()).toISOString(),
+  }
+
+  if (tableMissing) {
+    const existing = memoryRecords.get(id)
+    if (existing) memoryRecords.set(id, { ...existing, ...update })
+    return
+  }
+
+  const { error } = await createAdminClient().from(IDEMPOTENCY_TABLE).update(update).eq('id', id)
+  if (error) log.warn('Failed to store response', { idempotencyId: id, err: error })
+}
+
+async function releaseKey(id: string): Promise<void> {
+  if (tableMissing) {
+    memoryRecords.delete(id)
+    return
+  }
+
+  const { error } = await createAdminClient().from(IDEMPOTENCY_TABLE).delete().eq('id', id).eq('state', 'in_progress')
+  if (error) log.warn('Failed to release key', { idempotencyId: id, err: error })
+}
+
+/** Keeps a copy of the JSON the handler sends so it can be stored for replays. */
+function captureResponseBody(ctx: RouteContext): () => unknown {
+  const chunks: Buffer[] = []
+  const res = ctx.res
+  const end = res.end.bind(res) as (...args: unknown[]) => typeof res
+
+  res.end = ((...args: unknown[]) => {
+    const chunk = args[0]
+    if (typeof chunk === 'string' || Buffer.isBuffer(chunk)) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+    }
+    return end(...args)
+  }) as typeof res.end
+
+  return () => {
+    const text = Buffer.concat(chunks).toString('utf8')
+    try {
+      return text ? (JSON.parse(text) as unknown) : null
+    } catch {
+      return text
+    }
+  }
+}
+
+/**
+ * Honors `Idempotency-Key` on routes whose spec sets `idempotent`. The first response per key (per
+ * caller and path) is stored and replayed to retries within `IDEMPOTENCY_TTL_MS`; reusing a key with
+ * a different body is a 422 and a retry racing the original is a 409. 5xx responses are not stored,
+ * so the request can be retried.
+ */
+export const idempotency: Middleware = async (ctx, next) => {
+  const header = ctx.req.headers['idempotency-key']
+  const key = Array.isArray(header) ? header[0] : header
+  if (!ctx.spec?.idempotent || !key) {
+    await next()
+    return
+  }
+
+  if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    sendJson(ctx.res, 400, { error: 'Idempotency-Key must be 1-255 printable ASCII characters' })
+    return
+  }
+
+  const caller = ctx.caller?.name ?? null
+  const id = sha256Hex(`${caller ?? '-'}\n${ctx.method} ${ctx.pathname}\n${key}`)
+  const requestHash = sha256Hex(stableStringify(ctx.body))
+
+  let claim: ClaimResult
+  try {
+    claim = await claimKey(
+      {
+        id,
+        request_hash: requestHash,
+        state: 'in_progress',
+        response_status: null,
+        response_body: null,
+        expires_at: new Date(Date.now() + getRequestTimeoutMs() + IN_PROGRESS_GRACE_MS).toISOString(),
+      },
+      { key, route: ctx.spec.path, caller }
+    )
+  } catch (error) {
+    log.error('Failed to claim key', { err: error })
+    sendJson(ctx.res, 500, { error: 'Failed to check Idempotency-Key' })
+    return
+  }
+
+  if (!claim.claimed) {
+    const { existing } = claim
+    if (existing.request_hash !== requestHash) {
+      sendJson(ctx.res, 422, { error: 'Idempotency-Key was already used with a different request body' })
+    } else if (existing.state === 'in_progress') {
+      sendJson(ctx.res, 409, { error: 'A request with this Idempotency-Key is still in progress' })
+    } else {
+      sendJsonWithHeaders(ctx.res, existing.response_status ?? 200, existing.response_body, {
+        'idempotent-replayed': 'true',
+      })
+    }
+    return
+  }
+
+  const readBody = captureResponseBody(ctx)
+  try {
+    await next()
+  } catch (error) {
+    await releaseKey(id)
+    throw error
+  }
+
+  const status = ctx.res.statusCode
+  if (status >= 500) {
+    await releaseKey(id)
+  } else {
+    await completeKey(id, status, readBody())
+  }
+}
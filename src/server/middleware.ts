@@ -0,0 +1,110 @@
+import { randomUUID } from 'node:crypto'
+import { httpRequestDuration, httpRequestsTotal } from '../metrics'
+import { addLogContext, bindLogContext, logger, type LogContext } from '../utils/logger'
+import { recordInternalApiCall } from './audit'
+import { authorizeInternalRequest } from './auth'
+import { asRecord, readJsonBody, sendJson } from './http'
+import type { Middleware } from './types'
+
+const DEFAULT_SLOW_REQUEST_MS = 2000
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/
+
+/** Reuses the caller's `x-request-id` when it looks sane, otherwise generates one, and echoes it back. */
+export const requestId: Middleware = async (ctx, next) => {
+  const header = ctx.req.headers['x-request-id']
+  const incoming = Array.isArray(header) ? header[0] : header
+  ctx.requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID()
+  ctx.res.setHeader('x-request-id', ctx.requestId)
+  addLogContext({ requestId: ctx.requestId })
+  await next()
+}
+
+function getSlowRequestMs(): number {
+  const value = Number(process.env.HTTP_SLOW_REQUEST_MS)
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_SLOW_REQUEST_MS
+}
+
+/**
+ * Records request metrics and logs every request at debug level, or at warn when it fails with a
+ * 5xx or exceeds `HTTP_SLOW_REQUEST_MS`.
+ */
+export const timing: Middleware = async (ctx, next) => {
+  ctx.startedAt = Date.now()
+  ctx.res.once(
+    'finish',
+    bindLogContext(() => {
+      const durationMs = Date.now() - ctx.startedAt
+      const status = ctx.res.statusCode
+      const fields = { component: 'HTTP', method: ctx.method, path: ctx.pathname, status, durationMs }
+      // Unmatched paths share one label so scanners cannot create unbounded series.
+      const route = ctx.spec?.path ?? '(unmatched)'
+      httpRequestsTotal.inc({ method: ctx.method, route, status })
+      httpRequestDuration.observe({ method: ctx.method, route }, durationMs / 1000)
+      if (status >= 500 || durationMs >= getSlowRequestMs()) {
+        logger.warn(status >= 500 ? 'request failed' : 'slow request', fields)
+      } else {
+        logger.debug('request completed', fields)
+      }
+    })
+  )
+  await next()
+}
+
+/**
+ * Requires an internal API token granting the route's scope on `/internal/*`, so unknown internal
+ * paths answer 401, not 404. Every call is counted against the token that made it.
+ */
+export const internalAuth: Middleware = async (ctx, next) => {
+  if (!ctx.pathname.startsWith('/internal/') || ctx.spec?.public) {
+    await next()
+    return
+  }
+
+  const auth = authorizeInternalRequest(ctx.req, ctx.spec?.scope ?? null)
+  ctx.caller = auth.caller
+  addLogContext({ caller: auth.caller?.name })
+  ctx.res.once('finish', () => {
+    // Unmatched paths share one bucket so scanners cannot grow the audit without bound.
+    recordInternalApiCall(ctx.caller, ctx.method, ctx.spec?.path ?? '(unmatched)', ctx.res.statusCode)
+  })
+
+  if (!auth.ok) {
+    sendJson(ctx.res, auth.status, auth.body)
+    return
+  }
+  await next()
+}
+
+/** Parses JSON bodies into `ctx.body`; multipart and raw-text routes read the stream themselves. */
+export const parseJsonBody: Middleware = async (ctx, next) => {
+  if (ctx.method !== 'GET' && !ctx.spec?.bodyContentType) {
+    ctx.body = await readJsonBody(ctx.req)
+  }
+  await next()
+}
+
+// `:id` on these route prefixes names the record the request is about.
+const ROUTE_ID_FIELDS: Array<[prefix: string, field: keyof LogContext]> = [
+  ['/internal/interviews/:id', 'interviewId'],
+  ['/internal/copilot-interviews/:id', 'copilotInterviewId'],
+  ['/internal/coseat/:id', 'coseatInterviewId'],
+  ['/internal/companies/:id', 'companyId'],
+]
+
+const BODY_ID_FIELDS = ['interviewId', 'copilotInterviewId', 'candidateId', 'jobId', 'companyId'] as const
+
+/** Tags the request's log lines with the route and the interview/company ids it names in its path or body. */
+export const logContext: Middleware = async (ctx, next) => {
+  const fields: LogContext = { route: ctx.spec?.path }
+
+  const idField = ctx.spec && ctx.params.id ? ROUTE_ID_FIELDS.find(([prefix]) => ctx.spec!.path.startsWith(prefix)) : null
+  if (idField) Object.assign(fields, { [idField[1]]: ctx.params.id })
+
+  const body = asRecord(ctx.body)
+  for (const key of BODY_ID_FIELDS) {
+    if (typeof body?.[key] === 'string' && !(key in fields)) Object.assign(fields, { [key]: body[key] })
+  }
+
+  addLogContext(fields)
+  await next()
+}
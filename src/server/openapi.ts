@@ -0,0 +1,173 @@
+import { ENDPOINTS } from './endpoints'
+import type { Schema } from './schema'
+import type { EndpointSpec } from './types'
+
+const API_VERSION = '0.1.0'
+
+const errorSchema: Schema = {
+  type: 'object',
+  properties: { error: { type: 'string' } },
+  required: ['error'],
+}
+
+const validationErrorSchema: Schema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string', enum: ['Invalid request'] },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'e.g. `body.candidateId` or `query.limit`' },
+          message: { type: 'string' },
+        },
+        required: ['path', 'message'],
+      },
+    },
+  },
+  required: ['error', 'issues'],
+}
+
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)/g, '{$1}')
+}
+
+/** e.g. `GET /internal/interviews/:id/state` becomes `getInterviewsByIdState`. */
+function toOperationId(spec: EndpointSpec): string {
+  const words = spec.path
+    .split('/')
+    .filter((segment) => segment && segment !== 'internal')
+    .map((segment) => (segment.startsWith(':') ? `by-${segment.slice(1)}` : segment))
+  const name = `-${words.join('-')}`.replace(/[^A-Za-z0-9]+([A-Za-z0-9])/g, (_, char: string) => char.toUpperCase())
+  return `${spec.method.toLowerCase()}${name}`
+}
+
+function buildOperation(spec: EndpointSpec): Record<string, unknown> {
+  const parameters: Array<Record<string, unknown>> = []
+
+  for (const match of spec.path.matchAll(/:([A-Za-z0-9_]+)/g)) {
+    parameters.push({ name: match[1], in: 'path', required: true, schema: { type: 'string' } })
+  }
+
+  if (spec.idempotent) {
+    parameters.push({
+      name: 'Idempotency-Key',
+      in: 'header',
+      required: false,
+      description: 'Retries with the same key replay the first response instead of repeating the side effects',
+      schema: { type: 'string', maxLength: 255 },
+    })
+  }
+
+  const queryRequired = new Set(spec.query?.required ?? [])
+  for (const [name, schema] of Object.entries(spec.query?.properties ?? {})) {
+    const { description, ...rest } = schema
+    parameters.push({
+      name,
+      in: 'query',
+      required: queryRequired.has(name),
+      ...(description ? { description } : {}),
+      schema: rest,
+    })
+  }
+
+  const operation: Record<string, unknown> = {
+    operationId: toOperationId(spec),
+    summary: spec.summary,
+    ...(spec.scope ? { description: `Requires the \`${spec.scope}\` token scope.`, 'x-required-scope': spec.scope } : {}),
+    tags: [spec.tag],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    responses: {
+      '200': { description: 'Success' },
+      ...(spec.body || spec.query ? { '400': { $ref: '#/components/responses/ValidationError' } } : {}),
+      ...(spec.public ? {} : { '401': { $ref: '#/components/responses/Unauthorized' } }),
+      ...(spec.scope ? { '403': { $ref: '#/components/responses/Forbidden' } } : {}),
+      ...(spec.idempotent
+        ? {
+            '409': { description: 'A request with the same Idempotency-Key is still in progress' },
+            '422': { description: 'Idempotency-Key was already used with a different request body' },
+          }
+        : {}),
+      '500': { $ref: '#/components/responses/Error' },
+    },
+    ...(spec.public ? { security: [] } : {}),
+  }
+
+  if (spec.body) {
+    operation.requestBody = {
+      required: (spec.body.required?.length ?? 0) > 0,
+      content: { 'application/json': { schema: spec.body } },
+    }
+  } else if (spec.bodyContentType) {
+    operation.requestBody = {
+      required: true,
+      content: {
+        [spec.bodyContentType]: { schema: spec.bodyContentType === 'text/plain' ? { type: 'string' } : { type: 'object' } },
+      },
+    }
+  }
+
+  return operation
+}
+
+let cachedDocument: Record<string, unknown> | null = null
+
+/** OpenAPI 3.0 document generated from the endpoint specs the request validator uses. */
+export function buildOpenApiDocument(): Record<string, unknown> {
+  if (cachedDocument) return cachedDocument
+
+  const paths: Record<string, Record<string, unknown>> = {}
+  for (const spec of ENDPOINTS) {
+    const path = toOpenApiPath(spec.path)
+    paths[path] = { ...paths[path], [spec.method.toLowerCase()]: buildOperation(spec) }
+  }
+
+  cachedDocument = {
+    openapi: '3.0.3',
+    info: {
+      title: 'foundire-interview internal API',
+      version: API_VERSION,
+    },
+    security: [{ internalToken: [] }],
+    paths,
+    components: {
+      securitySchemes: {
+        internalToken: {
+          type: 'http',
+          scheme: 'bearer',
+          description: 'A token from INTERNAL_API_TOKENS (or the legacy INTERNAL_API_TOKEN) granting the route scope',
+        },
+      },
+      schemas: { Error: errorSchema, ValidationError: validationErrorSchema },
+      responses: {
+        Error: {
+          description: 'Error',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+        },
+        Unauthorized: {
+          description: 'Missing or invalid bearer token',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+        },
+        Forbidden: {
+          description: 'Token lacks the required scope',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: { error: { type: 'string' }, requiredScope: { type: 'string' } },
+                required: ['error', 'requiredScope'],
+              },
+            },
+          },
+        },
+        ValidationError: {
+          description: 'Request body or query string failed validation',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/ValidationError' } } },
+        },
+      },
+    },
+  }
+
+  return cachedDocument
+}
@@ -0,0 +1,112 @@
+import { getConfiguredLiveKitRegions, healthCheckLiveKit } from '../livekit/geo-routing'
+import { getTransporter } from '../email/transporter'
+import { QUEUE_NAMES } from '../queue/queues'
+import { getQueueBackend } from '../queue'
+import { isShuttingDown } from '../shutdown'
+import { createAdminClient } from '../supabase/admin'
+
+const DEFAULT_CHECK_TIMEOUT_MS = 3000
+// SMTP verify opens a connection and LiveKit checks call the API, so their results are reused briefly.
+const SLOW_CHECK_CACHE_MS = 60_000
+
+type CheckStatus = 'ok' | 'failed' | 'skipped'
+
+export interface ReadinessCheck {
+  status: CheckStatus
+  /** Critical checks make `/ready` return 503; the others are reported but do not take the instance out of rotation. */
+  critical: boolean
+  durationMs: number
+  error?: string
+}
+
+export type ReadinessResponse = {
+  status: 200 | 503
+  body: { ready: boolean; shuttingDown: boolean; checks: Record<string, ReadinessCheck> }
+}
+
+function getCheckTimeoutMs(): number {
+  const value = Number(process.env.READINESS_CHECK_TIMEOUT_MS)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_CHECK_TIMEOUT_MS
+}
+
+async function runCheck(critical: boolean, check: () => Promise<CheckStatus>): Promise<ReadinessCheck> {
+  const startedAt = Date.now()
+  let timeoutId: NodeJS.Timeout | null = null
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(`timed out after ${getCheckTimeoutMs()}ms`)), getCheckTimeoutMs())
+  })
+
+  try {
+    const status = await Promise.race([check(), timeout])
+    return { status, critical, durationMs: Date.now() - startedAt }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    return { status: 'failed', critical, durationMs: Date.now() - startedAt, error: message }
+  } finally {
+    if (timeoutId) clearTimeout(timeoutId)
+  }
+}
+
+async function checkSupabase(): Promise<CheckStatus> {
+  const { error } = await createAdminClient().from('companies').select('id', { head: true }).limit(1)
+  if (error) throw new Error(error.message)
+  return 'ok'
+}
+
+async function checkQueue(): Promise<CheckStatus> {
+  await getQueueBackend().healthCheck(QUEUE_NAMES.interviewAnalyze)
+  return 'ok'
+}
+
+function cached(check: () => Promise<CheckStatus>): () => Promise<CheckStatus> {
+  let last: { at: number; result: Promise<CheckStatus> } | null = null
+  return () => {
+    if (!last || Date.now() - last.at >= SLOW_CHECK_CACHE_MS) {
+      const result = check()
+      last = { at: Date.now(), result }
+      // Failures are retried on the next probe instead of being cached.
+      result.catch(() => {
+        last = null
+      })
+    }
+    return last.result
+  }
+}
+
+const checkSmtp = cached(async () => {
+  if (!process.env.SMTP_ADDRESS) return 'skipped'
+  await getTransporter().verify()
+  return 'ok'
+})
+
+const checkLiveKit = cached(async () => {
+  const regions = getConfiguredLiveKitRegions()
+  if (regions.length === 0) return 'skipped'
+
+  const results = await Promise.all(regions.map(async (config) => [config.region, await healthCheckLiveKit(config)] as const))
+  const unhealthy = results.filter(([, healthy]) => !healthy).map(([region]) => region)
+  if (unhealthy.length > 0) throw new Error(`unreachable regions: ${unhealthy.join(', ')}`)
+  return 'ok'
+})
+
+/**
+ * Readiness for load balancers: Supabase and the queue backend must be reachable; SMTP and LiveKit are
+ * reported without failing the probe, since every replica shares them and pulling all of them
+ * would turn a degraded feature into a full outage. Always 503 once shutdown has begun.
+ */
+export async function handleReadiness(): Promise<ReadinessResponse> {
+  if (isShuttingDown()) {
+    return { status: 503, body: { ready: false, shuttingDown: true, checks: {} } }
+  }
+
+  const [supabase, queue, smtp, livekit] = await Promise.all([
+    runCheck(true, checkSupabase),
+    runCheck(true, checkQueue),
+    runCheck(false, checkSmtp),
+    runCheck(false, checkLiveKit),
+  ])
+  const checks = { supabase, queue, smtp, livekit }
+  const ready = Object.values(checks).every((check) => !check.critical || check.status !== 'failed')
+
+  return { status: ready ? 200 : 503, body: { ready, shuttingDown: false, checks } }
+}
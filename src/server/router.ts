@@ -0,0 +1,158 @@
+import type http from 'node:http'
+import { getEndpointSpec } from './endpoints'
+import { sendJson, sendJsonWithHeaders } from './http'
+import type { EndpointSpec, HttpMethod, Middleware, RouteContext, RouteHandler } from './types'
+import { createLogger } from '../utils/logger'
+
+const log = createLogger({ component: 'Router' })
+
+interface Route {
+  method: HttpMethod
+  path: string
+  segments: string[]
+  handler: RouteHandler
+  middleware: Middleware[]
+  spec: EndpointSpec | null
+}
+
+type RouteMatch =
+  | { route: Route; params: Record<string, string> }
+  | { route: null; allowed: HttpMethod[] }
+
+export function compose(middleware: Middleware[], handler: RouteHandler): RouteHandler {
+  return (ctx) => {
+    const dispatch = async (index: number): Promise<void> => {
+      const current = middleware[index]
+      if (!current) return handler(ctx)
+
+      let called = false
+      await current(ctx, () => {
+        if (called) throw new Error('next() called more than once')
+        called = true
+        return dispatch(index + 1)
+      })
+    }
+    return dispatch(0)
+  }
+}
+
+function matchSegments(pattern: string[], segments: string[]): { params: Record<string, string>; literals: number } | null {
+  if (pattern.length !== segments.length) return null
+
+  const params: Record<string, string> = {}
+  let literals = 0
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i].startsWith(':')) {
+      params[pattern[i].slice(1)] = segments[i]
+    } else if (pattern[i] === segments[i]) {
+      literals += 1
+    } else {
+      return null
+    }
+  }
+  return { params, literals }
+}
+
+const notFound: RouteHandler = async ({ res }) => {
+  sendJson(res, 404, { error: 'Not found' })
+}
+
+export class Router {
+  private readonly routes: Route[] = []
+  private readonly middleware: Middleware[] = []
+
+  /** Adds middleware that runs for every request, including 404s and 405s, in registration order. */
+  use(...middleware: Middleware[]): this {
+    this.middleware.push(...middleware)
+    return this
+  }
+
+  on(method: HttpMethod, path: string, handler: RouteHandler, ...middleware: Middleware[]): this {
+    const spec = getEndpointSpec(method, path)
+    if (!spec) {
+      log.warn('Route has no endpoint spec and is left out of /internal/openapi.json', { method, path })
+    }
+
+    this.routes.push({ method, path, segments: path.split('/').filter(Boolean), handler, middleware, spec })
+    return this
+  }
+
+  get(path: string, handler: RouteHandler, ...middleware: Middleware[]): this {
+    return this.on('GET', path, handler, ...middleware)
+  }
+
+  post(path: string, handler: RouteHandler, ...middleware: Middleware[]): this {
+    return this.on('POST', path, handler, ...middleware)
+  }
+
+  put(path: string, handler: RouteHandler, ...middleware: Middleware[]): this {
+    return this.on('PUT', path, handler, ...middleware)
+  }
+
+  patch(path: string, handler: RouteHandler, ...middleware: Middleware[]): this {
+    return this.on('PATCH', path, handler, ...middleware)
+  }
+
+  delete(path: string, handler: RouteHandler, ...middleware: Middleware[]): this {
+    return this.on('DELETE', path, handler, ...middleware)
+  }
+
+  /**
+   * Picks the route for a request. Registration order does not matter: when a literal and a
+   * `:param` segment both match (`/coseat/schedule` vs `/coseat/:id`), the most literal path wins.
+   */
+  match(method: string, segments: string[]): RouteMatch {
+    let best: { route: Route; params: Record<string, string>; literals: number } | null = null
+    const allowed = new Set<HttpMethod>()
+
+    for (const route of this.routes) {
+      const matched = matchSegments(route.segments, segments)
+      if (!matched) continue
+
+      if (route.method !== method) {
+        allowed.add(route.method)
+        continue
+      }
+      if (!best || matched.literals > best.literals) {
+        best = { route, ...matched }
+      }
+    }
+
+    return best ? { route: best.route, params: best.params } : { route: null, allowed: Array.from(allowed) }
+  }
+
+  async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const method = req.method || 'GET'
+    const url = new URL(req.url || '/', 'http://localhost')
+    const segments = url.pathname.split('/').filter(Boolean)
+    const matched = this.match(method, segments)
+
+    const ctx: RouteContext = {
+      req,
+      res,
+      method,
+      url,
+      pathname: url.pathname,
+      segments,
+      params: matched.route ? matched.params : {},
+      requestId: '',
+      startedAt: Date.now(),
+      spec: matched.route?.spec ?? null,
+      body: null,
+      caller: null,
+    }
+
+    if (matched.route) {
+      await compose([...this.middleware, ...matched.route.middleware], matched.route.handler)(ctx)
+      return
+    }
+
+    const allowed = matched.allowed
+    await compose(
+      this.middleware,
+      allowed.length > 0
+        ? async ({ res }) => sendJsonWithHeaders(res, 405, { error: 'Method not allowed' }, { allow: allowed.join(', ') })
+        : notFound
+    )(ctx)
+  }
+}
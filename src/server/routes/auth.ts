@@ -0,0 +1,9 @@
+import { handleListInternalApiAudit, handleListInternalTokens } from '../audit'
+import { sendResponse } from '../http'
+import type { Router } from '../router'
+
+export function registerAuthRoutes(router: Router): void {
+  router
+    .get('/internal/auth/tokens', async ({ res }) => sendResponse(res, handleListInternalTokens()))
+    .get('/internal/auth/audit', async ({ res, url }) => sendResponse(res, await handleListInternalApiAudit(url.searchParams)))
+}
@@ -0,0 +1,19 @@
+import { handleGetCompanyLLMUsage } from '../../companies/llm-usage'
+import { handleGetCompanyUsage } from '../../companies/usage'
+import { sendCsv, sendResponse } from '../http'
+import type { Router } from '../router'
+
+export function registerCompanyRoutes(router: Router): void {
+  router
+    .get('/internal/companies/:id/llm-usage', async ({ res, params, url }) =>
+      sendResponse(res, await handleGetCompanyLLMUsage(params.id, url.searchParams.get('month')))
+    )
+    .get('/internal/companies/:id/usage', async ({ res, params, url }) => {
+      const response = await handleGetCompanyUsage(params.id, url.searchParams)
+      if ('csv' in response) {
+        sendCsv(res, response.status, response.csv, response.filename)
+      } else {
+        sendResponse(res, response)
+      }
+    })
+}
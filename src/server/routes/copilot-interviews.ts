@@ -23,227 +23,98 @@ import {
 } from '../../copilot-interviews/recording'
 import { handleSendCopilotInvitationEmail } from '../../copilot-interviews/send-invitation'
 import { handleCancelCopilotInterview } from '../../copilot-interviews/cancel'
-import { readJsonBody, sendJson } from '../http'
-import type { RouteHandler } from '../types'
-
-export const handleCopilotInterviewRoutes: RouteHandler = async ({ req, res, method, pathname, segments, url }) => {
-  if (method === 'POST' && pathname === '/internal/copilot-interviews/create') {
-    const body = await readJsonBody(req)
-    const response = await handleCreateCopilotInterview(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/copilot-interviews/schedule') {
-    const body = await readJsonBody(req)
-    const response = await handleScheduleCopilotInterview(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/copilot-interviews/reschedule') {
-    const body = await readJsonBody(req)
-    const response = await handleRescheduleCopilotInterview(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'GET' && pathname === '/internal/copilot-interviews/schedule') {
-    const candidateId = url.searchParams.get('candidateId') || ''
-    const includeAll = url.searchParams.get('include_all') === 'true'
-    const response = await handleGetCopilotSchedule(candidateId, includeAll)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (
-    segments.length === 4 &&
-    segments[0] === 'internal' &&
-    segments[1] === 'copilot-interviews' &&
-    segments[2] === 'confirm' &&
-    method === 'GET'
-  ) {
-    const token = segments[3]
-    const response = await handleGetCopilotConfirmInfo(token)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (
-    segments.length === 4 &&
-    segments[0] === 'internal' &&
-    segments[1] === 'copilot-interviews' &&
-    segments[2] === 'confirm' &&
-    method === 'POST'
-  ) {
-    const token = segments[3]
-    const body = await readJsonBody(req)
-    const response = await handleConfirmCopilotInterview(token, body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (
-    segments.length === 4 &&
-    segments[0] === 'internal' &&
-    segments[1] === 'copilot-interviews' &&
-    segments[2] === 'decline' &&
-    method === 'POST'
-  ) {
-    const token = segments[3]
-    const response = await handleDeclineCopilotInterview(token)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/copilot-interviews/reminders') {
-    const response = await handleSendInterviewReminders()
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/copilot-interviews/check-missed') {
-    const response = await handleCheckMissedInterviews()
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (segments.length >= 3 && segments[0] === 'internal' && segments[1] === 'copilot-interviews') {
-    const copilotInterviewId = segments[2]
-
-    if (segments.length === 4 && segments[3] === 'consent' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleCopilotInterviewConsent(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'join' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleJoinCopilotInterview(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'status' && method === 'GET') {
-      const response = await handleGetCopilotInterviewStatus(copilotInterviewId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'heartbeat' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleCopilotInterviewHeartbeat(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'extend' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleExtendCopilotInterview(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'ai' && method === 'PATCH') {
-      const body = await readJsonBody(req)
-      const response = await handleToggleCopilotAi(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'participants' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleAddCopilotParticipants(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'participants' && method === 'GET') {
-      const userId = url.searchParams.get('userId') || ''
-      const response = await handleGetCopilotParticipants(copilotInterviewId, userId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'suggest' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleGenerateCopilotSuggestions(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'suggest' && method === 'GET') {
-      const response = await handleGetCopilotSuggestions(copilotInterviewId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'transcript' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handlePostCopilotTranscript(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'transcript' && method === 'GET') {
-      const userId = url.searchParams.get('userId') || ''
-      const response = await handleGetCopilotTranscript(copilotInterviewId, userId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'transcript-count' && method === 'GET') {
-      const response = await handleGetCopilotTranscriptCount(copilotInterviewId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'start' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleStartCopilotInterview(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'complete' && method === 'POST') {
-      const response = await handleCompleteCopilotInterview(copilotInterviewId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 5 && segments[3] === 'recording' && segments[4] === 'start' && method === 'POST') {
-      const response = await handleStartCopilotRecording(copilotInterviewId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 5 && segments[3] === 'recording' && segments[4] === 'stop' && method === 'POST') {
-      const response = await handleStopCopilotRecording(copilotInterviewId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 5 && segments[3] === 'recording' && segments[4] === 'status' && method === 'GET') {
-      const response = await handleGetCopilotRecordingStatus(copilotInterviewId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'send-invitation' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleSendCopilotInvitationEmail(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'cancel' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleCancelCopilotInterview(copilotInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-  }
-
-  return false
+import { sendResponse } from '../http'
+import type { Router } from '../router'
+
+export function registerCopilotInterviewRoutes(router: Router): void {
+  router
+    .post('/internal/copilot-interviews/create', async ({ res, body }) =>
+      sendResponse(res, await handleCreateCopilotInterview(body))
+    )
+    .post('/internal/copilot-interviews/schedule', async ({ res, body }) =>
+      sendResponse(res, await handleScheduleCopilotInterview(body))
+    )
+    .post('/internal/copilot-interviews/reschedule', async ({ res, body }) =>
+      sendResponse(res, await handleRescheduleCopilotInterview(body))
+    )
+    .get('/internal/copilot-interviews/schedule', async ({ res, url }) => {
+      const candidateId = url.searchParams.get('candidateId') || ''
+      const includeAll = url.searchParams.get('include_all') === 'true'
+      sendResponse(res, await handleGetCopilotSchedule(candidateId, includeAll))
+    })
+    .get('/internal/copilot-interviews/confirm/:token', async ({ res, params }) =>
+      sendResponse(res, await handleGetCopilotConfirmInfo(params.token))
+    )
+    .post('/internal/copilot-interviews/confirm/:token', async ({ res, params, body }) =>
+      sendResponse(res, await handleConfirmCopilotInterview(params.token, body))
+    )
+    .post('/internal/copilot-interviews/decline/:token', async ({ res, params }) =>
+      sendResponse(res, await handleDeclineCopilotInterview(params.token))
+    )
+    .post('/internal/copilot-interviews/reminders', async ({ res }) => sendResponse(res, await handleSendInterviewReminders()))
+    .post('/internal/copilot-interviews/check-missed', async ({ res }) =>
+      sendResponse(res, await handleCheckMissedInterviews())
+    )
+
+  router
+    .post('/internal/copilot-interviews/:id/consent', async ({ res, params, body }) =>
+      sendResponse(res, await handleCopilotInterviewConsent(params.id, body))
+    )
+    .post('/internal/copilot-interviews/:id/join', async ({ res, params, body }) =>
+      sendResponse(res, await handleJoinCopilotInterview(params.id, body))
+    )
+    .get('/internal/copilot-interviews/:id/status', async ({ res, params }) =>
+      sendResponse(res, await handleGetCopilotInterviewStatus(params.id))
+    )
+    .post('/internal/copilot-interviews/:id/heartbeat', async ({ res, params, body }) =>
+      sendResponse(res, await handleCopilotInterviewHeartbeat(params.id, body))
+    )
+    .post('/internal/copilot-interviews/:id/extend', async ({ res, params, body }) =>
+      sendResponse(res, await handleExtendCopilotInterview(params.id, body))
+    )
+    .patch('/internal/copilot-interviews/:id/ai', async ({ res, params, body }) =>
+      sendResponse(res, await handleToggleCopilotAi(params.id, body))
+    )
+    .post('/internal/copilot-interviews/:id/participants', async ({ res, params, body }) =>
+      sendResponse(res, await handleAddCopilotParticipants(params.id, body))
+    )
+    .get('/internal/copilot-interviews/:id/participants', async ({ res, params, url }) =>
+      sendResponse(res, await handleGetCopilotParticipants(params.id, url.searchParams.get('userId') || ''))
+    )
+    .post('/internal/copilot-interviews/:id/suggest', async ({ res, params, body }) =>
+      sendResponse(res, await handleGenerateCopilotSuggestions(params.id, body))
+    )
+    .get('/internal/copilot-interviews/:id/suggest', async ({ res, params }) =>
+      sendResponse(res, await handleGetCopilotSuggestions(params.id))
+    )
+    .post('/internal/copilot-interviews/:id/transcript', async ({ res, params, body }) =>
+      sendResponse(res, await handlePostCopilotTranscript(params.id, body))
+    )
+    .get('/internal/copilot-interviews/:id/transcript', async ({ res, params, url }) =>
+      sendResponse(res, await handleGetCopilotTranscript(params.id, url.searchParams.get('userId') || ''))
+    )
+    .get('/internal/copilot-interviews/:id/transcript-count', async ({ res, params }) =>
+      sendResponse(res, await handleGetCopilotTranscriptCount(params.id))
+    )
+    .post('/internal/copilot-interviews/:id/start', async ({ res, params, body }) =>
+      sendResponse(res, await handleStartCopilotInterview(params.id, body))
+    )
+    .post('/internal/copilot-interviews/:id/complete', async ({ res, params }) =>
+      sendResponse(res, await handleCompleteCopilotInterview(params.id))
+    )
+    .post('/internal/copilot-interviews/:id/recording/start', async ({ res, params }) =>
+      sendResponse(res, await handleStartCopilotRecording(params.id))
+    )
+    .post('/internal/copilot-interviews/:id/recording/stop', async ({ res, params }) =>
+      sendResponse(res, await handleStopCopilotRecording(params.id))
+    )
+    .get('/internal/copilot-interviews/:id/recording/status', async ({ res, params }) =>
+      sendResponse(res, await handleGetCopilotRecordingStatus(params.id))
+    )
+    .post('/internal/copilot-interviews/:id/send-invitation', async ({ res, params, body }) =>
+      sendResponse(res, await handleSendCopilotInvitationEmail(params.id, body))
+    )
+    .post('/internal/copilot-interviews/:id/cancel', async ({ res, params, body }) =>
+      sendResponse(res, await handleCancelCopilotInterview(params.id, body))
+    )
 }
@@ -9,39 +9,30 @@ import { handleStartCoseatSession, handleEndCoseatSession, handleUploadCoseatRec
 import { handleGetCoseatAudio } from '../../coseat/audio'
 import { handleGetCoseatProfile, handlePostCoseatProfile, handleDeleteCoseatProfile } from '../../coseat/profile'
 import { handleExtendCoseatInterview } from '../../coseat/extend'
-import { asRecord, readFormDataBody, readJsonBody, sendJson, sendJsonWithHeaders } from '../http'
-import type { RouteHandler } from '../types'
-
-export const handleCoseatRoutes: RouteHandler = async ({ req, res, method, pathname, segments, url }) => {
-  if (method === 'POST' && pathname === '/internal/coseat/schedule') {
-    const body = await readJsonBody(req)
-    const response = await handleScheduleCoseatInterview(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'GET' && pathname === '/internal/coseat/schedule') {
-    const candidateId = url.searchParams.get('candidateId') || ''
-    const userId = url.searchParams.get('userId') || ''
-    const includeAll = url.searchParams.get('include_all') === 'true'
-    const response = await handleGetActiveCoseatInterview(candidateId, userId, includeAll)
-    sendJson(res, response.status, response.body)
-    return true
-  }
+import { asRecord, readFormDataBody, sendJson, sendJsonWithHeaders, sendResponse } from '../http'
+import type { Router } from '../router'
+
+export function registerCoseatRoutes(router: Router): void {
+  router
+    .post('/internal/coseat/schedule', async ({ res, body }) => sendResponse(res, await handleScheduleCoseatInterview(body)))
+    .get('/internal/coseat/schedule', async ({ res, url }) => {
+      const candidateId = url.searchParams.get('candidateId') || ''
+      const userId = url.searchParams.get('userId') || ''
+      const includeAll = url.searchParams.get('include_all') === 'true'
+      sendResponse(res, await handleGetActiveCoseatInterview(candidateId, userId, includeAll))
+    })
 
-  if (method === 'GET' && pathname === '/internal/coseat/profile') {
+  router.get('/internal/coseat/profile', async ({ res, url }) => {
     const userId = url.searchParams.get('userId') || ''
     const companyId = url.searchParams.get('companyId') || ''
-    const response = await handleGetCoseatProfile(userId, companyId)
-    sendJson(res, response.status, response.body)
-    return true
-  }
+    sendResponse(res, await handleGetCoseatProfile(userId, companyId))
+  })
 
-  if (method === 'POST' && pathname === '/internal/coseat/profile') {
+  router.post('/internal/coseat/profile', async ({ req, res, url }) => {
     const formData = await readFormDataBody(req, url)
     if (!formData) {
       sendJson(res, 400, { success: false, error: 'Invalid form data' })
-      return true
+      return
     }
 
     const userId = String(formData.get('userId') || '')
@@ -52,7 +43,7 @@ export const handleCoseatRoutes: RouteHandler = async ({ req, res, method, pathn
 
     if (!audioFile) {
       sendJson(res, 400, { success: false, error: 'No audio file provided' })
-      return true
+      return
     }
 
     const response = await handlePostCoseatProfile({
@@ -62,39 +53,25 @@ export const handleCoseatRoutes: RouteHandler = async ({ req, res, method, pathn
       language,
       voicePrintFeaturesStr: typeof voicePrintFeaturesStr === 'string' ? voicePrintFeaturesStr : null,
     })
-    sendJson(res, response.status, response.body)
-    return true
-  }
+    sendResponse(res, response)
+  })
 
-  if (method === 'DELETE' && pathname === '/internal/coseat/profile') {
-    const body = await readJsonBody(req)
+  router.delete('/internal/coseat/profile', async ({ res, body }) => {
     const record = asRecord(body) ?? {}
     const userId = typeof record.userId === 'string' ? record.userId : ''
     const companyId = typeof record.companyId === 'string' ? record.companyId : ''
-    const response = await handleDeleteCoseatProfile(userId, companyId)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/coseat/session/start') {
-    const body = await readJsonBody(req)
-    const response = await handleStartCoseatSession(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
+    sendResponse(res, await handleDeleteCoseatProfile(userId, companyId))
+  })
 
-  if (method === 'POST' && pathname === '/internal/coseat/session/end') {
-    const body = await readJsonBody(req)
-    const response = await handleEndCoseatSession(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
+  router
+    .post('/internal/coseat/session/start', async ({ res, body }) => sendResponse(res, await handleStartCoseatSession(body)))
+    .post('/internal/coseat/session/end', async ({ res, body }) => sendResponse(res, await handleEndCoseatSession(body)))
 
-  if (method === 'POST' && pathname === '/internal/coseat/session/upload-recording') {
+  router.post('/internal/coseat/session/upload-recording', async ({ req, res, url }) => {
     const formData = await readFormDataBody(req, url)
     if (!formData) {
       sendJson(res, 400, { success: false, error: 'Invalid form data' })
-      return true
+      return
     }
 
     const userId = String(formData.get('userId') || '')
@@ -104,7 +81,7 @@ export const handleCoseatRoutes: RouteHandler = async ({ req, res, method, pathn
 
     if (!audioFile || !coseatInterviewId) {
       sendJson(res, 400, { success: false, error: 'audio and coseatInterviewId are required' })
-      return true
+      return
     }
 
     const response = await handleUploadCoseatRecording({
@@ -113,87 +90,42 @@ export const handleCoseatRoutes: RouteHandler = async ({ req, res, method, pathn
       durationSeconds: typeof durationSeconds === 'string' ? durationSeconds : undefined,
       audioFile,
     })
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (segments.length >= 3 && segments[0] === 'internal' && segments[1] === 'coseat') {
-    const coseatInterviewId = segments[2]
-
-    if (segments.length === 3 && method === 'GET') {
-      const userId = url.searchParams.get('userId') || ''
-      const response = await handleGetCoseatInterview(coseatInterviewId, userId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'cancel' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleCancelCoseatInterview(coseatInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'ai' && method === 'PATCH') {
-      const body = await readJsonBody(req)
-      const response = await handleToggleCoseatAi(coseatInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'heartbeat' && method === 'POST') {
-      const response = await handleCoseatHeartbeat(coseatInterviewId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'extend' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleExtendCoseatInterview(coseatInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'transcript' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handlePostCoseatTranscript(coseatInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'transcript' && method === 'GET') {
-      const userId = url.searchParams.get('userId') || ''
-      const response = await handleGetCoseatTranscript(coseatInterviewId, userId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'suggestions' && method === 'GET') {
-      const response = await handleGetCoseatSuggestions(coseatInterviewId)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'suggestions' && method === 'POST') {
-      const body = await readJsonBody(req)
-      const response = await handleGenerateCoseatSuggestions(coseatInterviewId, body)
-      sendJson(res, response.status, response.body)
-      return true
-    }
-
-    if (segments.length === 4 && segments[3] === 'audio' && method === 'GET') {
-      const userId = url.searchParams.get('userId') || ''
-      const result = await handleGetCoseatAudio(coseatInterviewId, userId)
-      if (result.status === 200) {
-        res.writeHead(result.status, result.headers)
-        result.stream.pipe(res)
-        return true
-      }
-
-      sendJsonWithHeaders(res, result.status, result.body, result.headers)
-      return true
+    sendResponse(res, response)
+  })
+
+  router
+    .get('/internal/coseat/:id', async ({ res, params, url }) =>
+      sendResponse(res, await handleGetCoseatInterview(params.id, url.searchParams.get('userId') || ''))
+    )
+    .post('/internal/coseat/:id/cancel', async ({ res, params, body }) =>
+      sendResponse(res, await handleCancelCoseatInterview(params.id, body))
+    )
+    .patch('/internal/coseat/:id/ai', async ({ res, params, body }) => sendResponse(res, await handleToggleCoseatAi(params.id, body)))
+    .post('/internal/coseat/:id/heartbeat', async ({ res, params }) => sendResponse(res, await handleCoseatHeartbeat(params.id)))
+    .post('/internal/coseat/:id/extend', async ({ res, params, body }) =>
+      sendResponse(res, await handleExtendCoseatInterview(params.id, body))
+    )
+    .post('/internal/coseat/:id/transcript', async ({ res, params, body }) =>
+      sendResponse(res, await handlePostCoseatTranscript(params.id, body))
+    )
+    .get('/internal/coseat/:id/transcript', async ({ res, params, url }) =>
+      sendResponse(res, await handleGetCoseatTranscript(params.id, url.searchParams.get('userId') || ''))
+    )
+    .get('/internal/coseat/:id/suggestions', async ({ res, params }) =>
+      sendResponse(res, await handleGetCoseatSuggestions(params.id))
+    )
+    .post('/internal/coseat/:id/suggestions', async ({ res, params, body }) =>
+      sendResponse(res, await handleGenerateCoseatSuggestions(params.id, body))
+    )
+
+  router.get('/internal/coseat/:id/audio', async ({ res, params, url }) => {
+    const result = await handleGetCoseatAudio(params.id, url.searchParams.get('userId') || '')
+    if (result.status === 200) {
+      res.writeHead(result.status, result.headers)
+      result.stream.pipe(res)
+      return
     }
-  }
 
-  return false
+    sendJsonWithHeaders(res, result.status, result.body, result.headers)
+  })
 }
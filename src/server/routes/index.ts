@@ -0,0 +1,36 @@
+import { sendJson, sendResponse } from '../http'
+import { internalAuth, logContext, parseJsonBody, requestId, timing } from '../middleware'
+import { idempotency } from '../idempotency'
+import { handleReadiness } from '../readiness'
+import { Router } from '../router'
+import { validateRequest } from '../validation'
+import { registerAuthRoutes } from './auth'
+import { registerCompanyRoutes } from './companies'
+import { registerCopilotInterviewRoutes } from './copilot-interviews'
+import { registerCoseatRoutes } from './coseat'
+import { registerInfrastructureRoutes } from './infrastructure'
+import { registerInterviewCodeRoutes } from './interview-codes'
+import { registerInterviewRoutes } from './interviews'
+import { registerMetricsRoutes } from './metrics'
+import { registerOpenApiRoutes } from './openapi'
+import { registerSchedulerRoutes } from './scheduler'
+
+export function createApiRouter(): Router {
+  const router = new Router().use(requestId, timing, internalAuth, validateRequest, parseJsonBody, logContext, idempotency)
+
+  router.get('/health', async ({ res }) => sendJson(res, 200, { ok: true }))
+  router.get('/ready', async ({ res }) => sendResponse(res, await handleReadiness()))
+
+  registerMetricsRoutes(router)
+  registerOpenApiRoutes(router)
+  registerInterviewCodeRoutes(router)
+  registerInterviewRoutes(router)
+  registerCopilotInterviewRoutes(router)
+  registerCoseatRoutes(router)
+  registerInfrastructureRoutes(router)
+  registerCompanyRoutes(router)
+  registerSchedulerRoutes(router)
+  registerAuthRoutes(router)
+
+  return router
+}
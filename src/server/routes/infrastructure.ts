@@ -14,21 +14,19 @@ import {
   handleDidTalk,
   handleGetDidAgent,
 } from '../../did/handlers'
-import { readFormDataBody, readJsonBody, readTextBody, sendJson } from '../http'
-import type { RouteHandler } from '../types'
+import { readFormDataBody, readTextBody, sendJson, sendResponse } from '../http'
+import type { Router } from '../router'
 
-export const handleInfrastructureRoutes: RouteHandler = async ({ req, res, method, pathname, segments, url }) => {
-  if (method === 'POST' && pathname === '/internal/livekit/token') {
-    const body = await readJsonBody(req)
+export function registerInfrastructureRoutes(router: Router): void {
+  router.post('/internal/livekit/token', async ({ req, res, body }) => {
     const response = await handleCreateLiveKitToken({
       body,
       headers: req.headers as Record<string, string | string[] | undefined>,
     })
-    sendJson(res, response.status, response.body)
-    return true
-  }
+    sendResponse(res, response)
+  })
 
-  if (method === 'POST' && pathname === '/internal/livekit/webhook') {
+  router.post('/internal/livekit/webhook', async ({ req, res }) => {
     const rawBody = await readTextBody(req)
     const forwardedAuthHeader = req.headers['x-livekit-authorization']
     const forwardedAuth =
@@ -38,38 +36,28 @@ export const handleInfrastructureRoutes: RouteHandler = async ({ req, res, metho
           ? forwardedAuthHeader[0] || ''
           : ''
 
-    const response = await handleLiveKitWebhook({ rawBody, authorization: forwardedAuth })
-    sendJson(res, response.status, response.body)
-    return true
-  }
+    sendResponse(res, await handleLiveKitWebhook({ rawBody, authorization: forwardedAuth }))
+  })
 
-  if (method === 'GET' && pathname === '/internal/livekit/webhook') {
+  router.get('/internal/livekit/webhook', async ({ res }) => {
     sendJson(res, 200, { status: 'LiveKit webhook endpoint active (Custom Mode)' })
-    return true
-  }
+  })
 
-  if (method === 'GET' && pathname === '/internal/azure-speech/token') {
+  router.get('/internal/azure-speech/token', async ({ res, url }) => {
     const userId = url.searchParams.get('userId') || undefined
     const candidateId = url.searchParams.get('candidateId') || undefined
     const copilotInterviewId = url.searchParams.get('copilotInterviewId') || undefined
 
-    const response = await handleAzureSpeechToken({ userId, candidateId, copilotInterviewId })
-    sendJson(res, response.status, response.body)
-    return true
-  }
+    sendResponse(res, await handleAzureSpeechToken({ userId, candidateId, copilotInterviewId }))
+  })
 
-  if (method === 'POST' && pathname === '/internal/azure-speech/token') {
-    const body = await readJsonBody(req)
-    const response = await handleAzureSpeechToken(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
+  router.post('/internal/azure-speech/token', async ({ res, body }) => sendResponse(res, await handleAzureSpeechToken(body)))
 
-  if (method === 'POST' && pathname === '/internal/azure-speech/recognize') {
+  router.post('/internal/azure-speech/recognize', async ({ req, res, url }) => {
     const formData = await readFormDataBody(req, url)
     if (!formData) {
       sendJson(res, 400, { error: 'Invalid form data' })
-      return true
+      return
     }
 
     const audioFile = formData.get('audio') as File | null
@@ -77,91 +65,35 @@ export const handleInfrastructureRoutes: RouteHandler = async ({ req, res, metho
 
     if (!audioFile) {
       sendJson(res, 400, { error: 'No audio file provided' })
-      return true
+      return
     }
 
-    const response = await handleAzureSpeechRecognize({ audioFile, locale })
-    sendJson(res, response.status, response.body)
-    return true
-  }
+    sendResponse(res, await handleAzureSpeechRecognize({ audioFile, locale }))
+  })
 
-  if (method === 'POST' && pathname === '/internal/azure-tts') {
-    const body = await readJsonBody(req)
-    const response = await handleAzureTts(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
+  router
+    .post('/internal/azure-tts', async ({ res, body }) => sendResponse(res, await handleAzureTts(body)))
+    .post('/internal/liveavatar/create-custom-session', async ({ res, body }) =>
+      sendResponse(res, await handleCreateLiveAvatarCustomSession(body))
+    )
+    .post('/internal/liveavatar/keep-alive', async ({ res, body }) => sendResponse(res, await handleLiveAvatarKeepAlive(body)))
+    .post('/internal/liveavatar/end-session', async ({ res, body }) => sendResponse(res, await handleLiveAvatarEndSession(body)))
 
-  if (method === 'POST' && pathname === '/internal/liveavatar/create-custom-session') {
-    const body = await readJsonBody(req)
-    const response = await handleCreateLiveAvatarCustomSession(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/liveavatar/keep-alive') {
-    const body = await readJsonBody(req)
-    const response = await handleLiveAvatarKeepAlive(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/liveavatar/end-session') {
-    const body = await readJsonBody(req)
-    const response = await handleLiveAvatarEndSession(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'GET' && pathname === '/internal/digital-human/config') {
+  router.get('/internal/digital-human/config', async ({ res, url }) => {
     const language = url.searchParams.get('language') || undefined
     const interviewId = url.searchParams.get('interviewId') || undefined
     const candidateName = url.searchParams.get('candidateName') || undefined
     const interviewMode = url.searchParams.get('interviewMode') || undefined
 
-    const response = await handleDigitalHumanConfig({
-      language,
-      interviewId,
-      candidateName,
-      interviewMode,
-    })
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'GET' && pathname === '/internal/did/agent') {
-    const response = await handleGetDidAgent()
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/did/stream') {
-    const body = await readJsonBody(req)
-    const response = await handleCreateDidStream(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'DELETE' && pathname === '/internal/did/stream') {
-    const sessionId = url.searchParams.get('sessionId') || ''
-    const response = await handleDeleteDidStream({ sessionId })
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/did/sdp') {
-    const body = await readJsonBody(req)
-    const response = await handleDidSdp(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/did/talk') {
-    const body = await readJsonBody(req)
-    const response = await handleDidTalk(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  return false
+    sendResponse(res, await handleDigitalHumanConfig({ language, interviewId, candidateName, interviewMode }))
+  })
+
+  router
+    .get('/internal/did/agent', async ({ res }) => sendResponse(res, await handleGetDidAgent()))
+    .post('/internal/did/stream', async ({ res, body }) => sendResponse(res, await handleCreateDidStream(body)))
+    .delete('/internal/did/stream', async ({ res, url }) =>
+      sendResponse(res, await handleDeleteDidStream({ sessionId: url.searchParams.get('sessionId') || '' }))
+    )
+    .post('/internal/did/sdp', async ({ res, body }) => sendResponse(res, await handleDidSdp(body)))
+    .post('/internal/did/talk', async ({ res, body }) => sendResponse(res, await handleDidTalk(body)))
 }
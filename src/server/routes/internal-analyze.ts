@@ -1,10 +1,11 @@
 import { enqueueInterviewAnalyzeTask } from '../../workers/interview-analyze'
 import { createAdminClient } from '../../supabase/admin'
-import { requireInternalAuth } from '../auth'
-import { asRecord, readJsonBody, sendJson } from '../http'
+import { asRecord, sendJson } from '../http'
 import type { RouteHandler } from '../types'
 
-function parseAnalyzeBody(value: unknown): { interviewId: string; locale: string; sendEmail: boolean } | null {
+function parseAnalyzeBody(
+  value: unknown
+): { interviewId: string; locale: string; sendEmail: boolean; force: boolean } | null {
   const record = asRecord(value)
   if (!record) return null
 
@@ -12,9 +13,11 @@ function parseAnalyzeBody(value: unknown): { interviewId: string; locale: string
   if (!interviewId) return null
 
   const locale = typeof record.locale === 'string' && record.locale.trim() ? record.locale : 'en'
-  const sendEmail = typeof record.sendEmail === 'boolean' ? record.sendEmail : true
+  const force = record.force === true
+  // A forced re-analysis should not re-send the report unless explicitly asked to.
+  const sendEmail = typeof record.sendEmail === 'boolean' ? record.sendEmail : !force
 
-  return { interviewId, locale, sendEmail }
+  return { interviewId, locale, sendEmail, force }
 }
 
 async function markInterviewCompletedBeforeAnalyze(interviewId: string): Promise<void> {
@@ -75,28 +78,16 @@ async function markInterviewCompletedBeforeAnalyze(interviewId: string): Promise
   }
 }
 
-export const handleInternalAnalyzeRoute: RouteHandler = async ({ req, res, method, pathname }) => {
-  if (method !== 'POST' || pathname !== '/internal/interviews/analyze') {
-    return false
-  }
-
-  if (!requireInternalAuth(req, res)) return true
-
-  if (!process.env.RABBITMQ_URL) {
-    sendJson(res, 503, { error: 'RabbitMQ is not configured' })
-    return true
-  }
-
-  const body = await readJsonBody(req)
+export const handleInternalAnalyze: RouteHandler = async ({ res, body }) => {
   const parsed = parseAnalyzeBody(body)
   if (!parsed) {
     sendJson(res, 400, { error: 'Invalid request body' })
-    return true
+    return
   }
 
   await markInterviewCompletedBeforeAnalyze(parsed.interviewId)
-  await enqueueInterviewAnalyzeTask(parsed)
+  // While RabbitMQ is down the task waits in the local outbox (`buffered: true`) instead of failing the call.
+  const { analysisJobId, buffered } = await enqueueInterviewAnalyzeTask(parsed)
 
-  sendJson(res, 200, { success: true, mode: 'queued', interviewId: parsed.interviewId })
-  return true
+  sendJson(res, 200, { success: true, mode: 'queued', interviewId: parsed.interviewId, analysisJobId, buffered })
 }
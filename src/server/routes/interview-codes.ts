@@ -1,22 +1,10 @@
 import { handleUseInterviewCode } from '../../interview-codes/use'
 import { handleVerifyInterviewCode } from '../../interview-codes/verify'
-import { readJsonBody, sendJson } from '../http'
-import type { RouteHandler } from '../types'
+import { sendResponse } from '../http'
+import type { Router } from '../router'
 
-export const handleInterviewCodeRoutes: RouteHandler = async ({ req, res, method, pathname }) => {
-  if (method === 'POST' && pathname === '/internal/interview-codes/verify') {
-    const body = await readJsonBody(req)
-    const response = await handleVerifyInterviewCode(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/interview-codes/use') {
-    const body = await readJsonBody(req)
-    const response = await handleUseInterviewCode(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  return false
+export function registerInterviewCodeRoutes(router: Router): void {
+  router
+    .post('/internal/interview-codes/verify', async ({ res, body }) => sendResponse(res, await handleVerifyInterviewCode(body)))
+    .post('/internal/interview-codes/use', async ({ res, body }) => sendResponse(res, await handleUseInterviewCode(body)))
 }
@@ -11,42 +11,47 @@ import { handleGetInterview } from '../../interviews/get'
 import { handleGetConversationState, handleUpdateConversationState } from '../../interviews/state'
 import { handleCleanupStandardInterviews } from '../../interviews/cleanup'
 import { handleCleanupAllInterviews } from '../../interviews/cleanup-all'
-import { asRecord, readJsonBody, sendJson } from '../http'
-import type { RouteHandler } from '../types'
-
-export const handleInterviewRoutes: RouteHandler = async ({ req, res, method, pathname, segments }) => {
-  if (method === 'POST' && pathname === '/internal/interviews/create') {
-    const body = await readJsonBody(req)
-    const response = await handleCreateInterview(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/interviews/cleanup') {
-    const response = await handleCleanupStandardInterviews()
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/interviews/cleanup-all') {
-    const response = await handleCleanupAllInterviews()
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/interviews/questions') {
-    const body = await readJsonBody(req)
+import {
+  handleGetAnalyzeDeadLetter,
+  handleListAnalyzeDeadLetters,
+  handleRequeueAnalyzeDeadLetter,
+} from '../../interviews/analyze-dead-letters'
+import { handleGetAnalysisJobs } from '../../interviews/analysis-jobs'
+import { handleGetInterviewLLMUsage } from '../../interviews/llm-usage'
+import { handleRefundInterviewCredits } from '../../credits/refunds'
+import { handleDiffAnalysisVersions, handleListAnalysisVersions } from '../../interviews/analysis-versions'
+import { handleInternalAnalyze } from './internal-analyze'
+import { asRecord, sendJson, sendResponse } from '../http'
+import type { Router } from '../router'
+
+export function registerInterviewRoutes(router: Router): void {
+  router
+    .post('/internal/interviews/create', async ({ res, body }) => sendResponse(res, await handleCreateInterview(body)))
+    .post('/internal/interviews/cleanup', async ({ res }) => sendResponse(res, await handleCleanupStandardInterviews()))
+    .post('/internal/interviews/cleanup-all', async ({ res }) => sendResponse(res, await handleCleanupAllInterviews()))
+    .post('/internal/interviews/analyze', handleInternalAnalyze)
+    .get('/internal/interviews/analyze/dead-letters', async ({ res, url }) =>
+      sendResponse(res, await handleListAnalyzeDeadLetters(url.searchParams.get('limit')))
+    )
+    .get('/internal/interviews/analyze/dead-letters/:messageId', async ({ res, params }) =>
+      sendResponse(res, await handleGetAnalyzeDeadLetter(params.messageId))
+    )
+    .post('/internal/interviews/analyze/dead-letters/:messageId/requeue', async ({ res, params }) =>
+      sendResponse(res, await handleRequeueAnalyzeDeadLetter(params.messageId))
+    )
+
+  router.post('/internal/interviews/questions', async ({ res, body }) => {
     const record = asRecord(body)
     if (!record) {
       sendJson(res, 400, { error: 'Invalid request body' })
-      return true
+      return
     }
 
     const interviewId = typeof record.interviewId === 'string' ? record.interviewId : ''
     const jobTitle = typeof record.jobTitle === 'string' ? record.jobTitle : ''
     if (!interviewId || !jobTitle) {
       sendJson(res, 400, { error: 'Missing required fields' })
-      return true
+      return
     }
 
     const result = await generateQuestionsForInterview({
@@ -66,15 +71,13 @@ export const handleInterviewRoutes: RouteHandler = async ({ req, res, method, pa
       presetQuestionsCount: result.presetQuestionsCount,
       aiQuestionsCount: result.aiQuestionsCount,
     })
-    return true
-  }
+  })
 
-  if (method === 'POST' && pathname === '/internal/interviews/conversation') {
-    const body = await readJsonBody(req)
+  router.post('/internal/interviews/conversation', async ({ res, body }) => {
     const record = asRecord(body)
     if (!record) {
       sendJson(res, 400, { error: 'Invalid request body' })
-      return true
+      return
     }
 
     const interviewId = typeof record.interviewId === 'string' ? record.interviewId : ''
@@ -90,7 +93,7 @@ export const handleInterviewRoutes: RouteHandler = async ({ req, res, method, pa
           hasCurrentTopic: Boolean(currentTopic),
         },
       })
-      return true
+      return
     }
 
     const response = await handleConversation({
@@ -106,152 +109,104 @@ export const handleInterviewRoutes: RouteHandler = async ({ req, res, method, pa
     })
 
     sendJson(res, response.status, response.body)
-    return true
-  }
+  })
 
-  if (method === 'POST' && pathname === '/internal/interviews/analyze-message') {
-    const body = await readJsonBody(req)
+  router.post('/internal/interviews/analyze-message', async ({ res, body }) => {
     const record = asRecord(body)
     if (!record) {
       sendJson(res, 400, { error: 'Invalid request body' })
-      return true
+      return
     }
 
     const message = typeof record.message === 'string' ? record.message : ''
     const currentTopic = typeof record.currentTopic === 'string' ? record.currentTopic : ''
     const language = typeof record.language === 'string' ? record.language : 'en'
+    const interviewId = typeof record.interviewId === 'string' ? record.interviewId : ''
 
     if (!message || !currentTopic) {
       sendJson(res, 400, { error: 'Missing required fields' })
-      return true
+      return
     }
 
-    const analysis = await analyzeCandidateMessage({ message, currentTopic, language })
+    const analysis = await analyzeCandidateMessage({
+      message,
+      currentTopic,
+      language,
+      usageContext: interviewId ? { interviewId } : undefined,
+    })
     sendJson(res, 200, { success: true, analysis })
-    return true
-  }
+  })
 
-  if (method === 'POST' && pathname === '/internal/interviews/evaluate-topic') {
-    const body = await readJsonBody(req)
+  router.post('/internal/interviews/evaluate-topic', async ({ res, body }) => {
     const record = asRecord(body)
     if (!record) {
       sendJson(res, 400, { error: 'Invalid request body' })
-      return true
+      return
     }
 
     const topic = typeof record.topic === 'string' ? record.topic : ''
     const conversation = Array.isArray(record.conversation) ? record.conversation : []
     const language = typeof record.language === 'string' ? record.language : 'en'
+    const interviewId = typeof record.interviewId === 'string' ? record.interviewId : ''
 
     if (!topic || conversation.length === 0) {
       sendJson(res, 400, { error: 'Missing required fields: topic and conversation' })
-      return true
+      return
     }
 
     const evaluation = await evaluateTopicPerformance({
       topic,
       conversation: conversation as Array<{ speaker: string; text: string; timestamp?: string }>,
       language,
+      usageContext: interviewId ? { interviewId } : undefined,
     })
 
     sendJson(res, 200, { success: true, evaluation })
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/interviews/heartbeat') {
-    const body = await readJsonBody(req)
-    const record = asRecord(body)
-    const interviewId = typeof record?.interviewId === 'string' ? record.interviewId : ''
-
-    const response = await handleInterviewHeartbeat(interviewId)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/interviews/transcript') {
-    const body = await readJsonBody(req)
-    const response = await handleSaveTranscript(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/interviews/livekit/start') {
-    const body = await readJsonBody(req)
-    const response = await handleLiveKitStart(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (method === 'POST' && pathname === '/internal/interviews/livekit/stop') {
-    const body = await readJsonBody(req)
-    const response = await handleLiveKitStop(body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (
-    segments.length === 5 &&
-    segments[0] === 'internal' &&
-    segments[1] === 'interviews' &&
-    segments[3] === 'recording' &&
-    segments[4] === 'status' &&
-    method === 'GET'
-  ) {
-    const interviewId = segments[2]
-    const response = await handleGetLiveKitRecordingStatus(interviewId)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (segments.length === 3 && segments[0] === 'internal' && segments[1] === 'interviews' && method === 'GET') {
-    const interviewId = segments[2]
-    const response = await handleGetInterview(interviewId)
-    sendJson(res, response.status, response.body)
-    return true
-  }
+  })
 
-  if (
-    segments.length === 4 &&
-    segments[0] === 'internal' &&
-    segments[1] === 'interviews' &&
-    segments[3] === 'consent' &&
-    method === 'POST'
-  ) {
-    const interviewId = segments[2]
-    const body = await readJsonBody(req)
-    const response = await handleInterviewConsent(interviewId, body)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (
-    segments.length === 4 &&
-    segments[0] === 'internal' &&
-    segments[1] === 'interviews' &&
-    segments[3] === 'state' &&
-    method === 'GET'
-  ) {
-    const interviewId = segments[2]
-    const response = await handleGetConversationState(interviewId)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  if (
-    segments.length === 4 &&
-    segments[0] === 'internal' &&
-    segments[1] === 'interviews' &&
-    segments[3] === 'state' &&
-    method === 'PUT'
-  ) {
-    const interviewId = segments[2]
-    const body = await readJsonBody(req)
-    const record = asRecord(body)
-    const conversation_state = record?.conversation_state
-    const response = await handleUpdateConversationState(interviewId, conversation_state)
-    sendJson(res, response.status, response.body)
-    return true
-  }
-
-  return false
+  router
+    .post('/internal/interviews/heartbeat', async ({ res, body }) => {
+      const record = asRecord(body)
+      const interviewId = typeof record?.interviewId === 'string' ? record.interviewId : ''
+      sendResponse(res, await handleInterviewHeartbeat(interviewId))
+    })
+    .post('/internal/interviews/transcript', async ({ res, body }) => sendResponse(res, await handleSaveTranscript(body)))
+    .post('/internal/interviews/livekit/start', async ({ res, body }) => sendResponse(res, await handleLiveKitStart(body)))
+    .post('/internal/interviews/livekit/stop', async ({ res, body }) => sendResponse(res, await handleLiveKitStop(body)))
+
+  router
+    .get('/internal/interviews/:id', async ({ res, params }) => sendResponse(res, await handleGetInterview(params.id)))
+    .get('/internal/interviews/:id/recording/status', async ({ res, params }) =>
+      sendResponse(res, await handleGetLiveKitRecordingStatus(params.id))
+    )
+    .get('/internal/interviews/:id/analysis-jobs', async ({ res, params }) =>
+      sendResponse(res, await handleGetAnalysisJobs(params.id))
+    )
+    .get('/internal/interviews/:id/llm-usage', async ({ res, params }) =>
+      sendResponse(res, await handleGetInterviewLLMUsage(params.id))
+    )
+    .post('/internal/interviews/:id/credits/refund', async ({ res, params, body }) =>
+      sendResponse(res, await handleRefundInterviewCredits(params.id, body))
+    )
+    .get('/internal/interviews/:id/analysis-versions', async ({ res, params }) =>
+      sendResponse(res, await handleListAnalysisVersions(params.id))
+    )
+    .get('/internal/interviews/:id/analysis-versions/diff', async ({ res, params, url }) =>
+      sendResponse(
+        res,
+        await handleDiffAnalysisVersions(params.id, {
+          from: url.searchParams.get('from'),
+          to: url.searchParams.get('to'),
+        })
+      )
+    )
+    .post('/internal/interviews/:id/consent', async ({ res, params, body }) =>
+      sendResponse(res, await handleInterviewConsent(params.id, body))
+    )
+    .get('/internal/interviews/:id/state', async ({ res, params }) =>
+      sendResponse(res, await handleGetConversationState(params.id))
+    )
+    .put('/internal/interviews/:id/state', async ({ res, params, body }) =>
+      sendResponse(res, await handleUpdateConversationState(params.id, asRecord(body)?.conversation_state))
+    )
 }
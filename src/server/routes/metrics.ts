@@ -0,0 +1,27 @@
+import { timingSafeEqual } from 'node:crypto'
+import { metricsRegistry } from '../../metrics'
+import { sendJson } from '../http'
+import type { Router } from '../router'
+
+/** `/metrics` is open unless `METRICS_TOKEN` is set, in which case scrapers must send it as a bearer token. */
+function isMetricsAuthorized(authHeader: string | undefined): boolean {
+  const token = process.env.METRICS_TOKEN
+  if (!token) return true
+
+  const expected = Buffer.from(`Bearer ${token}`)
+  const presented = Buffer.from(authHeader ?? '')
+  return presented.length === expected.length && timingSafeEqual(presented, expected)
+}
+
+export function registerMetricsRoutes(router: Router): void {
+  router.get('/metrics', async ({ req, res }) => {
+    if (!isMetricsAuthorized(req.headers.authorization)) {
+      sendJson(res, 401, { error: 'Unauthorized' })
+      return
+    }
+
+    const body = await metricsRegistry.metrics()
+    res.writeHead(200, { 'content-type': metricsRegistry.contentType })
+    res.end(body)
+  })
+}
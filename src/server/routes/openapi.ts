@@ -0,0 +1,7 @@
+import { buildOpenApiDocument } from '../openapi'
+import { sendJson } from '../http'
+import type { Router } from '../router'
+
+export function registerOpenApiRoutes(router: Router): void {
+  router.get('/internal/openapi.json', async ({ res }) => sendJson(res, 200, buildOpenApiDocument()))
+}
@@ -0,0 +1,9 @@
+import { handleGetSchedulerStatus, handleListSchedulerRuns } from '../../scheduler/handlers'
+import { sendResponse } from '../http'
+import type { Router } from '../router'
+
+export function registerSchedulerRoutes(router: Router): void {
+  router
+    .get('/internal/scheduler/jobs', async ({ res }) => sendResponse(res, handleGetSchedulerStatus()))
+    .get('/internal/scheduler/runs', async ({ res, url }) => sendResponse(res, await handleListSchedulerRuns(url.searchParams)))
+}
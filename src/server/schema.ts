@@ -0,0 +1,202 @@
+/**
+ * The subset of JSON Schema (OpenAPI 3.0 flavour) used to describe request bodies and query
+ * strings. The same objects are validated at runtime and emitted into `/internal/openapi.json`.
+ */
+export interface Schema {
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object'
+  description?: string
+  format?: 'uuid' | 'date' | 'date-time' | 'email'
+  enum?: ReadonlyArray<string | number>
+  pattern?: string
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+  items?: Schema
+  minItems?: number
+  maxItems?: number
+  properties?: Record<string, Schema>
+  required?: readonly string[]
+  additionalProperties?: boolean
+  nullable?: boolean
+}
+
+export interface ValidationIssue {
+  path: string
+  message: string
+}
+
+export const s = {
+  string: (extra: Omit<Schema, 'type'> = {}): Schema => ({ type: 'string', ...extra }),
+  uuid: (extra: Omit<Schema, 'type' | 'format'> = {}): Schema => ({ type: 'string', format: 'uuid', ...extra }),
+  dateTime: (extra: Omit<Schema, 'type' | 'format'> = {}): Schema => ({ type: 'string', format: 'date-time', ...extra }),
+  email: (extra: Omit<Schema, 'type' | 'format'> = {}): Schema => ({ type: 'string', format: 'email', ...extra }),
+  enum: (values: readonly string[], extra: Omit<Schema, 'type' | 'enum'> = {}): Schema => ({
+    type: 'string',
+    enum: values,
+    ...extra,
+  }),
+  number: (extra: Omit<Schema, 'type'> = {}): Schema => ({ type: 'number', ...extra }),
+  integer: (extra: Omit<Schema, 'type'> = {}): Schema => ({ type: 'integer', ...extra }),
+  boolean: (extra: Omit<Schema, 'type'> = {}): Schema => ({ type: 'boolean', ...extra }),
+  array: (items: Schema, extra: Omit<Schema, 'type' | 'items'> = {}): Schema => ({ type: 'array', items, ...extra }),
+  object: (
+    properties: Record<string, Schema>,
+    required: readonly string[] = [],
+    extra: Omit<Schema, 'type' | 'properties' | 'required'> = {}
+  ): Schema => ({ type: 'object', properties, ...(required.length > 0 ? { required } : {}), ...extra }),
+  /** Any JSON value; used where a handler accepts several shapes. */
+  any: (description?: string): Schema => (description ? { description } : {}),
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+function checkFormat(format: NonNullable<Schema['format']>, value: string): string | null {
+  switch (format) {
+    case 'uuid':
+      return UUID_PATTERN.test(value) ? null : 'must be a UUID'
+    case 'date':
+      return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value)) ? null : 'must be a date (YYYY-MM-DD)'
+    case 'date-time':
+      return Number.isNaN(Date.parse(value)) ? 'must be an ISO 8601 date-time' : null
+    case 'email':
+      return EMAIL_PATTERN.test(value) ? null : 'must be an email address'
+  }
+}
+
+export function validateSchema(
+  schema: Schema,
+  value: unknown,
+  path: string,
+  issues: ValidationIssue[] = []
+): ValidationIssue[] {
+  if (value === null) {
+    if (!schema.nullable && schema.type) issues.push({ path, message: `must be ${schema.type}, got null` })
+    return issues
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `must be string, got ${describeType(value)}` })
+        return issues
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        issues.push({ path, message: schema.minLength === 1 ? 'must not be empty' : `must be at least ${schema.minLength} characters` })
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        issues.push({ path, message: `must be at most ${schema.maxLength} characters` })
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        issues.push({ path, message: `must match ${schema.pattern}` })
+      }
+      if (schema.format && value) {
+        const message = checkFormat(schema.format, value)
+        if (message) issues.push({ path, message })
+      }
+      break
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        issues.push({ path, message: `must be ${schema.type}, got ${describeType(value)}` })
+        return issues
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        issues.push({ path, message: 'must be integer' })
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        issues.push({ path, message: `must be >= ${schema.minimum}` })
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        issues.push({ path, message: `must be <= ${schema.maximum}` })
+      }
+      break
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `must be boolean, got ${describeType(value)}` })
+        return issues
+      }
+      break
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `must be array, got ${describeType(value)}` })
+        return issues
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        issues.push({ path, message: schema.minItems === 1 ? 'must not be empty' : `must have at least ${schema.minItems} items` })
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        issues.push({ path, message: `must have at most ${schema.maxItems} items` })
+      }
+      if (schema.items) {
+        value.forEach((item, index) => validateSchema(schema.items as Schema, item, `${path}[${index}]`, issues))
+      }
+      break
+
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, message: `must be object, got ${describeType(value)}` })
+        return issues
+      }
+      const record = value as Record<string, unknown>
+      const properties = schema.properties ?? {}
+      const required = new Set(schema.required ?? [])
+
+      for (const key of required) {
+        if (record[key] === undefined || record[key] === null) issues.push({ path: `${path}.${key}`, message: 'is required' })
+      }
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        // Optional properties may be sent as null; every handler treats that as omitted.
+        if (record[key] === undefined || (record[key] === null && !required.has(key))) continue
+        validateSchema(propertySchema, record[key], `${path}.${key}`, issues)
+      }
+      if (schema.additionalProperties === false) {
+        for (const key of Object.keys(record)) {
+          if (!(key in properties)) issues.push({ path: `${path}.${key}`, message: 'is not allowed' })
+        }
+      }
+      break
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    issues.push({ path, message: `must be one of: ${schema.enum.join(', ')}` })
+  }
+
+  return issues
+}
+
+/** Query values arrive as strings; numbers and booleans are converted before validation. */
+function coerceQueryValue(schema: Schema, raw: string): unknown {
+  if (schema.type === 'number' || schema.type === 'integer') {
+    const value = Number(raw)
+    return raw.trim() === '' || Number.isNaN(value) ? raw : value
+  }
+  if (schema.type === 'boolean') {
+    if (raw === 'true') return true
+    if (raw === 'false') return false
+  }
+  return raw
+}
+
+export function validateQuery(schema: Schema, searchParams: URLSearchParams): ValidationIssue[] {
+  const values: Record<string, unknown> = {}
+  for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+    const raw = searchParams.get(key)
+    // Handlers treat an empty parameter the same as a missing one.
+    if (raw === null || raw === '') continue
+    values[key] = coerceQueryValue(propertySchema, raw)
+  }
+  return validateSchema({ ...schema, additionalProperties: true }, values, 'query')
+}
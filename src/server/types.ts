@@ -1,4 +1,6 @@
 import type http from 'node:http'
+import type { InternalCaller } from './auth'
+import type { Schema } from './schema'
 
 export interface RouteContext {
   req: http.IncomingMessage
@@ -7,6 +9,39 @@ export interface RouteContext {
   method: string
   pathname: string
   segments: string[]
+  /** Values of the `:name` segments in the matched route path. */
+  params: Record<string, string>
+  requestId: string
+  startedAt: number
+  /** Spec of the matched route; null for unmatched requests and undocumented routes. */
+  spec: EndpointSpec | null
+  /** Parsed JSON body, or null when the body is empty or not JSON. */
+  body: unknown
+  /** Token that authenticated an `/internal/*` request; null for public routes. */
+  caller: InternalCaller | null
 }
 
-export type RouteHandler = (ctx: RouteContext) => Promise<boolean>
+export type RouteHandler = (ctx: RouteContext) => Promise<void>
+
+export type Middleware = (ctx: RouteContext, next: () => Promise<void>) => Promise<void>
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+
+export interface EndpointSpec {
+  method: HttpMethod
+  /** Path with `:name` placeholders, e.g. `/internal/interviews/:id/state`. */
+  path: string
+  summary: string
+  tag: string
+  query?: Schema
+  /** JSON request body, validated before the route handler runs. */
+  body?: Schema
+  /** Non-JSON bodies are documented but passed to the handler unvalidated. */
+  bodyContentType?: 'multipart/form-data' | 'text/plain'
+  /** Served without the internal bearer token. */
+  public?: boolean
+  /** Token scope the route requires, e.g. `billing:write`; null lets any valid token call it. */
+  scope?: string | null
+  /** Accepts an `Idempotency-Key` header; retries with the same key replay the first response. */
+  idempotent?: boolean
+}
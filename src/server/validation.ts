@@ -0,0 +1,45 @@
+import { readRawBody, sendJson } from './http'
+import { validateQuery, validateSchema, type ValidationIssue } from './schema'
+import type { Middleware } from './types'
+
+function parseJson(raw: Buffer): { ok: true; value: unknown } | { ok: false } {
+  const text = raw.toString('utf8')
+  // Handlers treat a missing body like an empty object, so required fields are what gets reported.
+  if (!text.trim()) return { ok: true, value: {} }
+  try {
+    return { ok: true, value: JSON.parse(text) as unknown }
+  } catch {
+    return { ok: false }
+  }
+}
+
+/**
+ * Checks the query string and JSON body against the matched route's spec and answers 400 with
+ * every offending field instead of calling the handler.
+ */
+export const validateRequest: Middleware = async (ctx, next) => {
+  const { spec } = ctx
+  if (!spec) return next()
+
+  const issues: ValidationIssue[] = []
+
+  if (spec.query) {
+    issues.push(...validateQuery(spec.query, ctx.url.searchParams))
+  }
+
+  if (spec.body) {
+    const parsed = parseJson(await readRawBody(ctx.req))
+    if (parsed.ok) {
+      validateSchema(spec.body, parsed.value, 'body', issues)
+    } else {
+      issues.push({ path: 'body', message: 'must be valid JSON' })
+    }
+  }
+
+  if (issues.length > 0) {
+    sendJson(ctx.res, 400, { error: 'Invalid request', issues })
+    return
+  }
+
+  await next()
+}
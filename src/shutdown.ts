@@ -0,0 +1,81 @@
+import type http from 'node:http'
+import { getQueueBackend } from './queue'
+import { stopScheduler } from './scheduler'
+import { flushInternalApiAudit } from './server/audit'
+import { logger } from './utils/logger'
+import { stopWorkers } from './workers'
+
+const DEFAULT_SHUTDOWN_TIMEOUT_MS = 30_000
+
+const log = logger.child({ component: 'Shutdown' })
+
+let shuttingDown = false
+
+export function isShuttingDown(): boolean {
+  return shuttingDown
+}
+
+function getShutdownTimeoutMs(): number {
+  const value = Number(process.env.SHUTDOWN_TIMEOUT_MS)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_SHUTDOWN_TIMEOUT_MS
+}
+
+/** Stops accepting connections and resolves once in-flight requests have been answered. */
+function closeHttpServer(server: http.Server): Promise<void> {
+  return new Promise((resolve) => {
+    server.close((error) => {
+      if (error) log.warn('HTTP server close failed', { err: error })
+      resolve()
+    })
+    // Keep-alive sockets with no request in progress would otherwise hold close() open.
+    server.closeIdleConnections()
+  })
+}
+
+async function step(name: string, run: () => Promise<void>): Promise<void> {
+  const startedAt = Date.now()
+  try {
+    await run()
+    log.info(`${name} done`, { durationMs: Date.now() - startedAt })
+  } catch (error) {
+    log.error(`${name} failed`, { err: error })
+  }
+}
+
+/**
+ * Drains the process in dependency order: `/ready` starts answering 503, the scheduler stops and
+ * finishes its running jobs, HTTP stops accepting and finishes in-flight requests, the workers
+ * finish the messages they hold, buffered audit rows are written, and only then is the queue
+ * backend closed. Anything still running after `SHUTDOWN_TIMEOUT_MS` is cut off.
+ */
+export async function shutdown(server: http.Server | null, signal: string): Promise<void> {
+  if (shuttingDown) return
+  shuttingDown = true
+  log.info(`Received ${signal}, shutting down`)
+
+  const deadline = setTimeout(() => {
+    log.error(`Shutdown did not finish within ${getShutdownTimeoutMs()}ms, exiting`)
+    server?.closeAllConnections()
+    process.exit(1)
+  }, getShutdownTimeoutMs())
+  deadline.unref()
+
+  await step('Scheduler stop', stopScheduler)
+  await Promise.all([
+    server ? step('HTTP drain', () => closeHttpServer(server)) : Promise.resolve(),
+    step('Worker drain', stopWorkers),
+  ])
+  await step('Audit flush', flushInternalApiAudit)
+  await step('Queue close', () => getQueueBackend().close())
+
+  clearTimeout(deadline)
+  log.info('Shutdown complete')
+}
+
+export function registerShutdownHandlers(getServer: () => http.Server | null): void {
+  for (const signal of ['SIGTERM', 'SIGINT'] as const) {
+    process.once(signal, () => {
+      void shutdown(getServer(), signal).finally(() => process.exit(0))
+    })
+  }
+}
@@ -56,8 +56,32 @@ export interface DimensionScores {
   engagement: { score: number; notes: string } // 1-10, weight 20%
 }
 
+// A pointer from an analysis claim back to the transcript, verified server-side
+export interface TranscriptCitation {
+  entry_index: number // 0-based index into the interview transcript
+  quote: string
+  speaker?: string
+  offset_seconds?: number
+  relocated?: boolean // the model cited a different entry; the quote was found here instead
+}
+
+export interface EvidencedClaim {
+  claim: string
+  citations: TranscriptCitation[]
+  verified: boolean
+  dropped_citations: number
+}
+
+export interface AnalysisEvidence {
+  strengths: EvidencedClaim[]
+  weaknesses: EvidencedClaim[]
+  red_flags: EvidencedClaim[]
+  citation_stats: { total: number; verified: number; relocated: number; dropped: number }
+}
+
 export interface AIAnalysis {
-  dimension_scores: DimensionScores
+  // Built-in dimensions, or the keys of the job's custom scoring rubric
+  dimension_scores: DimensionScores | Record<string, { score: number; notes: string }>
   overall_assessment: string
   strengths: string[]
   weaknesses: string[]
@@ -84,4 +108,5 @@ export interface AIAnalysis {
   }
   recommendation: 'strong_yes' | 'yes' | 'maybe' | 'no' | 'strong_no'
   red_flags?: string[]
+  evidence?: AnalysisEvidence
 }
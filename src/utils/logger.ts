@@ -0,0 +1,161 @@
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { format } from 'node:util'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/** Correlation fields attached to every line logged while they are in scope. */
+export interface LogContext {
+  requestId?: string
+  route?: string
+  caller?: string
+  interviewId?: string
+  copilotInterviewId?: string
+  coseatInterviewId?: string
+  companyId?: string
+  candidateId?: string
+  jobId?: string
+  analysisJobId?: string
+  queue?: string
+  messageId?: string
+  attempt?: number
+  job?: string
+}
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  child(fields: LogFields): Logger
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 }
+
+const contextStorage = new AsyncLocalStorage<LogContext>()
+
+// Bound to the original console so the bridge below cannot recurse into itself.
+const writeStdout = console.log.bind(console)
+const writeStderr = console.error.bind(console)
+
+function getMinLevel(): number {
+  const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined
+  return LEVEL_ORDER[level && level in LEVEL_ORDER ? level : 'info']
+}
+
+function usePrettyFormat(): boolean {
+  return process.env.LOG_FORMAT === 'pretty'
+}
+
+export function serializeError(error: unknown): LogFields {
+  if (error instanceof Error) {
+    const code = (error as { code?: unknown }).code
+    return { name: error.name, message: error.message, ...(code !== undefined ? { code } : {}), stack: error.stack }
+  }
+  if (error && typeof error === 'object') return error as LogFields
+  return { message: String(error) }
+}
+
+function normalizeFields(fields: LogFields): LogFields {
+  const normalized: LogFields = {}
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue
+    normalized[key] = value instanceof Error ? serializeError(value) : value
+  }
+  return normalized
+}
+
+function write(level: LogLevel, message: string, fields: LogFields): void {
+  if (LEVEL_ORDER[level] < getMinLevel()) return
+
+  const entry = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...normalizeFields({ ...contextStorage.getStore(), ...fields }),
+  }
+  const out = level === 'error' || level === 'warn' ? writeStderr : writeStdout
+
+  if (usePrettyFormat()) {
+    const { time, level: _level, msg, ...rest } = entry
+    const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : ''
+    out(`${time} ${level.toUpperCase().padEnd(5)} ${msg}${extra}`)
+    return
+  }
+
+  try {
+    out(JSON.stringify(entry))
+  } catch {
+    out(JSON.stringify({ time: entry.time, level, msg: message, logError: 'fields are not serializable' }))
+  }
+}
+
+export function createLogger(bound: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write('debug', message, { ...bound, ...fields }),
+    info: (message, fields) => write('info', message, { ...bound, ...fields }),
+    warn: (message, fields) => write('warn', message, { ...bound, ...fields }),
+    error: (message, fields) => write('error', message, { ...bound, ...fields }),
+    child: (fields) => createLogger({ ...bound, ...fields }),
+  }
+}
+
+export const logger = createLogger()
+
+/** Runs `fn` with `fields` merged over the current log context. */
+export function withLogContext<T>(fields: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...dropUndefined(fields) }, fn)
+}
+
+/** Adds fields to the current log context, e.g. once a handler has looked up the company. */
+export function addLogContext(fields: LogContext): void {
+  const store = contextStorage.getStore()
+  if (store) Object.assign(store, dropUndefined(fields))
+}
+
+/** Wraps a callback (event listener, timer) so it logs with the context current at wrap time. */
+export function bindLogContext<T extends (...args: never[]) => unknown>(fn: T): T {
+  return AsyncLocalStorage.bind(fn)
+}
+
+export function getLogContext(): LogContext {
+  return { ...contextStorage.getStore() }
+}
+
+function dropUndefined(fields: LogContext): LogContext {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined && value !== null && value !== ''))
+}
+
+const COMPONENT_PREFIX = /^\[([^\]]+)\]\s*/
+const LEADING_SYMBOLS = /^[^\x20-\x7e]+\s*/
+
+/**
+ * Routes the existing `console.*` calls through the logger, so they come out as JSON lines with
+ * the request/interview context. A leading `[Component]` tag becomes the `component` field and
+ * emoji prefixes are dropped; Error arguments are kept as structured `err` fields.
+ */
+export function installConsoleBridge(): void {
+  const bridge = (level: LogLevel) => (...args: unknown[]) => {
+    const errors = args.filter((arg): arg is Error => arg instanceof Error)
+    const rest = args.filter((arg) => !(arg instanceof Error))
+    let message = rest.length > 0 ? format(...rest) : errors[0]?.message ?? ''
+    message = message.replace(LEADING_SYMBOLS, '')
+
+    const fields: LogFields = {}
+    const component = COMPONENT_PREFIX.exec(message)
+    if (component) {
+      fields.component = component[1]
+      message = message.slice(component[0].length)
+    }
+    if (errors.length > 0) fields.err = serializeError(errors[0])
+
+    write(level, message.trim(), fields)
+  }
+
+  console.debug = bridge('debug')
+  console.log = bridge('info')
+  console.info = bridge('info')
+  console.warn = bridge('warn')
+  console.error = bridge('error')
+}
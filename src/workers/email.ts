@@ -0,0 +1,81 @@
+import { sendMail } from '../email/transporter'
+import { QUEUE_NAMES } from '../queue/queues'
+import { createAdminClient } from '../supabase/admin'
+import { createLogger, type LogContext } from '../utils/logger'
+import { enqueueJob, type JobDefinition } from './jobs'
+
+const log = createLogger({ component: 'Email' })
+
+/** A fully rendered message; templates are rendered by the caller before queueing. */
+export interface QueuedMail {
+  from: string
+  to: string
+  subject: string
+  html: string
+  text: string
+}
+
+/** One variant per email the service sends in the background; `kind` also labels `emails_sent_total`. */
+export type EmailJobPayload =
+  | { kind: 'interview_report'; mail: QueuedMail }
+  | { kind: 'interviewer_invitation'; mail: QueuedMail }
+  // Records copilot_interviews.invitation_sent_at once SMTP accepts the message.
+  | { kind: 'copilot_invitation'; mail: QueuedMail; copilotInterviewId: string }
+  | { kind: 'copilot_reminder'; mail: QueuedMail; copilotInterviewId: string; reminderType: '24h' | '1h' }
+
+export type EmailKind = EmailJobPayload['kind']
+
+const EMAIL_KINDS: readonly EmailKind[] = ['interview_report', 'interviewer_invitation', 'copilot_invitation', 'copilot_reminder']
+
+function isQueuedMail(value: unknown): value is QueuedMail {
+  const mail = value as Partial<QueuedMail> | null
+  return Boolean(mail && typeof mail.to === 'string' && typeof mail.from === 'string' && typeof mail.subject === 'string')
+}
+
+function parseEmailJob(content: unknown): EmailJobPayload | null {
+  const record = content as (Partial<EmailJobPayload> & { copilotInterviewId?: unknown }) | null
+  if (!record || !EMAIL_KINDS.includes(record.kind as EmailKind) || !isQueuedMail(record.mail)) return null
+  if ((record.kind === 'copilot_invitation' || record.kind === 'copilot_reminder') && typeof record.copilotInterviewId !== 'string') {
+    return null
+  }
+  return record as EmailJobPayload
+}
+
+async function recordInvitationSent(copilotInterviewId: string): Promise<void> {
+  const { error } = await createAdminClient()
+    .from('copilot_interviews')
+    .update({ invitation_sent_at: new Date().toISOString() })
+    .eq('id', copilotInterviewId)
+  // The email is out; retrying the job would send it twice.
+  if (error) log.warn('Failed to record invitation_sent_at', { copilotInterviewId, err: error })
+}
+
+function emailLogContext(payload: EmailJobPayload): LogContext {
+  return 'copilotInterviewId' in payload ? { copilotInterviewId: payload.copilotInterviewId } : {}
+}
+
+/**
+ * All email kinds share one queue on purpose: every send goes through the same pooled SMTP
+ * transporter (`maxConnections: 5`), so a queue per kind would only let the kinds compete for the
+ * same connections. `EMAIL_SEND_PREFETCH` therefore bounds the total SMTP concurrency.
+ */
+export const emailSendJob: JobDefinition<EmailJobPayload> = {
+  queue: QUEUE_NAMES.emailSend,
+  deadLetterQueue: QUEUE_NAMES.emailSendDeadLetter,
+  prefetch: 5,
+  maxRetries: 5,
+  parse: parseEmailJob,
+  logContext: emailLogContext,
+  async run(payload) {
+    await sendMail(payload.kind, payload.mail)
+    if (payload.kind === 'copilot_invitation') await recordInvitationSent(payload.copilotInterviewId)
+  },
+}
+
+/**
+ * Queues a rendered email for the `email_send` worker, so request handlers and the analyze worker
+ * never wait on SMTP. Delivery failures are retried and end up in `email_send.dlq`.
+ */
+export async function queueMail(payload: EmailJobPayload): Promise<{ buffered: boolean }> {
+  return enqueueJob(emailSendJob, payload)
+}
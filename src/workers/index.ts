@@ -0,0 +1,19 @@
+import { emailSendJob } from './email'
+import { interviewAnalyzeJob } from './interview-analyze'
+import { startJobWorker, stopJobWorkers } from './jobs'
+import { recordingPostprocessJob } from './recording-postprocess'
+
+/** Starts a consumer for every queue on the configured backend. */
+export async function startWorkers(): Promise<void> {
+  await startJobWorker(interviewAnalyzeJob)
+  await startJobWorker(emailSendJob)
+  await startJobWorker(recordingPostprocessJob)
+}
+
+/**
+ * Stops all consumers and waits for the messages in progress to be settled. Prefetched but
+ * unstarted messages return to the queue when the channel closes.
+ */
+export async function stopWorkers(): Promise<void> {
+  await stopJobWorkers()
+}
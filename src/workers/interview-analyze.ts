@@ -1,66 +1,150 @@
-import type { ConsumeMessage } from 'amqplib'
-import { assertDurableQueue, publishJson } from '../queue/rabbitmq'
+import { settleEndedInterviewCredits } from '../credits/pricing'
+import { refundFailedAnalysis } from '../credits/refunds'
+import { getQueueBackend } from '../queue'
 import { QUEUE_NAMES } from '../queue/queues'
+import type { QueueMessage } from '../queue/types'
 import { processInterviewAnalyzeTask, type InterviewAnalyzeTaskPayload } from '../interviews/analyze'
+import { createAnalysisJob, markAnalysisJobRetrying } from '../interviews/analysis-jobs'
+import { analyzeRetriesTotal, analyzeTaskDuration, analyzeTasksTotal } from '../metrics'
+import { createAdminClient } from '../supabase/admin'
+import { createLogger } from '../utils/logger'
+import { enqueueJob, type JobDeadLetter, type JobDefinition } from './jobs'
 
-export type InterviewAnalyzeQueueMessage = InterviewAnalyzeTaskPayload & {
-  attempt?: number
-}
+export type InterviewAnalyzeDeadLetter = JobDeadLetter<InterviewAnalyzeTaskPayload>
 
-export async function enqueueInterviewAnalyzeTask(payload: InterviewAnalyzeTaskPayload) {
-  const message: InterviewAnalyzeQueueMessage = { ...payload, attempt: 0 }
-  await publishJson(QUEUE_NAMES.interviewAnalyze, message)
-}
+const log = createLogger({ component: 'Interview Analyze' })
 
-function parseMessage(msg: ConsumeMessage): InterviewAnalyzeQueueMessage | null {
-  try {
-    return JSON.parse(msg.content.toString('utf8')) as InterviewAnalyzeQueueMessage
-  } catch (error) {
-    console.error('Invalid RabbitMQ message JSON:', error)
-    return null
+// Picks the known fields, so the `attempt` that older messages carried in the payload is dropped.
+function parseInterviewAnalyze(content: unknown): InterviewAnalyzeTaskPayload | null {
+  const record = content as Partial<InterviewAnalyzeTaskPayload> | null
+  if (!record || typeof record.interviewId !== 'string') return null
+  return {
+    interviewId: record.interviewId,
+    ...(record.locale !== undefined ? { locale: record.locale } : {}),
+    ...(record.sendEmail !== undefined ? { sendEmail: record.sendEmail } : {}),
+    ...(record.force !== undefined ? { force: record.force } : {}),
+    ...(record.analysisJobId !== undefined ? { analysisJobId: record.analysisJobId } : {}),
   }
 }
 
-export async function startInterviewAnalyzeWorker() {
-  const channel = await assertDurableQueue(QUEUE_NAMES.interviewAnalyze)
-  const prefetch = 1
-  await channel.prefetch(prefetch)
-  const maxAttempts = 3
+export const interviewAnalyzeJob: JobDefinition<InterviewAnalyzeTaskPayload> = {
+  queue: QUEUE_NAMES.interviewAnalyze,
+  deadLetterQueue: QUEUE_NAMES.interviewAnalyzeDeadLetter,
+  prefetch: 1,
+  maxRetries: 3,
+  parse: parseInterviewAnalyze,
+  logContext: (payload) => ({ interviewId: payload.interviewId, analysisJobId: payload.analysisJobId ?? undefined }),
+  async run(payload, { attempt }) {
+    const startedAt = Date.now()
+    const observe = (outcome: string) => {
+      analyzeTasksTotal.inc({ outcome })
+      analyzeTaskDuration.observe({ outcome }, (Date.now() - startedAt) / 1000)
+    }
 
-  await channel.consume(
-    QUEUE_NAMES.interviewAnalyze,
-    async (msg) => {
-      if (!msg) return
-
-      const payload = parseMessage(msg)
-      if (!payload) {
-        channel.ack(msg)
-        return
+    try {
+      const result = await processInterviewAnalyzeTask(payload, { attempt })
+      observe(result.status)
+      if (result.status === 'completed') {
+        log.info('Completed', { score: result.score })
+      } else if (result.status === 'skipped') {
+        log.info('Skipped', { reason: result.reason, score: result.score })
+      } else if (result.status === 'not_found') {
+        log.warn('Interview not found')
       }
+    } catch (error) {
+      observe('failed')
+      throw error
+    }
+  },
+  async onRetry(payload, { delayMs }) {
+    analyzeRetriesTotal.inc({ result: 'retried' })
+    if (payload.analysisJobId) {
+      await markAnalysisJobRetrying(payload.analysisJobId, delayMs)
+    }
+  },
+  async onDeadLetter(payload) {
+    analyzeRetriesTotal.inc({ result: 'dead_lettered' })
+    const supabase = createAdminClient()
+    // The analysis would normally close the hold; a dead-lettered one must not keep it forever.
+    await settleEndedInterviewCredits(payload.interviewId, supabase)
+    await refundFailedAnalysis(payload.interviewId, supabase)
+  },
+}
 
-      try {
-        const result = await processInterviewAnalyzeTask(payload)
-        if (result.status === 'completed') {
-          console.log(`[Interview Analyze] Completed: ${result.interviewId} (score=${result.score})`)
-        } else if (result.status === 'skipped') {
-          console.log(`[Interview Analyze] Skipped: ${result.interviewId} (${result.reason}, score=${result.score})`)
-        } else if (result.status === 'not_found') {
-          console.warn(`[Interview Analyze] Not found: ${result.interviewId}`)
-        }
-      } catch (error) {
-        console.error('Interview analyze worker failed:', error)
+/**
+ * Queues an analysis. By default a RabbitMQ outage buffers the message in the local outbox
+ * (`buffered: true`) instead of failing; pass `bufferIfUnavailable: false` when the caller must
+ * know the message reached the queue.
+ */
+export async function enqueueInterviewAnalyzeTask(
+  payload: InterviewAnalyzeTaskPayload,
+  { bufferIfUnavailable = true }: { bufferIfUnavailable?: boolean } = {}
+): Promise<{ analysisJobId: string | null; buffered: boolean }> {
+  const analysisJobId =
+    payload.analysisJobId ??
+    (await createAnalysisJob({ interviewId: payload.interviewId, locale: payload.locale, sendEmail: payload.sendEmail }))
 
-        const attempt = (payload.attempt ?? 0) + 1
-        if (Number.isFinite(maxAttempts) && attempt <= maxAttempts) {
-          await publishJson(QUEUE_NAMES.interviewAnalyze, { ...payload, attempt })
-        }
-      } finally {
-        channel.ack(msg)
-      }
-    },
-    { noAck: false }
+  const result = await enqueueJob(
+    interviewAnalyzeJob,
+    { ...payload, ...(analysisJobId ? { analysisJobId } : {}) },
+    { bufferIfUnavailable }
   )
+  return { analysisJobId, buffered: result.buffered }
+}
+
+export interface InterviewAnalyzeDeadLetterEntry extends Partial<InterviewAnalyzeDeadLetter> {
+  messageId: string | null
+  enqueuedAt: string | null
+}
 
-  console.log(`RabbitMQ worker started: ${QUEUE_NAMES.interviewAnalyze} (prefetch=${prefetch})`)
+function toDeadLetterEntry(message: QueueMessage): InterviewAnalyzeDeadLetterEntry {
+  const content =
+    message.content && typeof message.content === 'object' && !Array.isArray(message.content)
+      ? (message.content as Partial<InterviewAnalyzeDeadLetter>)
+      : {}
+
+  return {
+    messageId: message.messageId,
+    enqueuedAt: message.timestamp ? new Date(message.timestamp * 1000).toISOString() : null,
+    payload: content.payload,
+    attempts: content.attempts,
+    lastError: content.lastError,
+    failedAt: content.failedAt,
+  }
+}
+
+export async function listInterviewAnalyzeDeadLetters(limit: number): Promise<InterviewAnalyzeDeadLetterEntry[]> {
+  const messages = await getQueueBackend().peek(QUEUE_NAMES.interviewAnalyzeDeadLetter, limit)
+  return messages.map(toDeadLetterEntry)
 }
 
+export async function getInterviewAnalyzeDeadLetter(
+  messageId: string,
+  scanLimit: number
+): Promise<InterviewAnalyzeDeadLetterEntry | null> {
+  const messages = await getQueueBackend().peek(QUEUE_NAMES.interviewAnalyzeDeadLetter, scanLimit)
+  const match = messages.find((message) => message.messageId === messageId)
+  return match ? toDeadLetterEntry(match) : null
+}
+
+/**
+ * Moves a dead-lettered analysis back onto the work queue with a fresh retry budget.
+ */
+export async function requeueInterviewAnalyzeDeadLetter(
+  messageId: string,
+  scanLimit: number
+): Promise<InterviewAnalyzeDeadLetterEntry | null> {
+  const taken = await getQueueBackend().take(QUEUE_NAMES.interviewAnalyzeDeadLetter, messageId, scanLimit, async (message) => {
+    const entry = toDeadLetterEntry(message)
+    if (!entry.payload?.interviewId) {
+      throw new Error('Dead-letter message has no interview payload')
+    }
+    // The dead-letter message is only acked once the requeue is confirmed, so never buffer here.
+    await enqueueInterviewAnalyzeTask(entry.payload, { bufferIfUnavailable: false })
+    if (entry.payload.analysisJobId) {
+      await markAnalysisJobRetrying(entry.payload.analysisJobId, 0)
+    }
+  })
+
+  return taken ? toDeadLetterEntry(taken) : null
+}
@@ -0,0 +1,193 @@
+import { randomUUID } from 'node:crypto'
+import { jobsTotal } from '../metrics'
+import { getQueueBackend } from '../queue'
+import type { QueueMessage, Settlement } from '../queue/types'
+import { createLogger, withLogContext, type LogContext } from '../utils/logger'
+
+const DEFAULT_RETRY_BASE_DELAY_MS = 30_000
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000
+
+const log = createLogger({ component: 'Jobs' })
+
+/**
+ * A background job type. Failed runs are retried with exponential backoff and moved to
+ * `deadLetterQueue` once `maxRetries` is used up. `<QUEUE>_PREFETCH`, `<QUEUE>_MAX_RETRIES` and `<QUEUE>_RETRY_BASE_MS` (queue name upper-cased,
+ * e.g. `EMAIL_SEND_PREFETCH`) override the defaults per queue.
+ */
+export interface JobDefinition<TPayload> {
+  queue: string
+  deadLetterQueue: string
+  /** Jobs run concurrently per process. */
+  prefetch: number
+  maxRetries: number
+  /** Checks a dequeued payload; invalid messages are dropped. */
+  parse: (content: unknown) => TPayload | null
+  /** Correlation fields for every line logged while the job runs. */
+  logContext?: (payload: TPayload) => LogContext
+  run: (payload: TPayload, context: { attempt: number }) => Promise<void>
+  /** Runs once a failed job has been queued again; errors are logged, not retried. */
+  onRetry?: (payload: TPayload, retry: { attempt: number; delayMs: number }) => Promise<void>
+  /** Runs once a job has been moved to its dead-letter queue; errors are logged, not retried. */
+  onDeadLetter?: (payload: TPayload, deadLetter: JobDeadLetter<TPayload>) => Promise<void>
+}
+
+export interface JobMessage<TPayload> {
+  payload: TPayload
+  attempt: number
+}
+
+export interface JobDeadLetter<TPayload> {
+  payload: TPayload
+  attempts: number
+  lastError: string
+  failedAt: string
+}
+
+const inFlight = new Set<Promise<Settlement>>()
+
+function readNonNegativeIntEnv(name: string, fallback: number): number {
+  const raw = process.env[name]
+  if (!raw) return fallback
+  const value = Number(raw)
+  return Number.isInteger(value) && value >= 0 ? value : fallback
+}
+
+/** Prefix for per-queue settings: `email_send` → `EMAIL_SEND`. */
+export function getQueueEnvPrefix(queue: string): string {
+  return queue.toUpperCase().replace(/[^A-Z0-9]+/g, '_')
+}
+
+export function getQueuePrefetch(queue: string, fallback: number): number {
+  return Math.max(1, readNonNegativeIntEnv(`${getQueueEnvPrefix(queue)}_PREFETCH`, fallback))
+}
+
+function getRetryDelayMs(queue: string, attempt: number): number {
+  const baseDelayMs = readNonNegativeIntEnv(`${getQueueEnvPrefix(queue)}_RETRY_BASE_MS`, DEFAULT_RETRY_BASE_DELAY_MS)
+  return Math.min(baseDelayMs * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS)
+}
+
+function getErrorMessage(error: unknown): string {
+  if (error instanceof Error) return error.message
+  if (typeof error === 'string') return error
+  return 'Unknown error'
+}
+
+/**
+ * Queues a job. By default a RabbitMQ outage buffers it in the local outbox (`buffered: true`)
+ * instead of failing the caller.
+ */
+export async function enqueueJob<TPayload>(
+  job: JobDefinition<TPayload>,
+  payload: TPayload,
+  { bufferIfUnavailable = true }: { bufferIfUnavailable?: boolean } = {}
+): Promise<{ buffered: boolean }> {
+  const message: JobMessage<TPayload> = { payload, attempt: 0 }
+  const result = await getQueueBackend().publish(job.queue, message, { bufferIfUnavailable })
+  return { buffered: result === 'buffered' }
+}
+
+// The message is already handed off when a hook runs, so a failing hook must not requeue it.
+async function runHook(name: string, hook: () => Promise<void> | undefined): Promise<void> {
+  try {
+    await hook()
+  } catch (error) {
+    log.error(`Job ${name} hook failed`, { err: error })
+  }
+}
+
+async function scheduleRetryOrDeadLetter<TPayload>(
+  job: JobDefinition<TPayload>,
+  message: JobMessage<TPayload>,
+  error: unknown
+): Promise<void> {
+  const attempt = message.attempt + 1
+  const maxRetries = readNonNegativeIntEnv(`${getQueueEnvPrefix(job.queue)}_MAX_RETRIES`, job.maxRetries)
+
+  if (attempt <= maxRetries) {
+    const delayMs = getRetryDelayMs(job.queue, attempt)
+    await getQueueBackend().publish(job.queue, { payload: message.payload, attempt }, { delayMs })
+    log.warn(`Retry ${attempt}/${maxRetries} in ${delayMs}ms`, { nextAttempt: attempt, delayMs, err: error })
+    jobsTotal.inc({ queue: job.queue, outcome: 'retried' })
+    await runHook('onRetry', () => job.onRetry?.(message.payload, { attempt, delayMs }))
+    return
+  }
+
+  const deadLetter: JobDeadLetter<TPayload> = {
+    payload: message.payload,
+    attempts: attempt,
+    lastError: getErrorMessage(error),
+    failedAt: new Date().toISOString(),
+  }
+  await getQueueBackend().publish(job.deadLetterQueue, deadLetter, { messageId: randomUUID() })
+  log.error(`Dead-lettered after ${attempt} attempt(s)`, { attempts: attempt, lastError: deadLetter.lastError })
+  jobsTotal.inc({ queue: job.queue, outcome: 'dead_lettered' })
+  await runHook('onDeadLetter', () => job.onDeadLetter?.(message.payload, deadLetter))
+}
+
+async function handleJobMessage<TPayload>(job: JobDefinition<TPayload>, queued: QueueMessage): Promise<Settlement> {
+  const content = queued.content as Partial<JobMessage<unknown>> | null
+  // `interview_analyze` messages queued before it became a job carry the payload unwrapped.
+  const rawPayload = content && typeof content === 'object' && 'payload' in content ? content.payload : content
+  const payload = rawPayload ? job.parse(rawPayload) : null
+  if (!payload) {
+    log.error(`Invalid ${job.queue} message`, { queue: job.queue, messageId: queued.messageId })
+    jobsTotal.inc({ queue: job.queue, outcome: 'invalid' })
+    return 'ack'
+  }
+
+  const message: JobMessage<TPayload> = { payload, attempt: typeof content?.attempt === 'number' ? content.attempt : 0 }
+  const context: LogContext = {
+    requestId: queued.correlationId ?? undefined,
+    queue: job.queue,
+    messageId: queued.messageId ?? undefined,
+    attempt: message.attempt,
+    ...job.logContext?.(payload),
+  }
+
+  return withLogContext(context, async (): Promise<Settlement> => {
+    try {
+      await job.run(payload, { attempt: message.attempt })
+      jobsTotal.inc({ queue: job.queue, outcome: 'completed' })
+      return 'ack'
+    } catch (error) {
+      try {
+        await scheduleRetryOrDeadLetter(job, message, error)
+      } catch (publishError) {
+        // Could not hand the job off; leave it on the queue rather than lose it.
+        log.error('Failed to schedule retry, requeueing', { err: publishError })
+        return 'requeue'
+      }
+      return 'ack'
+    }
+  })
+}
+
+export async function startJobWorker<TPayload>(job: JobDefinition<TPayload>): Promise<void> {
+  const prefetch = getQueuePrefetch(job.queue, job.prefetch)
+
+  await getQueueBackend().consume(job.queue, { prefetch }, async (message) => {
+    const task = handleJobMessage(job, message)
+    inFlight.add(task)
+    try {
+      return await task
+    } finally {
+      inFlight.delete(task)
+    }
+  })
+
+  log.info(`Worker started: ${job.queue}`, { backend: getQueueBackend().kind, prefetch })
+}
+
+/** Stops taking new jobs and waits for the running ones to finish. */
+export async function stopJobWorkers(): Promise<void> {
+  try {
+    await getQueueBackend().cancelConsumers()
+  } catch (error) {
+    log.warn('Failed to cancel consumers', { err: error })
+  }
+
+  if (inFlight.size > 0) {
+    log.info(`Waiting for ${inFlight.size} job(s) to finish`)
+    await Promise.allSettled(inFlight)
+  }
+}
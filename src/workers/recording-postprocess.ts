@@ -0,0 +1,32 @@
+import { processEgressEnded, type EgressEndedPayload } from '../livekit/egress-ended'
+import { QUEUE_NAMES } from '../queue/queues'
+import { createLogger } from '../utils/logger'
+import { enqueueJob, type JobDefinition } from './jobs'
+
+const log = createLogger({ component: 'Recording' })
+
+function parseEgressEnded(content: unknown): EgressEndedPayload | null {
+  const record = content as Partial<EgressEndedPayload> | null
+  if (!record || typeof record.egressId !== 'string') return null
+  if (record.recordingStatus !== 'ready' && record.recordingStatus !== 'failed') return null
+  return record as EgressEndedPayload
+}
+
+export const recordingPostprocessJob: JobDefinition<EgressEndedPayload> = {
+  queue: QUEUE_NAMES.recordingPostprocess,
+  deadLetterQueue: QUEUE_NAMES.recordingPostprocessDeadLetter,
+  prefetch: 2,
+  maxRetries: 3,
+  parse: parseEgressEnded,
+  async run(payload) {
+    const result = await processEgressEnded(payload)
+    if (!result.handled) {
+      log.warn('Egress not tracked by any interview', { egressId: payload.egressId, roomName: payload.roomName })
+    }
+  },
+}
+
+/** Hands a finished egress to the `recording_postprocess` worker so the webhook can answer at once. */
+export async function enqueueRecordingPostprocess(payload: EgressEndedPayload): Promise<{ buffered: boolean }> {
+  return enqueueJob(recordingPostprocessJob, payload)
+}
@@ -0,0 +1,200 @@
+-- Columns and tables used by per-mode billing, credit holds, budgets, analysis history, the
+-- scheduler, the internal API audit, idempotency keys and the Postgres queue backend.
+-- Every statement is idempotent, so the file can be re-applied to a partly migrated database.
+
+-- interviews -----------------------------------------------------------------------------------
+
+alter table public.interviews
+  add column if not exists minutes_billed integer,
+  add column if not exists credits_refunded integer,
+  add column if not exists analysis_credits_charged integer,
+  add column if not exists recording_status text check (recording_status in ('ready', 'failed')),
+  add column if not exists recording_error text;
+
+alter table public.copilot_interviews
+  add column if not exists recording_status text check (recording_status in ('ready', 'failed')),
+  add column if not exists recording_error text;
+
+-- companies ------------------------------------------------------------------------------------
+
+alter table public.companies
+  add column if not exists credits_reserved integer not null default 0,
+  add column if not exists credit_alert_level text check (credit_alert_level in ('low', 'critical', 'exhausted')),
+  add column if not exists plan text;
+
+-- Credits --------------------------------------------------------------------------------------
+
+create table if not exists public.credit_reservations (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies (id) on delete cascade,
+  interview_id uuid not null references public.interviews (id) on delete cascade,
+  amount integer not null check (amount > 0),
+  consumed integer not null default 0 check (consumed >= 0),
+  status text not null default 'held' check (status in ('held', 'settled', 'released')),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  closed_at timestamptz
+);
+
+-- An interview has at most one open hold.
+create unique index if not exists credit_reservations_held_interview_key
+  on public.credit_reservations (interview_id) where status = 'held';
+create index if not exists credit_reservations_company_status_idx
+  on public.credit_reservations (company_id, status);
+
+create table if not exists public.credit_pricing (
+  plan text not null,
+  interview_mode text not null check (interview_mode in ('ai_qa', 'ai_dialogue', 'assisted_video', 'assisted_voice')),
+  credits_per_minute numeric not null default 0 check (credits_per_minute >= 0),
+  recording_credits_per_minute numeric not null default 0 check (recording_credits_per_minute >= 0),
+  analysis_credits numeric not null default 0 check (analysis_credits >= 0),
+  updated_at timestamptz not null default now(),
+  primary key (plan, interview_mode)
+);
+
+create table if not exists public.credit_budgets (
+  id uuid primary key default gen_random_uuid(),
+  company_id uuid not null references public.companies (id) on delete cascade,
+  scope text not null check (scope in ('job', 'interviewer')),
+  scope_id uuid not null,
+  monthly_credit_limit integer not null check (monthly_credit_limit >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz,
+  unique (company_id, scope, scope_id)
+);
+
+-- Budget spend and usage reports read the ledger by company and month.
+create index if not exists credit_transactions_company_created_idx
+  on public.credit_transactions (company_id, created_at);
+create index if not exists credit_transactions_reference_type_idx
+  on public.credit_transactions (reference_id, type);
+
+-- Analysis -------------------------------------------------------------------------------------
+
+create table if not exists public.interview_analysis_jobs (
+  id uuid primary key default gen_random_uuid(),
+  interview_id uuid not null references public.interviews (id) on delete cascade,
+  status text not null check (status in ('queued', 'running', 'completed', 'skipped', 'failed')),
+  attempts integer not null default 0,
+  locale text,
+  send_email boolean,
+  model text,
+  score numeric,
+  skip_reason text,
+  error text,
+  queued_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz,
+  duration_ms integer,
+  next_attempt_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz
+);
+
+create index if not exists interview_analysis_jobs_interview_idx
+  on public.interview_analysis_jobs (interview_id, created_at desc);
+
+create table if not exists public.interview_analysis_versions (
+  id uuid primary key default gen_random_uuid(),
+  interview_id uuid not null references public.interviews (id) on delete cascade,
+  version integer not null check (version > 0),
+  score numeric,
+  raw_score numeric,
+  model text,
+  prompt_version text,
+  analysis_job_id uuid references public.interview_analysis_jobs (id) on delete set null,
+  ai_analysis jsonb,
+  created_at timestamptz not null default now(),
+  -- Concurrent analyses race for the next number; the loser gets 23505 and takes the one after.
+  unique (interview_id, version)
+);
+
+create table if not exists public.llm_usage_events (
+  id uuid primary key default gen_random_uuid(),
+  interview_id uuid references public.interviews (id) on delete set null,
+  company_id uuid references public.companies (id) on delete set null,
+  interview_mode text,
+  task text not null,
+  provider text not null,
+  model text not null,
+  input_tokens integer,
+  output_tokens integer,
+  total_tokens integer,
+  latency_ms integer not null,
+  cost_usd numeric,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists llm_usage_events_company_created_idx on public.llm_usage_events (company_id, created_at);
+create index if not exists llm_usage_events_interview_idx on public.llm_usage_events (interview_id, created_at);
+
+-- Scheduler ------------------------------------------------------------------------------------
+
+create table if not exists public.scheduler_leases (
+  -- One row per job; a second replica creating the same lease gets 23505 and skips the run.
+  job_name text primary key,
+  holder text not null,
+  expires_at timestamptz not null,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.scheduler_runs (
+  id uuid primary key default gen_random_uuid(),
+  job_name text not null,
+  instance_id text not null,
+  status text not null check (status in ('running', 'succeeded', 'failed')),
+  result jsonb,
+  error text,
+  started_at timestamptz not null default now(),
+  finished_at timestamptz,
+  duration_ms integer
+);
+
+create index if not exists scheduler_runs_job_started_idx on public.scheduler_runs (job_name, started_at desc);
+
+-- Internal API ---------------------------------------------------------------------------------
+
+create table if not exists public.internal_api_audit (
+  id uuid primary key default gen_random_uuid(),
+  token_name text,
+  token_id text,
+  method text not null,
+  route text not null,
+  status integer not null,
+  request_count integer not null,
+  first_seen_at timestamptz not null,
+  last_seen_at timestamptz not null
+);
+
+create index if not exists internal_api_audit_last_seen_idx on public.internal_api_audit (last_seen_at desc);
+
+create table if not exists public.idempotency_keys (
+  -- sha256 of caller, route and key; a concurrent claim of the same key gets 23505.
+  id text primary key,
+  idempotency_key text not null,
+  route text not null,
+  caller text,
+  request_hash text not null,
+  state text not null check (state in ('in_progress', 'completed')),
+  response_status integer,
+  response_body jsonb,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idempotency_keys_expires_idx on public.idempotency_keys (expires_at);
+
+-- Queue (QUEUE_BACKEND=postgres) ---------------------------------------------------------------
+
+create table if not exists public.queue_messages (
+  id text primary key,
+  queue text not null,
+  payload jsonb not null,
+  correlation_id text,
+  available_at timestamptz not null default now(),
+  locked_until timestamptz,
+  lock_token text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists queue_messages_queue_available_idx on public.queue_messages (queue, available_at);